@@ -0,0 +1,106 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createHash, timingSafeEqual } from "crypto"
+import { addReceptionReport, getReceptionReports } from "@/lib/reception-report-store"
+import { createRateLimiter, getClientIp } from "@/lib/rate-limit"
+import {
+  ADMIN_TOKEN_HEADER,
+  filterReports,
+  parseReportFilter,
+  receptionReportInputSchema,
+  reportsToCsv,
+  type ReportFilter
+} from "@/lib/reception-reports"
+import { REPORT_RATE_LIMIT } from "@/constants/reports"
+
+const submissionLimiter = createRateLimiter(REPORT_RATE_LIMIT.MAX_REPORTS, REPORT_RATE_LIMIT.WINDOW_MS)
+const trustedProxyHops = Number(process.env.TRUSTED_PROXY_HOPS || REPORT_RATE_LIMIT.TRUSTED_PROXY_HOPS)
+
+// Hashing first gives equal-length buffers, so the comparison time does not reveal the token length
+function tokensMatch(given: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(given), digest(expected))
+}
+
+// Listing needs REPORTS_ADMIN_TOKEN; without one it is closed, unless REPORTS_ADMIN_OPEN=true
+// in development. Returns the error response, or null for an admin.
+function checkAdmin(request: NextRequest): NextResponse | null {
+  const token = process.env.REPORTS_ADMIN_TOKEN
+  if (!token) {
+    if (process.env.NODE_ENV === "development" && process.env.REPORTS_ADMIN_OPEN === "true") return null
+    return NextResponse.json({ error: "Report listing is disabled: REPORTS_ADMIN_TOKEN is not set" }, { status: 503 })
+  }
+  if (!tokensMatch(request.headers.get(ADMIN_TOKEN_HEADER) ?? "", token)) {
+    return NextResponse.json({ error: "Admin token required" }, { status: 401 })
+  }
+  return null
+}
+
+// GET /api/reports?rating=&antenna=&channel=&from=&to=&bbox=&format=csv (admin)
+export async function GET(request: NextRequest) {
+  const denied = checkAdmin(request)
+  if (denied) return denied
+
+  let filter: ReportFilter
+  try {
+    filter = parseReportFilter(request.nextUrl.searchParams)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  try {
+    const reports = filterReports(await getReceptionReports(), filter).reverse()
+    if (request.nextUrl.searchParams.get("format") === "csv") {
+      return new NextResponse(`\uFEFF${reportsToCsv(reports)}`, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": 'attachment; filename="reception_reports.csv"',
+        },
+      })
+    }
+    return NextResponse.json({ data: reports, total: reports.length })
+  } catch (error) {
+    console.error("Failed to load reception reports:", error)
+    return NextResponse.json({ error: "Failed to load reception reports" }, { status: 500 })
+  }
+}
+
+// POST /api/reports { latitude, longitude, rating, antennaType, channel, comment }
+export async function POST(request: NextRequest) {
+  // Clients that cannot be told apart are refused rather than sharing one limit
+  const clientIp = getClientIp(request.headers, trustedProxyHops)
+  if (!clientIp) {
+    return NextResponse.json({ error: "Client address unknown" }, { status: 400 })
+  }
+
+  const retryAfterMs = submissionLimiter.take(clientIp)
+  if (retryAfterMs > 0) {
+    return NextResponse.json(
+      { error: "Too many reports; please try again later" },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(retryAfterMs / 1000)) } }
+    )
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Body must be JSON" }, { status: 400 })
+  }
+
+  const parsed = receptionReportInputSchema.safeParse(body)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return NextResponse.json({ error: `${issue.path.join(".") || "body"}: ${issue.message}` }, { status: 400 })
+  }
+
+  try {
+    const report = await addReceptionReport(parsed.data)
+    if (!report) {
+      return NextResponse.json({ error: "The report store is full" }, { status: 507 })
+    }
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    console.error("Failed to store reception report:", error)
+    return NextResponse.json({ error: "Failed to store reception report" }, { status: 500 })
+  }
+}
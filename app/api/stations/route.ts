@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getServerStations } from "@/lib/server-data"
+import { filterStations, paginate, parseDataQuery, type DataQuery, type PagedResponse } from "@/lib/data-query"
+import type { Station } from "@/types/map"
+
+// GET /api/stations?bbox=west,south,east,north&page=&pageSize=
+export async function GET(request: NextRequest) {
+  let query: DataQuery
+  try {
+    query = parseDataQuery(request.nextUrl.searchParams)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  try {
+    const stations = filterStations(await getServerStations(), query)
+    const response: PagedResponse<Station> = paginate(stations, query.page, query.pageSize)
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error("Failed to load stations:", error)
+    return NextResponse.json({ error: "Failed to load station data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getServerTechnicalData } from "@/lib/server-data"
+
+// GET /api/technical/:id
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const sites = await getServerTechnicalData()
+    const site = sites.find((item) => item.id === decodeURIComponent(id))
+    if (!site) {
+      return NextResponse.json({ error: `Technical site ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json(site)
+  } catch (error) {
+    console.error("Failed to load technical data:", error)
+    return NextResponse.json({ error: "Failed to load technical data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getServerTechnicalData } from "@/lib/server-data"
+import { filterTechnicalData, paginate, parseDataQuery, type DataQuery, type PagedResponse } from "@/lib/data-query"
+import type { TechnicalData } from "@/types/map"
+
+// GET /api/technical?bbox=&type=&engineeringCenter=&minErp=&maxErp=&page=&pageSize=
+export async function GET(request: NextRequest) {
+  let query: DataQuery
+  try {
+    query = parseDataQuery(request.nextUrl.searchParams)
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 })
+  }
+
+  try {
+    const sites = filterTechnicalData(await getServerTechnicalData(), query)
+    const response: PagedResponse<TechnicalData> = paginate(sites, query.page, query.pageSize)
+    return NextResponse.json(response)
+  } catch (error) {
+    console.error("Failed to load technical data:", error)
+    return NextResponse.json({ error: "Failed to load technical data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { getServerStations } from "@/lib/server-data"
+import { canTileStation } from "@/lib/coverage-tiles"
+import { getStationTile, getTileVersion } from "@/lib/coverage-tile-renderer"
+
+type TileParams = { stationId: string; version: string; z: string; x: string; y: string }
+
+// GET /api/tiles/:stationId/:version/:z/:x/:y.png
+export async function GET(_request: NextRequest, { params }: { params: Promise<TileParams> }) {
+  const { stationId, version, z, x, y } = await params
+  const coordinates = { z: Number(z), x: Number(x), y: Number(y.replace(/\.png$/, "")) }
+  if (!Object.values(coordinates).every(Number.isInteger)) {
+    return NextResponse.json({ error: "Tile coordinates must be integers" }, { status: 400 })
+  }
+
+  try {
+    const stations = await getServerStations()
+    const station = stations.find((item) => item.id === decodeURIComponent(stationId))
+    if (!station || !canTileStation(station)) {
+      return NextResponse.json({ error: `Station ${stationId} has no tiles` }, { status: 404 })
+    }
+    // Tiles of an earlier image or bounds are gone; the manifest has the current version
+    if (version !== getTileVersion(station)) {
+      return NextResponse.json({ error: `Tile version ${version} of station ${stationId} is out of date` }, { status: 404 })
+    }
+
+    const tile = await getStationTile(station, coordinates)
+    if (!tile) {
+      return NextResponse.json({ error: "Tile is outside the station's coverage" }, { status: 404 })
+    }
+    return new NextResponse(new Uint8Array(tile), {
+      // The version in the URL changes with the image or bounds, so a tile never changes
+      headers: { "Content-Type": "image/png", "Cache-Control": "public, max-age=31536000, immutable" },
+    })
+  } catch (error) {
+    console.error(`Failed to render tile ${stationId}/${version}/${z}/${x}/${y}:`, error)
+    return NextResponse.json({ error: "Failed to render tile" }, { status: 500 })
+  }
+}
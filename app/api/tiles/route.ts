@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { getServerStations } from "@/lib/server-data"
+import { canTileStation, type TileManifest } from "@/lib/coverage-tiles"
+import { getTileVersion } from "@/lib/coverage-tile-renderer"
+import { COVERAGE_TILES } from "@/constants/performance"
+
+// GET /api/tiles
+export async function GET() {
+  try {
+    const stations = (await getServerStations()).filter(canTileStation)
+    const manifest: TileManifest = {
+      tileSize: COVERAGE_TILES.TILE_SIZE,
+      minZoom: COVERAGE_TILES.MIN_ZOOM,
+      maxNativeZoom: COVERAGE_TILES.MAX_NATIVE_ZOOM,
+      stations: Object.fromEntries(
+        stations.map((station) => [
+          station.id,
+          { imageUrl: station.imageUrl, bounds: station.bounds, version: getTileVersion(station) },
+        ])
+      ),
+    }
+    return NextResponse.json(manifest)
+  } catch (error) {
+    console.error("Failed to load stations:", error)
+    return NextResponse.json({ error: "Failed to load station data" }, { status: 500 })
+  }
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, AlertCircle, AlertTriangle, CheckCircle2, ArrowLeft, RefreshCw, FileSpreadsheet } from "lucide-react"
+import { getStationDataReport } from "@/data/stations"
+import { getTechnicalDataReport } from "@/data/technical"
+import type { IssueSeverity, ValidationReport } from "@/lib/data-validation"
+
+type SeverityFilter = IssueSeverity | "all"
+
+export default function DataHealthPage() {
+  const [reports, setReports] = useState<ValidationReport<unknown>[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [severityFilter, setSeverityFilter] = useState<SeverityFilter>("all")
+
+  // force re-reads the CSVs rather than returning the reports cached for the map
+  const loadReports = useCallback(async (force = false) => {
+    setIsLoading(true)
+    setError(null)
+    const results = await Promise.allSettled([getStationDataReport(force), getTechnicalDataReport(force)])
+    setReports(results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : [])))
+
+    const failed = results.filter((result) => result.status === "rejected")
+    if (failed.length > 0) {
+      console.error("Failed to load data health reports:", failed)
+      setError("โหลดไฟล์ข้อมูลไม่สำเร็จบางไฟล์")
+    }
+    setIsLoading(false)
+  }, [])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="p-2">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-bold">Data Health</h1>
+            <Badge variant="outline" className="text-xs">Admin</Badge>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => loadReports(true)} disabled={isLoading}>
+            <RefreshCw className={`h-3 w-3 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            ตรวจสอบอีกครั้ง
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {isLoading && (
+          <div className="flex items-center justify-center gap-2 text-muted-foreground py-12">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            กำลังตรวจสอบไฟล์ข้อมูล...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {!isLoading && (
+          <>
+            {/* Summary per file */}
+            <div className="grid gap-4 md:grid-cols-2">
+              {reports.map((report) => {
+                const errors = report.issues.filter((issue) => issue.severity === "error").length
+                const warnings = report.issues.length - errors
+                return (
+                  <Card key={report.source}>
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-base flex items-center gap-2">
+                        <FileSpreadsheet className="h-4 w-4 text-green-600" />
+                        {report.source}
+                      </CardTitle>
+                      <CardDescription>
+                        โหลดได้ {report.valid.length} จาก {report.totalRows} แถว
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex gap-2 flex-wrap">
+                      {report.issues.length === 0 ? (
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">
+                          <CheckCircle2 className="h-3 w-3 mr-1" />
+                          ไม่พบปัญหา
+                        </Badge>
+                      ) : (
+                        <>
+                          <Badge variant="destructive">{report.invalidRows} แถวถูกข้าม</Badge>
+                          <Badge variant="outline" className="text-red-700 border-red-200">{errors} errors</Badge>
+                          <Badge variant="outline" className="text-amber-700 border-amber-200">{warnings} warnings</Badge>
+                        </>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+
+            {/* Issue tables */}
+            {reports.length > 0 && (
+              <Tabs defaultValue={reports[0].source} className="space-y-4">
+                <div className="flex items-center justify-between flex-wrap gap-2">
+                  <TabsList>
+                    {reports.map((report) => (
+                      <TabsTrigger key={report.source} value={report.source}>
+                        {report.source} ({report.issues.length})
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                  <div className="flex gap-1">
+                    {(["all", "error", "warning"] as SeverityFilter[]).map((severity) => (
+                      <Button
+                        key={severity}
+                        size="sm"
+                        variant={severityFilter === severity ? "default" : "outline"}
+                        onClick={() => setSeverityFilter(severity)}
+                        className="h-7 text-xs"
+                      >
+                        {severity === "all" ? "ทั้งหมด" : severity === "error" ? "Errors" : "Warnings"}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {reports.map((report) => {
+                  const issues = report.issues.filter(
+                    (issue) => severityFilter === "all" || issue.severity === severityFilter
+                  )
+                  return (
+                    <TabsContent key={report.source} value={report.source}>
+                      <Card>
+                        <CardContent className="p-0">
+                          {issues.length === 0 ? (
+                            <p className="text-sm text-muted-foreground text-center py-8">ไม่มีรายการ</p>
+                          ) : (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead className="w-16">แถว</TableHead>
+                                  <TableHead className="w-28">ระดับ</TableHead>
+                                  <TableHead>สถานี</TableHead>
+                                  <TableHead className="w-28">ฟิลด์</TableHead>
+                                  <TableHead>รายละเอียด</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {issues.map((issue, index) => (
+                                  <TableRow key={`${issue.row}-${issue.field}-${index}`}>
+                                    <TableCell className="font-mono text-xs">{issue.row}</TableCell>
+                                    <TableCell>
+                                      {issue.severity === "error" ? (
+                                        <span className="inline-flex items-center gap-1 text-xs text-red-700">
+                                          <AlertCircle className="h-3 w-3" /> Error
+                                        </span>
+                                      ) : (
+                                        <span className="inline-flex items-center gap-1 text-xs text-amber-700">
+                                          <AlertTriangle className="h-3 w-3" /> Warning
+                                        </span>
+                                      )}
+                                    </TableCell>
+                                    <TableCell className="text-xs">{issue.label || '-'}</TableCell>
+                                    <TableCell className="font-mono text-xs">{issue.field || '-'}</TableCell>
+                                    <TableCell className="text-xs">{issue.message}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </TabsContent>
+                  )
+                })}
+              </Tabs>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,7 +1,8 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import './globals.css'
 import 'leaflet/dist/leaflet.css'
 import { Kanit } from 'next/font/google';
+import ServiceWorkerRegistration from '@/components/service-worker-registration'
 
 // Initialize the Kanit font
 const kanit = Kanit({
@@ -14,6 +15,14 @@ export const metadata: Metadata = {
   title: 'v0 App',
   description: 'Created with v0',
   generator: 'v0.dev',
+  appleWebApp: {
+    capable: true,
+    title: 'Sky View',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#0047AB',
 }
 
 export default function RootLayout({
@@ -23,7 +32,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="th" className={`${kanit.variable} ${kanit.className}`}>
-      <body>{children}</body>
+      <body>
+        {children}
+        <ServiceWorkerRegistration />
+      </body>
     </html>
   )
 }
@@ -0,0 +1,20 @@
+import type { MetadataRoute } from "next"
+
+// Web app manifest, served at /manifest.webmanifest, so the app can be installed for offline use
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Sky View Coverage",
+    short_name: "Sky View",
+    description: "แผนที่พื้นที่ให้บริการโทรทัศน์ภาคพื้นดิน ใช้งานได้แม้ไม่มีสัญญาณอินเทอร์เน็ต",
+    lang: "th",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#0047AB",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      { src: "/icons/icon.svg", sizes: "any", type: "image/svg+xml" },
+    ],
+  }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -15,8 +15,15 @@ import { Loader2, ImageIcon, MapPin, AlertCircle, Globe, Layers, Settings, Refre
 import MapComponent from "@/components/map-component"
 import StationSelector from "@/components/station-selector"
 import CoverageLegend from "@/components/coverage-legend"
+import KmlImportCard from "@/components/kml-import-card"
+import AntennaCatalogueCard from "@/components/antenna-catalogue-card"
+import DriveTestCard from "@/components/drive-test-card"
+import OfflineCard from "@/components/offline-card"
 import { useMapData } from "@/hooks/use-map-data"
 import { useIsMobile } from "@/hooks/use-mobile"
+import type { BBox } from "@/lib/data-query"
+import { revokeImportedImages, type KmlImportResult } from "@/lib/kml-import"
+import type { DriveTestRun } from "@/lib/drive-test"
 import type { ImageOverlayData, Station } from "@/types/map"
 
 export default function HomePage() {
@@ -24,6 +31,11 @@ export default function HomePage() {
   const [isMapLoading, setIsMapLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("map")
   const [stationVisibility, setStationVisibility] = useState<Record<string, boolean>>({})
+  const [contourStationIds, setContourStationIds] = useState<string[]>([])
+  const [importedLayers, setImportedLayers] = useState<KmlImportResult[]>([])
+  const [predictedStations, setPredictedStations] = useState<Station[]>([])
+  const [driveTestRuns, setDriveTestRuns] = useState<DriveTestRun[]>([])
+  const [viewport, setViewport] = useState<BBox | null>(null)
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false)
   
   // Mobile detection hook
@@ -33,17 +45,23 @@ export default function HomePage() {
   const { 
     stations: rawStations, 
     technicalData, 
+    allTechnicalData,
+    technicalTotal,
+    loadAllTechnical,
     isLoading, 
     isStationsLoading,
     isTechnicalLoading,
     error: dataError, 
     refetch 
-  } = useMapData()
+  } = useMapData(viewport)
   
   const [error, setError] = useState<string | null>(null)
 
-  // Combine stations with visibility state
-  const stations = rawStations.map(station => ({
+  // Combine CSV, imported and predicted stations with visibility state
+  const importedFeatures = useMemo(() => importedLayers.flatMap(layer => layer.features), [importedLayers])
+  // Every technical site for the catalogue once it has asked for them; the viewport's sites until then
+  const allSites = allTechnicalData.length > 0 ? allTechnicalData : technicalData
+  const stations = [...rawStations, ...importedLayers.flatMap(layer => layer.stations), ...predictedStations].map(station => ({
     ...station,
     visible: stationVisibility[station.id] ?? false // Default to not visible
   }))
@@ -128,8 +146,55 @@ export default function HomePage() {
     setStationVisibility(newVisibility)
   }
 
+  const handleStationVisibilityToggle = (stationId: string, visible: boolean) => {
+    setStationVisibility(prev => ({ ...prev, [stationId]: visible }))
+  }
+
+  const handleToggleContours = (stationId: string, show: boolean) => {
+    setContourStationIds(prev =>
+      show ? [...prev.filter(id => id !== stationId), stationId] : prev.filter(id => id !== stationId)
+    )
+  }
+
+  const handleKmlImport = (result: KmlImportResult) => {
+    setImportedLayers(prev => [...prev, result])
+    setStationVisibility(prev => ({
+      ...prev,
+      ...Object.fromEntries(result.stations.map(station => [station.id, true]))
+    }))
+  }
+
+  const handleRemoveImport = (importId: string) => {
+    const layer = importedLayers.find(item => item.id === importId)
+    if (!layer) return
+    revokeImportedImages(layer)
+    setImportedLayers(prev => prev.filter(item => item.id !== importId))
+    setStationVisibility(prev => {
+      const next = { ...prev }
+      layer.stations.forEach(station => delete next[station.id])
+      return next
+    })
+  }
+
+  const handleDriveTestImport = (run: DriveTestRun) => {
+    setDriveTestRuns(prev => [...prev, run])
+  }
+
+  const handleRemoveDriveTest = (runId: string) => {
+    setDriveTestRuns(prev => prev.filter(run => run.id !== runId))
+  }
+
+  const handleAddStations = (newStations: Station[]) => {
+    const ids = new Set(newStations.map(station => station.id))
+    setPredictedStations(prev => [...prev.filter(station => !ids.has(station.id)), ...newStations])
+    setStationVisibility(prev => ({
+      ...prev,
+      ...Object.fromEntries(newStations.map(station => [station.id, true]))
+    }))
+  }
+
   const handleCompareStations = (stationIds: string[]) => {
-    const newVisibility = rawStations.reduce((acc, station) => {
+    const newVisibility = stations.reduce((acc, station) => {
       acc[station.id] = stationIds.includes(station.id)
       return acc
     }, {} as Record<string, boolean>)
@@ -157,6 +222,8 @@ export default function HomePage() {
             onStationChange={handleStationChange} 
             onCompareStations={handleCompareStations}
             isLoading={isStationsLoading}
+            contourStationIds={contourStationIds}
+            onToggleContours={handleToggleContours}
           />
         </TabsContent>
 
@@ -288,6 +355,23 @@ export default function HomePage() {
               )}
             </CardContent>
           </Card>
+
+          <KmlImportCard
+            importedLayers={importedLayers}
+            onImport={handleKmlImport}
+            onRemove={handleRemoveImport}
+          />
+
+          <DriveTestCard
+            runs={driveTestRuns}
+            stations={stations}
+            onImport={handleDriveTestImport}
+            onRemove={handleRemoveDriveTest}
+          />
+
+          <AntennaCatalogueCard technicalData={allSites} onLoadAllSites={loadAllTechnical} />
+
+          <OfflineCard stations={rawStations} viewport={viewport} />
         </TabsContent>
       </Tabs>
     </div>
@@ -337,7 +421,7 @@ export default function HomePage() {
                 </Badge>
                 <Badge variant="outline" className="flex items-center gap-1">
                   <Satellite className="h-3 w-3" />
-                  {technicalData.length} Technical Points
+                  {technicalTotal ?? technicalData.length} Technical Points
                 </Badge>
               </div>
             )}
@@ -393,9 +477,17 @@ export default function HomePage() {
             stations={stations} 
             overlayData={overlayData} 
             technicalData={technicalData}
+            allTechnicalData={allTechnicalData}
+            onLoadAllTechnical={loadAllTechnical}
             isLoading={isLoading} 
             isDataLoading={isLoading}
             isOverlayLoading={isMapLoading}
+            onStationVisibilityChange={handleStationVisibilityToggle}
+            contourStationIds={contourStationIds}
+            importedFeatures={importedFeatures}
+            driveTestRuns={driveTestRuns}
+            onViewportChange={setViewport}
+            onAddStations={handleAddStations}
           />
           
           {/* Mobile Floating Action Button */}
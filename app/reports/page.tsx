@@ -0,0 +1,308 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import Link from "next/link"
+import dynamic from "next/dynamic"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, AlertCircle, ArrowLeft, RefreshCw, Download, KeyRound } from "lucide-react"
+import {
+  ANTENNA_LABELS,
+  ANTENNA_TYPES,
+  RATING_COLORS,
+  RATING_LABELS,
+  RECEPTION_RATINGS,
+  downloadReportsCsv,
+  fetchReceptionReports,
+  type AntennaType,
+  type ReceptionRating,
+  type ReceptionReport,
+  type ReportFilter
+} from "@/lib/reception-reports"
+
+const ReceptionReportMap = dynamic(() => import("@/components/reception-report-map"), {
+  ssr: false,
+  loading: () => (
+    <div className="h-full flex items-center justify-center text-muted-foreground">
+      <Loader2 className="h-5 w-5 animate-spin" />
+    </div>
+  ),
+})
+
+const TOKEN_STORAGE_KEY = "sky-view-reports-token"
+// Rows shown in the table; the map and the CSV export use every matching report
+const TABLE_LIMIT = 200
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value]
+}
+
+export default function ReceptionReportsPage() {
+  const [reports, setReports] = useState<ReceptionReport[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [token, setToken] = useState("")
+  const [tokenInput, setTokenInput] = useState("")
+  // Complaints first: good reception is opt-in
+  const [ratings, setRatings] = useState<ReceptionRating[]>(["poor", "none"])
+  const [antennaTypes, setAntennaTypes] = useState<AntennaType[]>([])
+  const [channelText, setChannelText] = useState("")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [showHeatMap, setShowHeatMap] = useState(true)
+  const [showMarkers, setShowMarkers] = useState(true)
+
+  useEffect(() => {
+    const saved = sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? ""
+    setToken(saved)
+    setTokenInput(saved)
+  }, [])
+
+  const filter = useMemo<ReportFilter>(() => {
+    const channel = Number.parseInt(channelText, 10)
+    return {
+      ratings: ratings.length > 0 ? ratings : undefined,
+      antennaTypes: antennaTypes.length > 0 ? antennaTypes : undefined,
+      channel: Number.isInteger(channel) ? channel : undefined,
+      from: from || undefined,
+      to: to || undefined,
+    }
+  }, [ratings, antennaTypes, channelText, from, to])
+
+  const loadReports = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      setReports(await fetchReceptionReports(filter, token))
+    } catch (err) {
+      console.error("Failed to load reception reports:", err)
+      setError(err instanceof Error ? err.message : "โหลดรายงานไม่สำเร็จ")
+      setReports([])
+    } finally {
+      setIsLoading(false)
+    }
+  }, [filter, token])
+
+  useEffect(() => {
+    loadReports()
+  }, [loadReports])
+
+  const saveToken = () => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput)
+    setToken(tokenInput)
+  }
+
+  const counts = useMemo(() => {
+    const result: Record<ReceptionRating, number> = { good: 0, poor: 0, none: 0 }
+    reports.forEach((report) => result[report.rating]++)
+    return result
+  }, [reports])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Link href="/">
+              <Button variant="ghost" size="sm" className="p-2">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-bold">Reception Reports</h1>
+            <Badge variant="outline" className="text-xs">Admin</Badge>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => downloadReportsCsv(reports)} disabled={reports.length === 0}>
+              <Download className="h-3 w-3 mr-2" />
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={loadReports} disabled={isLoading}>
+              <RefreshCw className={`h-3 w-3 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              โหลดใหม่
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 grid gap-6 lg:grid-cols-[320px_1fr]">
+        <div className="space-y-4">
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">ตัวกรอง</CardTitle>
+              <CardDescription>{reports.length} รายงานตรงกับตัวกรอง</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">ผลการรับ</Label>
+                <div className="flex flex-wrap gap-1">
+                  {RECEPTION_RATINGS.map((rating) => (
+                    <Button
+                      key={rating}
+                      size="sm"
+                      variant={ratings.includes(rating) ? "default" : "outline"}
+                      className="h-7 text-xs"
+                      onClick={() => setRatings((prev) => toggle(prev, rating))}
+                    >
+                      <span className="h-2 w-2 rounded-full mr-1.5" style={{ backgroundColor: RATING_COLORS[rating] }} />
+                      {RATING_LABELS[rating]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">ชนิดสายอากาศ (ไม่เลือก = ทั้งหมด)</Label>
+                <div className="flex flex-wrap gap-1">
+                  {ANTENNA_TYPES.map((antennaType) => (
+                    <Button
+                      key={antennaType}
+                      size="sm"
+                      variant={antennaTypes.includes(antennaType) ? "default" : "outline"}
+                      className="h-7 text-xs"
+                      onClick={() => setAntennaTypes((prev) => toggle(prev, antennaType))}
+                    >
+                      {ANTENNA_LABELS[antennaType]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="report-channel" className="text-xs text-muted-foreground">ช่อง</Label>
+                  <Input
+                    id="report-channel"
+                    type="number"
+                    min={1}
+                    max={69}
+                    value={channelText}
+                    onChange={(e) => setChannelText(e.target.value)}
+                    className="h-8 text-xs"
+                  />
+                </div>
+                <div className="space-y-1 col-span-2">
+                  <Label className="text-xs text-muted-foreground">ช่วงวันที่ (UTC)</Label>
+                  <div className="flex gap-1">
+                    <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 text-xs px-1" />
+                    <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 text-xs px-1" />
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="report-heat" className="text-sm">Heat map</Label>
+                  <Switch id="report-heat" checked={showHeatMap} onCheckedChange={setShowHeatMap} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="report-markers" className="text-sm">จุดรายงาน</Label>
+                  <Switch id="report-markers" checked={showMarkers} onCheckedChange={setShowMarkers} />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                Admin token
+              </CardTitle>
+              <CardDescription>โทเค็นตามค่า REPORTS_ADMIN_TOKEN ของเซิร์ฟเวอร์</CardDescription>
+            </CardHeader>
+            <CardContent className="flex gap-2">
+              <Input
+                type="password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && saveToken()}
+                className="h-8 text-xs"
+              />
+              <Button size="sm" variant="outline" onClick={saveToken} disabled={tokenInput === token}>
+                ใช้
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-2 flex-wrap">
+            {RECEPTION_RATINGS.map((rating) => (
+              <Badge key={rating} variant="outline" style={{ borderColor: RATING_COLORS[rating] }}>
+                {RATING_LABELS[rating]}: {counts[rating]}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4 min-w-0">
+          {error && (
+            <div className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <Card className="overflow-hidden">
+            <div className="h-[480px] relative">
+              <ReceptionReportMap reports={reports} showHeatMap={showHeatMap} showMarkers={showMarkers} />
+              {isLoading && (
+                <div className="absolute inset-0 z-[1000] flex items-center justify-center bg-white/50">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              )}
+            </div>
+          </Card>
+
+          <Card>
+            <CardContent className="p-0">
+              {reports.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">ไม่มีรายงาน</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">เวลา</TableHead>
+                      <TableHead className="w-36">ผลการรับ</TableHead>
+                      <TableHead className="w-36">สายอากาศ</TableHead>
+                      <TableHead className="w-16">ช่อง</TableHead>
+                      <TableHead>ความคิดเห็น</TableHead>
+                      <TableHead className="w-44">พิกัด</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {reports.slice(0, TABLE_LIMIT).map((report) => (
+                      <TableRow key={report.id}>
+                        <TableCell className="text-xs">{new Date(report.createdAt).toLocaleString('th-TH')}</TableCell>
+                        <TableCell className="text-xs">
+                          <span className="inline-flex items-center gap-1.5">
+                            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: RATING_COLORS[report.rating] }} />
+                            {RATING_LABELS[report.rating]}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-xs">{ANTENNA_LABELS[report.antennaType]}</TableCell>
+                        <TableCell className="text-xs">{report.channel ?? '-'}</TableCell>
+                        <TableCell className="text-xs whitespace-pre-wrap">{report.comment || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {report.latitude.toFixed(5)}, {report.longitude.toFixed(5)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {reports.length > TABLE_LIMIT && (
+                <p className="text-xs text-muted-foreground text-center py-2 border-t">
+                  แสดง {TABLE_LIMIT} รายงานล่าสุดจาก {reports.length} · ดาวน์โหลด CSV เพื่อดูทั้งหมด
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
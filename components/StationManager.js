@@ -5,6 +5,8 @@
 import { MOBILE_MARKER_LIMITS, DESKTOP_MARKER_LIMITS, VIEWPORT_SETTINGS, PROGRESSIVE_LOADING, CLUSTERING_CONFIG } from '../constants/performance.js';
 import { getDeviceType, getPerformanceTier, getRecommendedSettings } from '../utils/deviceDetection.js';
 import { StationClusterer } from '../utils/clustering.js';
+import { warpImageToMercator } from '../lib/mercator-warp';
+import { getStationTileUrl, loadTileManifest } from '../lib/coverage-tiles';
 
 export class StationManager {
   constructor(mapInstance) {
@@ -16,6 +18,8 @@ export class StationManager {
     this.clusterMarkerRefs = new Map();
     this.loadingQueue = [];
     this.isProcessing = false;
+    this.overlaysSuppressed = false;
+    this.untiledStations = new Set();
     
     // Performance settings
     this.settings = getRecommendedSettings();
@@ -336,37 +340,23 @@ export class StationManager {
    * @param {Object} station - Station object
    */
   async addStationOverlay(station) {
-    if (!station.imageUrl || this.renderedStations.has(station.id)) return;
+    if (!station.imageUrl || this.renderedStations.has(station.id) || this.overlaysSuppressed) return;
     
     try {
       const L = await import('leaflet');
       
-      // Use compressed image if available
-      let imageUrl = station.imageUrl;
-      if (station.compressedImageUrl) {
-        imageUrl = station.compressedImageUrl;
-      }
-      
-      const imageOverlay = L.imageOverlay(imageUrl, station.bounds, {
-        opacity: 0.6,
-        interactive: false,
-        crossOrigin: 'anonymous',
-        className: `station-overlay-${station.id}`,
-        pane: 'overlayPane',
-        bubblingMouseEvents: false
-      });
-      
-      imageOverlay.on('load', () => {
-        console.log(`Overlay loaded: ${station.name}`);
-      });
+      // Stations the server has cut into tiles load only the tiles in view
+      const tileManifest = this.untiledStations.has(station.id) ? null : await loadTileManifest();
+      const tileUrl = tileManifest && getStationTileUrl(tileManifest, station);
+      const overlay = tileUrl
+        ? this.createTileLayer(L, station, tileUrl, tileManifest)
+        : await this.createImageOverlay(L, station);
       
-      imageOverlay.on('error', (e) => {
-        console.error(`Failed to load overlay for ${station.name}:`, e);
-        this.removeStationOverlay(station.id);
-      });
+      // The station may have been added or hidden while the image was being warped
+      if (this.renderedStations.has(station.id) || this.overlaysSuppressed) return;
       
-      imageOverlay.addTo(this.map);
-      this.overlayRefs.set(station.id, imageOverlay);
+      overlay.addTo(this.map);
+      this.overlayRefs.set(station.id, overlay);
       this.renderedStations.add(station.id);
       
     } catch (error) {
@@ -374,6 +364,83 @@ export class StationManager {
     }
   }
 
+  /**
+   * Create a tile layer for a station with a server-side tile pyramid
+   * @param {Object} L - Leaflet module
+   * @param {Object} station - Station object
+   * @param {string} tileUrl - Tile URL template
+   * @param {Object} tileManifest - Tile manifest from the server
+   * @returns {Object} Leaflet tile layer
+   */
+  createTileLayer(L, station, tileUrl, tileManifest) {
+    const tileLayer = L.tileLayer(tileUrl, {
+      bounds: station.bounds,
+      tileSize: tileManifest.tileSize,
+      minNativeZoom: tileManifest.minZoom,
+      maxNativeZoom: tileManifest.maxNativeZoom,
+      opacity: 0.6,
+      crossOrigin: 'anonymous',
+      className: `station-overlay-${station.id}`,
+      pane: 'overlayPane'
+    });
+    
+    tileLayer.on('load', () => {
+      console.log(`Overlay tiles loaded: ${station.name}`);
+    });
+    
+    // Fall back to the single image if the server cannot render this station's tiles
+    tileLayer.once('tileerror', (e) => {
+      console.warn(`Failed to load overlay tiles for ${station.name}, using the full image:`, e);
+      this.untiledStations.add(station.id);
+      if (this.overlayRefs.get(station.id) !== tileLayer) return;
+      this.removeStationOverlay(station.id);
+      this.addStationOverlay(station);
+    });
+    
+    return tileLayer;
+  }
+
+  /**
+   * Create a single image overlay for a station, warped into Web Mercator
+   * @param {Object} L - Leaflet module
+   * @param {Object} station - Station object
+   * @returns {Promise<Object>} Leaflet image overlay
+   */
+  async createImageOverlay(L, station) {
+    // Use compressed image if available
+    let imageUrl = station.imageUrl;
+    if (station.compressedImageUrl) {
+      imageUrl = station.compressedImageUrl;
+    }
+    
+    // Coverage images are gridded in lat/lng; resample their rows into Web Mercator
+    try {
+      imageUrl = await warpImageToMercator(imageUrl, station.bounds);
+    } catch (warpError) {
+      console.warn(`Overlay for ${station.name} shown without Mercator warping:`, warpError);
+    }
+    
+    const imageOverlay = L.imageOverlay(imageUrl, station.bounds, {
+      opacity: 0.6,
+      interactive: false,
+      crossOrigin: 'anonymous',
+      className: `station-overlay-${station.id}`,
+      pane: 'overlayPane',
+      bubblingMouseEvents: false
+    });
+    
+    imageOverlay.on('load', () => {
+      console.log(`Overlay loaded: ${station.name}`);
+    });
+    
+    imageOverlay.on('error', (e) => {
+      console.error(`Failed to load overlay for ${station.name}:`, e);
+      this.removeStationOverlay(station.id);
+    });
+    
+    return imageOverlay;
+  }
+
   /**
    * Remove station overlay from map
    * @param {string} stationId - Station ID
@@ -489,6 +556,17 @@ export class StationManager {
     this.updateVisibleStations();
   }
   
+  /**
+   * Hide or restore individual station overlays (e.g. while a composite layer replaces them)
+   * @param {boolean} suppressed - Whether individual overlays should be hidden
+   */
+  setOverlaysSuppressed(suppressed) {
+    if (this.overlaysSuppressed === suppressed) return;
+    
+    this.overlaysSuppressed = suppressed;
+    this.forceUpdate();
+  }
+  
   /**
    * Enable or disable clustering
    * @param {boolean} enabled - Whether to enable clustering
@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Loader2, Trash2, Upload, Signal } from "lucide-react"
+import { useAntennaCatalogue } from "@/hooks/use-antenna-catalogue"
+import { getSiteAntennaKeys } from "@/lib/antenna-catalogue"
+import { parseAntennaPatternFile, type AntennaPatternData } from "@/lib/antenna-patterns"
+import type { TechnicalData } from "@/types/map"
+
+interface AntennaCatalogueCardProps {
+  technicalData: TechnicalData[]
+  onLoadAllSites?: () => void // called on mount, as antenna types are counted over every site
+}
+
+const UNLINKED = "none"
+
+export default function AntennaCatalogueCard({ technicalData, onLoadAllSites }: AntennaCatalogueCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const { catalogue, addPatterns, removePattern, linkAntenna } = useAntennaCatalogue()
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    onLoadAllSites?.()
+  }, [onLoadAllSites])
+
+  // Every antenna type in the register with the number of sites using it
+  const antennaKeys = useMemo(() => {
+    const counts = new Map<string, number>()
+    technicalData.forEach((site) => {
+      getSiteAntennaKeys(site).forEach((key) => counts.set(key, (counts.get(key) ?? 0) + 1))
+    })
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  }, [technicalData])
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsImporting(true)
+    setError(null)
+
+    const imported: AntennaPatternData[] = []
+    for (const file of Array.from(files)) {
+      try {
+        imported.push(parseAntennaPatternFile(await file.text(), file.name))
+      } catch (err) {
+        console.error('Antenna pattern import failed:', err)
+        setError(err instanceof Error ? err.message : `${file.name}: import failed`)
+      }
+    }
+    if (imported.length > 0) addPatterns(imported)
+
+    setIsImporting(false)
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Antenna Patterns</CardTitle>
+        <CardDescription>
+          Import .msi, .pat or CSV patterns and link them to antenna types
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".msi,.pat,.csv,.txt"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose pattern files
+            </>
+          )}
+        </Button>
+
+        {error && (
+          <div className="text-sm text-destructive inline-flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {catalogue.patterns.map((pattern) => (
+          <div key={pattern.id} className="rounded border p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <Signal className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm font-medium truncate" title={pattern.fileName}>
+                  {pattern.make ? `${pattern.make} ` : ''}{pattern.name}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 flex-shrink-0"
+                onClick={() => removePattern(pattern.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1 flex-wrap">
+              <Badge variant="secondary" className="text-xs">{pattern.gainDbi.toFixed(1)} dBi</Badge>
+              {pattern.frequencyMHz !== null && (
+                <Badge variant="secondary" className="text-xs">{pattern.frequencyMHz} MHz</Badge>
+              )}
+              {pattern.electricalTilt !== 0 && (
+                <Badge variant="secondary" className="text-xs">tilt {pattern.electricalTilt}°</Badge>
+              )}
+              <Badge variant="outline" className="text-xs uppercase">{pattern.source}</Badge>
+            </div>
+          </div>
+        ))}
+
+        {catalogue.patterns.length > 0 && antennaKeys.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">Antenna type links</p>
+            <ScrollArea className="h-64 pr-3">
+              <div className="space-y-1.5">
+                {antennaKeys.map(([key, count]) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xs font-medium truncate">{key}</p>
+                      <p className="text-[10px] text-muted-foreground">{count} sites</p>
+                    </div>
+                    <Select
+                      value={catalogue.links[key] ?? UNLINKED}
+                      onValueChange={(value) => linkAntenna(key, value === UNLINKED ? null : value)}
+                    >
+                      <SelectTrigger className="h-7 w-40 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNLINKED} className="text-xs">Generic pattern</SelectItem>
+                        {catalogue.patterns.map((pattern) => (
+                          <SelectItem key={pattern.id} value={pattern.id} className="text-xs">
+                            {pattern.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
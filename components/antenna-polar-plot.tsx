@@ -0,0 +1,69 @@
+"use client"
+
+interface AntennaPolarPlotProps {
+  values: number[] // attenuation (dB) per degree, 360 values
+  orientation: "horizontal" | "vertical" // true bearings from north, or depression below the horizon
+  beams?: number[] // main beam bearings to mark on a horizontal plot
+  label: string
+  size?: number
+}
+
+const RANGE_DB = 40
+const RING_STEP_DB = 10
+
+/**
+ * Polar plot of an antenna pattern, relative field on a 40 dB log scale
+ */
+export default function AntennaPolarPlot({ values, orientation, beams = [], label, size = 180 }: AntennaPolarPlotProps) {
+  const center = size / 2
+  const radius = size / 2 - 14
+
+  // Horizontal plots run clockwise from north; vertical plots start at the horizon on the right and run downwards
+  const toPoint = (angle: number, r: number): [number, number] => {
+    const rad = (angle * Math.PI) / 180
+    return orientation === "horizontal"
+      ? [center + r * Math.sin(rad), center - r * Math.cos(rad)]
+      : [center + r * Math.cos(rad), center + r * Math.sin(rad)]
+  }
+  const radiusFor = (loss: number) => radius * (1 - Math.min(RANGE_DB, Math.max(0, loss)) / RANGE_DB)
+
+  const path = values
+    .map((loss, angle) => {
+      const [x, y] = toPoint(angle, radiusFor(loss))
+      return `${angle === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(" ") + " Z"
+
+  const rings = Array.from({ length: RANGE_DB / RING_STEP_DB }, (_, i) => i * RING_STEP_DB)
+  const axisLabels = orientation === "horizontal"
+    ? [{ angle: 0, text: "N" }, { angle: 90, text: "E" }, { angle: 180, text: "S" }, { angle: 270, text: "W" }]
+    : [{ angle: 0, text: "0°" }, { angle: 90, text: "-90°" }, { angle: 180, text: "" }, { angle: 270, text: "+90°" }]
+
+  return (
+    <div className="flex flex-col items-center">
+      <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="text-gray-400">
+        {rings.map((db) => (
+          <circle key={db} cx={center} cy={center} r={radiusFor(db)} fill="none" stroke="currentColor" strokeWidth={0.5} strokeDasharray={db === 0 ? undefined : "2 2"} />
+        ))}
+        {axisLabels.map(({ angle, text }) => {
+          const [x, y] = toPoint(angle, radius)
+          const [lx, ly] = toPoint(angle, radius + 8)
+          return (
+            <g key={angle}>
+              <line x1={center} y1={center} x2={x} y2={y} stroke="currentColor" strokeWidth={0.5} />
+              <text x={lx} y={ly} fontSize={8} textAnchor="middle" dominantBaseline="middle" fill="currentColor">
+                {text}
+              </text>
+            </g>
+          )
+        })}
+        {orientation === "horizontal" && beams.map((beam) => {
+          const [x, y] = toPoint(beam, radius)
+          return <line key={beam} x1={center} y1={center} x2={x} y2={y} stroke="#ef4444" strokeWidth={1} strokeDasharray="3 2" />
+        })}
+        <path d={path} fill="rgba(59, 130, 246, 0.15)" stroke="#2563eb" strokeWidth={1.5} />
+      </svg>
+      <p className="text-xs text-gray-600">{label}</p>
+    </div>
+  )
+}
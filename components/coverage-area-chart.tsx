@@ -0,0 +1,60 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { coverageLevels } from "@/data/coveragelevel"
+import { cn } from "@/lib/utils"
+import type { Station } from "@/types/map"
+import type { CoverageAreaStats } from "@/lib/coverage-stats"
+
+interface CoverageAreaChartProps {
+  stations: Station[]
+  stats: Record<string, CoverageAreaStats>
+  className?: string
+}
+
+// One chart series per coverage level, coloured like the map legend
+const chartConfig = coverageLevels.reduce((config, level) => {
+  config[`level${level.value}`] = { label: level.level, color: level.color }
+  return config
+}, {} as ChartConfig)
+
+// Stack from weakest to strongest so level 5 sits at the end of each bar
+const stackOrder = [...coverageLevels].sort((a, b) => a.value - b.value)
+
+export default function CoverageAreaChart({ stations, stats, className }: CoverageAreaChartProps) {
+  const data = stations
+    .filter((station) => stats[station.id])
+    .map((station) => {
+      const row: Record<string, string | number> = { name: station.name }
+      stackOrder.forEach((level) => {
+        row[`level${level.value}`] = Math.round(stats[station.id].levelAreas[level.value] || 0)
+      })
+      return row
+    })
+
+  if (data.length === 0) return null
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className={cn("aspect-auto w-full", className)}
+      style={{ height: Math.max(120, data.length * 36 + 40) }}
+    >
+      <BarChart data={data} layout="vertical" margin={{ left: 0, right: 8 }}>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" tickLine={false} axisLine={false} unit=" km²" />
+        <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={80} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {stackOrder.map((level) => (
+          <Bar
+            key={level.value}
+            dataKey={`level${level.value}`}
+            stackId="area"
+            fill={`var(--color-level${level.value})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,457 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Slider } from "@/components/ui/slider"
+import { Radio, RadioGroup } from "@/components/ui/radio-group"
+import { Separator } from "@/components/ui/separator"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { Layers, Loader2, AlertCircle, X, SearchX, Navigation, Radar, Waves } from "lucide-react"
+import { coverageLevels } from "@/data/coveragelevel"
+import { formatArea } from "@/lib/coverage-stats"
+import type { Station } from "@/types/map"
+import type { CompositeMode } from "@/lib/coverage-composite"
+import type { CoverageGap, GapAnalysisResult } from "@/lib/coverage-gaps"
+import {
+  delayToKm,
+  FFT_SYMBOL_DURATION_US,
+  getGuardIntervalUs,
+  GUARD_INTERVAL_FRACTIONS,
+  SFN_STATUS_COLORS,
+  type FftSize,
+  type GuardIntervalSettings,
+  type SfnNetwork,
+} from "@/lib/sfn"
+
+export interface CompositeLayerSettings {
+  enabled: boolean
+  mode: CompositeMode
+  opacity: number // 0-100
+}
+
+export type GapRegionMode = "viewport" | "stations"
+
+export interface GapFinderSettings {
+  minLevel: number
+  region: GapRegionMode
+}
+
+export interface SfnLayerSettings extends GuardIntervalSettings {
+  enabled: boolean
+  networkKey: string | null
+}
+
+interface CoverageToolsPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  visibleStationCount: number
+  composite: CompositeLayerSettings
+  onCompositeChange: (changes: Partial<CompositeLayerSettings>) => void
+  isCompositeBuilding: boolean
+  compositeError: string | null
+  compositeStationColors: { station: Station; color: string }[]
+  gapSettings: GapFinderSettings
+  onGapSettingsChange: (changes: Partial<GapFinderSettings>) => void
+  onFindGaps: () => void
+  onClearGaps: () => void
+  onSelectGap: (gap: CoverageGap) => void
+  isGapAnalyzing: boolean
+  gapError: string | null
+  gapResult: GapAnalysisResult | null
+  unpredictedSiteCount: number
+  onPredictMissing: () => void
+  predictionProgress: { done: number; total: number } | null
+  predictionError: string | null
+  sfnNetworks: SfnNetwork[]
+  sfnSettings: SfnLayerSettings
+  onSfnSettingsChange: (changes: Partial<SfnLayerSettings>) => void
+  isSfnBuilding: boolean
+  sfnError: string | null
+  sfnAreas: { riskKm2: number; okKm2: number } | null
+}
+
+// Number of gaps listed in the panel
+const MAX_LISTED_GAPS = 10
+
+export default function CoverageToolsPanel({
+  isOpen,
+  onClose,
+  visibleStationCount,
+  composite,
+  onCompositeChange,
+  isCompositeBuilding,
+  compositeError,
+  compositeStationColors,
+  gapSettings,
+  onGapSettingsChange,
+  onFindGaps,
+  onClearGaps,
+  onSelectGap,
+  isGapAnalyzing,
+  gapError,
+  gapResult,
+  unpredictedSiteCount,
+  onPredictMissing,
+  predictionProgress,
+  predictionError,
+  sfnNetworks,
+  sfnSettings,
+  onSfnSettingsChange,
+  isSfnBuilding,
+  sfnError,
+  sfnAreas,
+}: CoverageToolsPanelProps) {
+  const isMobile = useIsMobile()
+
+  if (!isOpen) return null
+
+  const guardIntervalUs = getGuardIntervalUs(sfnSettings)
+
+  return (
+    <div className={`absolute z-[1000] ${
+      isMobile
+        ? 'top-20 left-2 right-2 max-h-[60vh] flex flex-col'
+        : 'top-36 left-4 w-80 max-h-[calc(100%-13rem)] flex flex-col'
+    }`}>
+      <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm flex flex-col min-h-0">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Layers className="h-4 w-4 text-blue-600" />
+              เครื่องมือวิเคราะห์พื้นที่ครอบคลุม
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            วิเคราะห์จากสถานีที่แสดงอยู่ {visibleStationCount} สถานี
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          {/* Best-server composite */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="composite-enabled" className="text-sm font-medium">
+                ภาพรวมสัญญาณดีที่สุด (Best server)
+              </Label>
+              <Switch
+                id="composite-enabled"
+                checked={composite.enabled}
+                onCheckedChange={(enabled) => onCompositeChange({ enabled })}
+                disabled={visibleStationCount === 0}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              รวมภาพพื้นที่ครอบคลุมเป็นชั้นเดียว แต่ละจุดแสดงระดับสูงสุดที่สถานีใดๆ ให้ได้
+            </p>
+
+            {composite.enabled && (
+              <>
+                <RadioGroup
+                  value={composite.mode}
+                  onValueChange={(mode) => onCompositeChange({ mode: mode as CompositeMode })}
+                  className="space-y-1"
+                >
+                  <div className="flex items-center space-x-2">
+                    <Radio value="level" id="composite-mode-level" />
+                    <Label htmlFor="composite-mode-level" className="text-xs">ระดับสัญญาณสูงสุด</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Radio value="station" id="composite-mode-station" />
+                    <Label htmlFor="composite-mode-station" className="text-xs">สถานีที่ให้สัญญาณดีที่สุด</Label>
+                  </div>
+                </RadioGroup>
+
+                <div className="space-y-2">
+                  <div className="text-xs text-muted-foreground">Opacity: {composite.opacity}%</div>
+                  <Slider
+                    value={[composite.opacity]}
+                    onValueChange={([opacity]) => onCompositeChange({ opacity })}
+                    min={10}
+                    max={100}
+                    step={5}
+                  />
+                </div>
+
+                {isCompositeBuilding && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    กำลังสร้างภาพรวม...
+                  </div>
+                )}
+
+                {compositeError && (
+                  <div className="flex items-center gap-2 text-xs text-destructive">
+                    <AlertCircle className="h-3 w-3" />
+                    {compositeError}
+                  </div>
+                )}
+
+                {composite.mode === 'station' && compositeStationColors.length > 0 && (
+                  <div className="space-y-1 max-h-32 overflow-y-auto">
+                    {compositeStationColors.map(({ station, color }) => (
+                      <div key={station.id} className="flex items-center gap-2 text-xs">
+                        <div className="h-3 w-3 rounded-sm flex-shrink-0" style={{ backgroundColor: color }} />
+                        <span className="truncate">{station.name}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Coverage gap finder */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <SearchX className="h-4 w-4 text-red-600" />
+              ค้นหาพื้นที่ไม่มีสัญญาณ (Coverage gaps)
+            </Label>
+
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">ระดับสัญญาณขั้นต่ำ (N)</div>
+              <div className="grid grid-cols-5 gap-1">
+                {[...coverageLevels].sort((a, b) => a.value - b.value).map((level) => (
+                  <button
+                    key={level.value}
+                    type="button"
+                    onClick={() => onGapSettingsChange({ minLevel: level.value })}
+                    className={`h-7 rounded text-xs font-medium border ${
+                      gapSettings.minLevel === level.value ? 'ring-2 ring-offset-1 ring-blue-600' : 'opacity-70'
+                    }`}
+                    style={{ backgroundColor: level.color, color: level.value === 5 ? 'white' : 'black' }}
+                    title={level.description}
+                  >
+                    ≥{level.value}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <RadioGroup
+              value={gapSettings.region}
+              onValueChange={(region) => onGapSettingsChange({ region: region as GapRegionMode })}
+              className="space-y-1"
+            >
+              <div className="flex items-center space-x-2">
+                <Radio value="viewport" id="gap-region-viewport" />
+                <Label htmlFor="gap-region-viewport" className="text-xs">มุมมองแผนที่ปัจจุบัน</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Radio value="stations" id="gap-region-stations" />
+                <Label htmlFor="gap-region-stations" className="text-xs">ขอบเขตสถานีที่แสดง</Label>
+              </div>
+            </RadioGroup>
+
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={onFindGaps} disabled={isGapAnalyzing}>
+                {isGapAnalyzing ? (
+                  <>
+                    <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                    กำลังวิเคราะห์...
+                  </>
+                ) : (
+                  'ค้นหาช่องว่าง'
+                )}
+              </Button>
+              {gapResult && (
+                <Button size="sm" variant="outline" onClick={onClearGaps}>
+                  ล้าง
+                </Button>
+              )}
+            </div>
+
+            {gapError && (
+              <div className="flex items-center gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                {gapError}
+              </div>
+            )}
+
+            {gapResult && (
+              <div className="space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  ต่ำกว่าระดับ {gapResult.minLevel}: {formatArea(gapResult.gapKm2)} จาก {formatArea(gapResult.regionKm2)}
+                  {' '}({((gapResult.gapKm2 / gapResult.regionKm2) * 100).toFixed(1)}%)
+                </div>
+                <div className="space-y-1">
+                  {gapResult.gaps.slice(0, MAX_LISTED_GAPS).map((gap, index) => (
+                    <button
+                      key={gap.id}
+                      type="button"
+                      onClick={() => onSelectGap(gap)}
+                      className="w-full flex items-center justify-between gap-2 p-2 rounded border text-left text-xs hover:bg-muted/50"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium">#{index + 1} · {formatArea(gap.areaKm2)}</div>
+                        <div className="font-mono text-muted-foreground">
+                          {gap.centroid.latitude.toFixed(4)}, {gap.centroid.longitude.toFixed(4)}
+                        </div>
+                      </div>
+                      <Navigation className="h-3 w-3 text-blue-600 flex-shrink-0" />
+                    </button>
+                  ))}
+                  {gapResult.gaps.length === 0 && (
+                    <p className="text-xs text-green-700">ไม่พบช่องว่างในพื้นที่ที่เลือก</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Predicted coverage for sites without an image */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium flex items-center gap-2">
+              <Radar className="h-4 w-4 text-purple-600" />
+              คาดการณ์พื้นที่ครอบคลุม (Prediction)
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              คำนวณจากข้อมูลเทคนิคของสถานีที่ยังไม่มีภาพพื้นที่ครอบคลุม ใช้ความสูงภูมิประเทศเมื่อมีไฟล์ DEM
+            </p>
+
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={onPredictMissing}
+              disabled={unpredictedSiteCount === 0 || predictionProgress !== null}
+            >
+              {predictionProgress ? (
+                <>
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  กำลังคาดการณ์ {predictionProgress.done}/{predictionProgress.total}
+                </>
+              ) : (
+                `คาดการณ์สถานีที่ไม่มีภาพ (${unpredictedSiteCount})`
+              )}
+            </Button>
+
+            {predictionError && (
+              <div className="flex items-center gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                {predictionError}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* SFN self-interference */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="sfn-enabled" className="text-sm font-medium flex items-center gap-2">
+                <Waves className="h-4 w-4 text-cyan-600" />
+                การรบกวนใน SFN (Guard interval)
+              </Label>
+              <Switch
+                id="sfn-enabled"
+                checked={sfnSettings.enabled}
+                onCheckedChange={(enabled) => onSfnSettingsChange({ enabled })}
+                disabled={sfnNetworks.length === 0}
+              />
+            </div>
+
+            {sfnNetworks.length === 0 ? (
+              <p className="text-xs text-muted-foreground">
+                ยังไม่มีความถี่ในข้อมูลเทคนิค เพิ่มคอลัมน์ Channel, Frequency (MHz) และ SFN Group ใน technical_data.csv
+              </p>
+            ) : (
+              <>
+                <div className="space-y-1 max-h-32 overflow-y-auto">
+                  {sfnNetworks.map((network) => (
+                    <button
+                      key={network.key}
+                      type="button"
+                      onClick={() => onSfnSettingsChange({ networkKey: network.key })}
+                      className={`w-full flex items-center justify-between gap-2 px-2 py-1 rounded border text-left text-xs ${
+                        sfnSettings.networkKey === network.key ? 'border-cyan-600 bg-cyan-50' : 'hover:bg-muted/50'
+                      }`}
+                    >
+                      <span className="font-medium">
+                        {network.frequencyMHz} MHz{network.channel !== null && ` · ช่อง ${network.channel}`}
+                      </span>
+                      <span className="text-muted-foreground truncate">
+                        {network.sites.length} สถานี{network.groups.some(Boolean) && ` · ${network.groups.filter(Boolean).join(', ')}`}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="text-xs text-muted-foreground">FFT</div>
+                  <div className="grid grid-cols-6 gap-1">
+                    {(Object.keys(FFT_SYMBOL_DURATION_US) as FftSize[]).map((fftSize) => (
+                      <Button
+                        key={fftSize}
+                        variant={sfnSettings.fftSize === fftSize ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-7 px-0 text-xs"
+                        onClick={() => onSfnSettingsChange({ fftSize })}
+                      >
+                        {fftSize}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Guard interval</div>
+                  <div className="grid grid-cols-4 gap-1">
+                    {GUARD_INTERVAL_FRACTIONS.map((fraction) => (
+                      <Button
+                        key={fraction}
+                        variant={sfnSettings.fraction === fraction ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-7 px-0 text-xs"
+                        onClick={() => onSfnSettingsChange({ fraction })}
+                      >
+                        {fraction}
+                      </Button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    ช่วงป้องกัน {guardIntervalUs.toFixed(0)} µs ≈ ระยะต่างกัน {delayToKm(guardIntervalUs).toFixed(1)} km
+                  </p>
+                </div>
+
+                {isSfnBuilding && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    กำลังคำนวณเวลามาถึงของสัญญาณ...
+                  </div>
+                )}
+
+                {sfnError && (
+                  <div className="flex items-center gap-2 text-xs text-destructive">
+                    <AlertCircle className="h-3 w-3" />
+                    {sfnError}
+                  </div>
+                )}
+
+                {sfnSettings.enabled && sfnAreas && !isSfnBuilding && (
+                  <div className="space-y-1 text-xs">
+                    <div className="flex items-center gap-2">
+                      <div className="h-3 w-3 rounded-sm" style={{ backgroundColor: SFN_STATUS_COLORS.risk }} />
+                      <span className="flex-1">เสี่ยงรบกวนตัวเอง</span>
+                      <span className="text-muted-foreground">{formatArea(sfnAreas.riskKm2)}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <div className="h-3 w-3 rounded-sm" style={{ backgroundColor: SFN_STATUS_COLORS.ok }} />
+                      <span className="flex-1">หลายสถานีภายในช่วงป้องกัน</span>
+                      <span className="text-muted-foreground">{formatArea(sfnAreas.okKm2)}</span>
+                    </div>
+                    <p className="text-muted-foreground">เปิด &quot;ตรวจสัญญาณ&quot; แล้วคลิกแผนที่เพื่อดูเวลามาถึงของแต่ละสถานี</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
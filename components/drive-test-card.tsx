@@ -0,0 +1,252 @@
+"use client"
+
+import { Fragment, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Upload, AlertCircle, Trash2, Route, BarChart3, ChevronDown, ChevronRight } from "lucide-react"
+import { compareDriveTest, importDriveTestFile, type DriveTestRun, type StationComparison } from "@/lib/drive-test"
+import { coverageLevels } from "@/data/coveragelevel"
+import type { Station } from "@/types/map"
+
+interface DriveTestCardProps {
+  runs: DriveTestRun[]
+  stations: Station[]
+  onImport: (run: DriveTestRun) => void
+  onRemove: (runId: string) => void
+}
+
+// Levels 1-5 left to right, as measured; predicted rows add "no coverage"
+const MATRIX_LEVELS = [...coverageLevels].sort((a, b) => a.value - b.value)
+
+function formatDb(value: number | null): string {
+  if (value === null) return "-"
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)} dB`
+}
+
+function ConfusionMatrix({ comparison }: { comparison: StationComparison }) {
+  const rows = [0, ...MATRIX_LEVELS.map((level) => level.value)]
+  return (
+    <table className="w-full text-[11px] text-center border-collapse">
+      <thead>
+        <tr>
+          <th className="text-left font-normal text-muted-foreground p-1">คาดการณ์ \ วัดจริง</th>
+          {MATRIX_LEVELS.map((level) => (
+            <th key={level.value} className="p-1 font-medium">
+              <span className="inline-block w-2 h-2 rounded-sm mr-0.5 align-middle" style={{ backgroundColor: level.color }} />
+              {level.value}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((predicted) => (
+          <tr key={predicted} className="border-t">
+            <td className="text-left p-1 text-muted-foreground">{predicted === 0 ? "ไม่มี" : `ระดับ ${predicted}`}</td>
+            {MATRIX_LEVELS.map((measured) => {
+              const count = comparison.matrix[predicted][measured.value]
+              return (
+                <td
+                  key={measured.value}
+                  className={`p-1 tabular-nums ${predicted === measured.value ? "bg-green-50 font-semibold" : ""} ${count === 0 ? "text-muted-foreground/50" : ""}`}
+                >
+                  {count}
+                </td>
+              )
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function DriveTestCard({ runs, stations, onImport, onRemove }: DriveTestCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [comparingRunId, setComparingRunId] = useState<string | null>(null)
+  const [results, setResults] = useState<{ runId: string; comparisons: StationComparison[] } | null>(null)
+  const [expandedStationId, setExpandedStationId] = useState<string | null>(null)
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsImporting(true)
+    setError(null)
+
+    for (const file of Array.from(files)) {
+      try {
+        const run = await importDriveTestFile(file)
+        if (run.points.length === 0) {
+          setError(`${file.name}: no measurements with a position and level found`)
+          continue
+        }
+        onImport(run)
+      } catch (err) {
+        console.error('Drive-test import failed:', err)
+        setError(`${file.name}: ${err instanceof Error ? err.message : 'import failed'}`)
+      }
+    }
+
+    setIsImporting(false)
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  const handleCompare = async (run: DriveTestRun) => {
+    setComparingRunId(run.id)
+    setError(null)
+    try {
+      const comparisons = await compareDriveTest(run.points, stations)
+      setResults({ runId: run.id, comparisons })
+      setExpandedStationId(null)
+    } catch (err) {
+      console.error('Drive-test comparison failed:', err)
+      setError(`${run.fileName}: ${err instanceof Error ? err.message : 'comparison failed'}`)
+    } finally {
+      setComparingRunId(null)
+    }
+  }
+
+  const handleRemove = (runId: string) => {
+    if (results?.runId === runId) setResults(null)
+    onRemove(runId)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Drive Test</CardTitle>
+        <CardDescription>
+          Import measured levels and compare them with the coverage images
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.txt,.gpx,text/csv,application/gpx+xml"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose CSV/GPX file
+            </>
+          )}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          CSV: lat, lng, dBm หรือ dBµV/m และเวลา (ถ้ามี) · GPX: ระดับสัญญาณใน &lt;extensions&gt;
+        </p>
+
+        {error && (
+          <div className="text-sm text-destructive inline-flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {runs.map((run) => (
+          <div key={run.id} className="rounded border p-2 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <Route className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm font-medium truncate" title={run.fileName}>{run.name}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 flex-shrink-0"
+                onClick={() => handleRemove(run.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1 flex-wrap">
+              <Badge variant="secondary" className="text-xs">{run.points.length} points</Badge>
+              <Badge variant="secondary" className="text-xs">{run.unit === "dbuvm" ? "dBµV/m" : "dBm"}</Badge>
+              {run.skippedRows > 0 && (
+                <Badge variant="outline" className="text-xs text-amber-700">{run.skippedRows} skipped</Badge>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full h-7 text-xs"
+              onClick={() => handleCompare(run)}
+              disabled={comparingRunId !== null}
+            >
+              {comparingRunId === run.id ? (
+                <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+              ) : (
+                <BarChart3 className="mr-1.5 h-3 w-3" />
+              )}
+              เปรียบเทียบกับภาพครอบคลุม
+            </Button>
+
+            {results?.runId === run.id && (
+              results.comparisons.length === 0 ? (
+                <p className="text-xs text-muted-foreground">ไม่มีภาพครอบคลุมของสถานีใดครอบจุดที่วัด</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-normal py-1">สถานี</th>
+                      <th className="text-right font-normal py-1">จุด</th>
+                      <th className="text-right font-normal py-1" title="วัดจริงลบช่วงระดับที่คาดการณ์">ค่าเฉลี่ย</th>
+                      <th className="text-right font-normal py-1">SD</th>
+                      <th className="text-right font-normal py-1">ตรงกัน</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.comparisons.map((comparison) => {
+                      const isExpanded = expandedStationId === comparison.station.id
+                      return (
+                        <Fragment key={comparison.station.id}>
+                          <tr
+                            className="border-t cursor-pointer hover:bg-muted/50"
+                            onClick={() => setExpandedStationId(isExpanded ? null : comparison.station.id)}
+                          >
+                            <td className="py-1 pr-1 max-w-0 w-full">
+                              <div className="flex items-center gap-1 min-w-0">
+                                {isExpanded ? <ChevronDown className="h-3 w-3 flex-shrink-0" /> : <ChevronRight className="h-3 w-3 flex-shrink-0" />}
+                                <span className="truncate" title={comparison.station.name}>{comparison.station.name}</span>
+                              </div>
+                            </td>
+                            <td className="py-1 text-right tabular-nums" title={`${comparison.comparedCount} จุดอยู่ในพื้นที่ครอบคลุม`}>{comparison.count}</td>
+                            <td className="py-1 pl-2 text-right tabular-nums whitespace-nowrap">{formatDb(comparison.meanErrorDb)}</td>
+                            <td className="py-1 pl-2 text-right tabular-nums whitespace-nowrap">{comparison.stdDevDb === null ? "-" : comparison.stdDevDb.toFixed(1)}</td>
+                            <td className="py-1 pl-2 text-right tabular-nums">{Math.round(comparison.agreement * 100)}%</td>
+                          </tr>
+                          {isExpanded && (
+                            <tr>
+                              <td colSpan={5} className="pb-2">
+                                <ConfusionMatrix comparison={comparison} />
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              )
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
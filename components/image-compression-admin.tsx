@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useRef } from "react"
+import { useState, useRef, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -12,8 +12,14 @@ import {
   compressImage, 
   DEFAULT_COMPRESSION_OPTIONS, 
   HIGH_QUALITY_COMPRESSION_OPTIONS,
+  PALETTE_SAFE_COMPRESSION_OPTIONS,
+  measureLevelFidelity,
   getCompressionCacheStats,
-  clearCompressedImageCache
+  clearCompressedImageCache,
+  getPersistentCompressionCacheStats,
+  clearPersistentCompressionCache,
+  type CompressionOptions,
+  type LevelFidelity
 } from "@/lib/image-compression"
 
 interface CompressedImageResult {
@@ -23,15 +29,25 @@ interface CompressedImageResult {
   compressedSize: number
   compressionRatio: number
   previewUrl: string
+  fidelity: LevelFidelity | null // null when the images could not be decoded for comparison
 }
 
+type CompressionMode = 'standard' | 'high-quality' | 'palette-safe'
+
+const COMPRESSION_MODES: { value: CompressionMode; label: string; description: string; options: CompressionOptions }[] = [
+  { value: 'standard', label: 'Standard', description: 'Lossy WebP, smallest files', options: DEFAULT_COMPRESSION_OPTIONS },
+  { value: 'high-quality', label: 'High Quality', description: 'Lossy WebP, larger file size', options: HIGH_QUALITY_COMPRESSION_OPTIONS },
+  { value: 'palette-safe', label: 'Palette-safe', description: 'Indexed PNG snapped to the coverage legend', options: PALETTE_SAFE_COMPRESSION_OPTIONS },
+]
+
 export default function ImageCompressionAdmin() {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
   const [compressedResults, setCompressedResults] = useState<CompressedImageResult[]>([])
   const [isCompressing, setIsCompressing] = useState(false)
   const [compressionProgress, setCompressionProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
-  const [useHighQuality, setUseHighQuality] = useState(false)
+  const [mode, setMode] = useState<CompressionMode>('standard')
+  const [persistentCacheSize, setPersistentCacheSize] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -58,7 +74,7 @@ export default function ImageCompressionAdmin() {
     setCompressionProgress(0)
 
     const results: CompressedImageResult[] = []
-    const options = useHighQuality ? HIGH_QUALITY_COMPRESSION_OPTIONS : DEFAULT_COMPRESSION_OPTIONS
+    const { options } = COMPRESSION_MODES.find(entry => entry.value === mode)!
 
     try {
       for (let i = 0; i < selectedFiles.length; i++) {
@@ -67,6 +83,10 @@ export default function ImageCompressionAdmin() {
         try {
           const compressedFile = await compressImage(file, options)
           const previewUrl = URL.createObjectURL(compressedFile)
+          const fidelity = await measureLevelFidelity(file, compressedFile).catch((fidelityError) => {
+            console.warn(`Could not compare coverage levels for ${file.name}:`, fidelityError)
+            return null
+          })
           
           const result: CompressedImageResult = {
             originalFile: file,
@@ -74,7 +94,8 @@ export default function ImageCompressionAdmin() {
             originalSize: file.size,
             compressedSize: compressedFile.size,
             compressionRatio: ((file.size - compressedFile.size) / file.size) * 100,
-            previewUrl
+            previewUrl,
+            fidelity
           }
           
           results.push(result)
@@ -98,7 +119,7 @@ export default function ImageCompressionAdmin() {
   const downloadCompressedImage = (result: CompressedImageResult) => {
     const link = document.createElement('a')
     link.href = result.previewUrl
-    link.download = `compressed_${result.originalFile.name}`
+    link.download = `compressed_${result.compressedFile.name}`
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
@@ -123,9 +144,28 @@ export default function ImageCompressionAdmin() {
     }
   }
 
-  const clearCache = () => {
+  const refreshPersistentStats = useCallback(async () => {
+    try {
+      setPersistentCacheSize((await getPersistentCompressionCacheStats()).cacheSize)
+    } catch (err) {
+      console.warn('Failed to read the persistent cache:', err)
+      setPersistentCacheSize(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    refreshPersistentStats()
+  }, [refreshPersistentStats])
+
+  const clearCache = async () => {
     clearCompressedImageCache()
     setError(null)
+    try {
+      await clearPersistentCompressionCache()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear the persistent cache')
+    }
+    refreshPersistentStats()
   }
 
   const cacheStats = getCompressionCacheStats()
@@ -163,16 +203,26 @@ export default function ImageCompressionAdmin() {
           </div>
 
           {/* Compression Options */}
-          <div className="flex items-center gap-4">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={useHighQuality}
-                onChange={(e) => setUseHighQuality(e.target.checked)}
-                className="rounded"
-              />
-              <span className="text-sm">High Quality Mode (larger file size)</span>
-            </label>
+          <div className="space-y-2">
+            <Label>Compression Mode</Label>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {COMPRESSION_MODES.map(entry => (
+                <button
+                  key={entry.value}
+                  type="button"
+                  onClick={() => setMode(entry.value)}
+                  className={`rounded-lg border p-3 text-left ${
+                    mode === entry.value ? 'border-primary ring-1 ring-primary' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  <span className="block text-sm font-medium">{entry.label}</span>
+                  <span className="block text-xs text-muted-foreground">{entry.description}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Lossy WebP shifts legend colours, which can change the signal level decoded from a pixel. Use palette-safe mode for coverage overlays.
+            </p>
           </div>
 
           {/* Compression Controls */}
@@ -258,9 +308,21 @@ export default function ImageCompressionAdmin() {
                     <p className="text-muted-foreground">
                       Compressed: {(result.compressedSize / 1024 / 1024).toFixed(2)} MB
                     </p>
-                    <p className="text-green-600 font-medium">
-                      Saved: {result.compressionRatio.toFixed(1)}%
-                    </p>
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-green-600 font-medium">
+                        Saved: {result.compressionRatio.toFixed(1)}%
+                      </span>
+                      {result.fidelity ? (
+                        <span
+                          className={`font-medium ${result.fidelity.changedPixels === 0 ? 'text-green-600' : 'text-amber-600'}`}
+                          title={`${result.fidelity.changedPixels.toLocaleString()} of ${result.fidelity.comparedPixels.toLocaleString()} coverage pixels decode to a different level`}
+                        >
+                          Levels changed: {result.fidelity.changedPercent.toFixed(2)}%
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">Levels: n/a</span>
+                      )}
+                    </div>
                   </div>
                   
                   <Button
@@ -283,13 +345,14 @@ export default function ImageCompressionAdmin() {
         <CardHeader>
           <CardTitle>Cache Management</CardTitle>
           <CardDescription>
-            Manage the image compression cache
+            Manage the image compression cache, including images kept across visits
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex items-center justify-between">
             <div className="text-sm text-muted-foreground">
-              {cacheStats.cacheSize}
+              <div>{cacheStats.cacheSize}</div>
+              {persistentCacheSize && <div>{persistentCacheSize} across visits</div>}
             </div>
             <Button onClick={clearCache} variant="outline" size="sm">
               Clear Cache
@@ -0,0 +1,123 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Upload, AlertCircle, Trash2, FileArchive } from "lucide-react"
+import { importKmlFile, type KmlImportResult } from "@/lib/kml-import"
+import { isGeoTiffUrl } from "@/lib/geotiff-url"
+
+interface KmlImportCardProps {
+  importedLayers: KmlImportResult[]
+  onImport: (result: KmlImportResult) => void
+  onRemove: (importId: string) => void
+}
+
+export default function KmlImportCard({ importedLayers, onImport, onRemove }: KmlImportCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return
+    setIsImporting(true)
+    setError(null)
+
+    for (const file of Array.from(files)) {
+      try {
+        // The GeoTIFF reader is large, so it is only loaded for .tif files
+        const result = isGeoTiffUrl(file.name)
+          ? await (await import("@/lib/geotiff-overlay")).importGeoTiffFile(file)
+          : await importKmlFile(file)
+        if (result.stations.length === 0 && result.features.length === 0) {
+          setError(`${file.name}: no ground overlays or placemarks found`)
+          continue
+        }
+        onImport(result)
+      } catch (err) {
+        console.error('Overlay import failed:', err)
+        setError(`${file.name}: ${err instanceof Error ? err.message : 'import failed'}`)
+      }
+    }
+
+    setIsImporting(false)
+    if (inputRef.current) inputRef.current.value = ''
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">KML / KMZ / GeoTIFF Import</CardTitle>
+        <CardDescription>
+          Add ground overlays and GeoTIFF rasters as stations and placemarks as map features
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".kml,.kmz,.tif,.tiff,application/vnd.google-earth.kml+xml,application/vnd.google-earth.kmz,image/tiff"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Choose KML/KMZ/GeoTIFF file
+            </>
+          )}
+        </Button>
+
+        {error && (
+          <div className="text-sm text-destructive inline-flex items-center">
+            <AlertCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {importedLayers.map((layer) => (
+          <div key={layer.id} className="rounded border p-2 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <FileArchive className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-sm font-medium truncate" title={layer.fileName}>{layer.name}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 flex-shrink-0"
+                onClick={() => onRemove(layer.id)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+            <div className="flex gap-1 flex-wrap">
+              <Badge variant="secondary" className="text-xs">{layer.stations.length} overlays</Badge>
+              <Badge variant="secondary" className="text-xs">{layer.features.length} features</Badge>
+            </div>
+            {layer.warnings.length > 0 && (
+              <ul className="text-xs text-amber-700 list-disc pl-4">
+                {layer.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Download, Loader2, AlertCircle } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { downloadKmz } from "@/lib/kmz-export"
+import type { Station, TechnicalData } from "@/types/map"
+
+interface KmzExportButtonProps {
+  documentName: string
+  fileName: string
+  stations?: Station[]
+  technicalSites?: TechnicalData[]
+  className?: string
+}
+
+export default function KmzExportButton({
+  documentName,
+  fileName,
+  stations = [],
+  technicalSites = [],
+  className,
+}: KmzExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const itemCount = stations.length + technicalSites.length
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    setMessage(null)
+    try {
+      const warnings = await downloadKmz({ name: documentName, stations, technicalSites }, fileName)
+      if (warnings.length > 0) {
+        setMessage(`ฝังภาพไม่ได้ ${warnings.length} ภาพ (ใช้ลิงก์แทน)`)
+      }
+    } catch (error) {
+      console.error('KMZ export failed:', error)
+      setMessage('ไม่สามารถสร้างไฟล์ KMZ ได้')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={handleExport}
+        disabled={isExporting || itemCount === 0}
+        className="w-full h-7 text-xs"
+      >
+        {isExporting ? (
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+        ) : (
+          <Download className="h-3 w-3 mr-1" />
+        )}
+        ส่งออก KMZ ({itemCount})
+      </Button>
+      {message && (
+        <div className="flex items-center gap-1 text-xs text-amber-700">
+          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,15 @@
 "use client"
 
 import { useEffect, useRef, useState, useCallback, useMemo, memo } from "react"
-import type { Station, TechnicalData } from "@/types/map"
+import type { LeafletMouseEvent } from "leaflet"
+import type { Station, TechnicalData, KMZData } from "@/types/map"
 import { technicalData, getTechnicalData } from "@/data/technical"
 import TechnicalModal from "@/components/technical-modal" // Assuming TechnicalModal is defined elsewhere
 import CoverageLegend from "@/components/coverage-legend"
 import LocationAnalysis from "@/components/location-analysis"
 import ImageOverlayLoadingDialog from "@/components/image-overlay-loading-dialog"
 import { Button } from "@/components/ui/button"
-import { MapPin, Loader2, Satellite, Maximize2 } from "lucide-react"
+import { MapPin, Loader2, Satellite, Maximize2, Crosshair, Layers, RadioTower, Route } from "lucide-react"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useIsMobile } from "@/hooks/use-mobile"
 import { 
@@ -24,6 +25,47 @@ import {
   clearCompressedImageCache,
   getCompressionCacheStats 
 } from "@/lib/image-compression"
+import { warpImageOverlay } from "@/lib/mercator-warp"
+import { getStationTileUrl, loadTileManifest } from "@/lib/coverage-tiles"
+import { sampleCoverageAt, formatLevelBand, getCoverageLevel, type CoverageSample } from "@/lib/coverage-raster"
+import { buildCompositeCoverage, getUnionBounds } from "@/lib/coverage-composite"
+import type { BBox } from "@/lib/data-query"
+import { getStationContours, type LevelContourProperties } from "@/lib/coverage-contours"
+import { analyzeLineOfSight, LINE_OF_SIGHT_COLORS, type LineOfSightResult } from "@/lib/terrain-profile"
+import { LINE_OF_SIGHT } from "@/constants/terrain"
+import { getBasemapLayer } from "@/lib/offline-cache"
+import { buildSfnRiskLayer, getPredictedStationId, hasCoverageImage, predictSiteCoverage } from "@/lib/coverage-prediction"
+import { getAntennaPattern } from "@/lib/propagation"
+import { findSitePattern, loadAntennaCatalogue } from "@/lib/antenna-catalogue"
+import {
+  analyzeSfnPoint,
+  getGuardIntervalUs,
+  getSfnNetworks,
+  getSfnSites,
+  SFN_STATUS_COLORS,
+  SFN_STATUS_LABELS,
+  type FftSize,
+  type SfnNetwork,
+  type SfnPointAnalysis
+} from "@/lib/sfn"
+import { SFN_GUARD_INTERVAL } from "@/constants/sfn"
+import type { DriveTestPoint, DriveTestRun } from "@/lib/drive-test"
+import { findCoverageGaps, type CoverageGap, type GapAnalysisResult } from "@/lib/coverage-gaps"
+import CoverageToolsPanel, { type CompositeLayerSettings, type GapFinderSettings, type SfnLayerSettings } from "@/components/coverage-tools-panel"
+import PlanningPanel from "@/components/planning-panel"
+import RouteProfilePanel from "@/components/route-profile-panel"
+import { analyzeRouteCoverage, createRouteTrack, type RouteGap, type RouteProfile, type RouteTrack } from "@/lib/route-coverage"
+import { ROUTE_PROFILE } from "@/constants/route"
+import { escapeHtml } from "@/lib/utils"
+import { usePlanningScenarios } from "@/hooks/use-planning-scenarios"
+import {
+  analyzeScenario,
+  createScenario,
+  createTransmitter,
+  type PlannedTransmitter,
+  type PlanningScenario,
+  type ScenarioAnalysis
+} from "@/lib/planning"
 import { StationManager } from "./StationManager"
 import { PerformanceMonitor } from "./PerformanceMonitor"
 import PerformanceSettings from "./PerformanceSettings"
@@ -32,12 +74,20 @@ import { getRecommendedSettings } from "@/utils/deviceDetection"
 interface LeafletMapProps {
   stations: Station[]
   technicalData?: TechnicalData[]
+  allTechnicalData?: TechnicalData[] // every site, for analysis that reaches beyond the viewport
+  onLoadAllTechnical?: () => Promise<TechnicalData[]> // loads allTechnicalData when that analysis starts
   isDataLoading?: boolean
   onTechnicalPointSelect?: (data: TechnicalData) => void
   shouldFitBounds?: boolean // New prop to control when to fit bounds
+  onStationVisibilityChange?: (stationId: string, visible: boolean) => void
+  contourStationIds?: string[]
+  importedFeatures?: KMZData[]
+  driveTestRuns?: DriveTestRun[]
+  onViewportChange?: (bbox: BBox) => void
+  onAddStations?: (stations: Station[]) => void
 }
 
-export default function LeafletMap({ stations, technicalData: propTechnicalData, isDataLoading, onTechnicalPointSelect, shouldFitBounds = false }: LeafletMapProps) {
+export default function LeafletMap({ stations, technicalData: propTechnicalData, allTechnicalData, onLoadAllTechnical, isDataLoading, onTechnicalPointSelect, shouldFitBounds = false, onStationVisibilityChange, contourStationIds = [], importedFeatures = [], driveTestRuns = [], onViewportChange, onAddStations }: LeafletMapProps) {
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<any>(null)
   const stationManagerRef = useRef<StationManager | null>(null)
@@ -70,6 +120,12 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
   const [technicalModalOpen, setTechnicalModalOpen] = useState(false)
   const [currentTechnicalData, setCurrentTechnicalData] = useState<TechnicalData[]>([])
   const [technicalDataLoading, setTechnicalDataLoading] = useState(true)
+  // Every site for lookups beyond the viewport (nearest sites, SFN analysis) once onLoadAllTechnical
+  // has been called; the viewport's sites until then
+  const allSites = useMemo(
+    () => (allTechnicalData && allTechnicalData.length > 0 ? allTechnicalData : currentTechnicalData),
+    [allTechnicalData, currentTechnicalData]
+  )
   const [locationLoading, setLocationLoading] = useState(false)
   const [locationError, setLocationError] = useState<string | null>(null)
   const [hasInitializedView, setHasInitializedView] = useState(false)
@@ -78,14 +134,93 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
   const [userLocation, setUserLocation] = useState<Coordinates | null>(null)
   const [showLocationAnalysis, setShowLocationAnalysis] = useState(false)
   const [nearestStations, setNearestStations] = useState<StationDistance[]>([])
+  const [coverageSamples, setCoverageSamples] = useState<CoverageSample[]>([])
+  const [isCoverageLoading, setIsCoverageLoading] = useState(false)
   
   // Map layer state
   const [currentLayer, setCurrentLayer] = useState<'street' | 'satellite'>('satellite')
   const tileLayerRef = useRef<any>(null)
   const [showLineOfSight, setShowLineOfSight] = useState(false)
   const [lineOfSightRefs, setLineOfSightRefs] = useState<Record<string, any>>({})
+  const [lineOfSightResults, setLineOfSightResults] = useState<Record<string, LineOfSightResult>>({})
+  const [isLineOfSightLoading, setIsLineOfSightLoading] = useState(false)
   const [userMarkerRef, setUserMarkerRef] = useState<any>(null)
   
+  // Coverage inspector state (click anywhere to decode coverage)
+  const [isInspectorActive, setIsInspectorActive] = useState(false)
+  const stationsRef = useRef<Station[]>(stations)
+  const onStationVisibilityChangeRef = useRef(onStationVisibilityChange)
+  stationsRef.current = stations
+  onStationVisibilityChangeRef.current = onStationVisibilityChange
+  const onViewportChangeRef = useRef(onViewportChange)
+  onViewportChangeRef.current = onViewportChange
+  const onAddStationsRef = useRef(onAddStations)
+  onAddStationsRef.current = onAddStations
+  
+  // Coverage analysis tools state
+  const [showCoverageTools, setShowCoverageTools] = useState(false)
+  const [compositeSettings, setCompositeSettings] = useState<CompositeLayerSettings>({
+    enabled: false,
+    mode: 'level',
+    opacity: 60,
+  })
+  const [isCompositeBuilding, setIsCompositeBuilding] = useState(false)
+  const [compositeError, setCompositeError] = useState<string | null>(null)
+  const [compositeStationColors, setCompositeStationColors] = useState<{ station: Station; color: string }[]>([])
+  const compositeLayerRef = useRef<any>(null)
+  // Latest opacity for builds that finish after the slider moved, and the build that owns the busy flag
+  const compositeOpacityRef = useRef(compositeSettings.opacity)
+  compositeOpacityRef.current = compositeSettings.opacity
+  const compositeBuildIdRef = useRef(0)
+  const [gapSettings, setGapSettings] = useState<GapFinderSettings>({
+    minLevel: 3,
+    region: 'viewport',
+  })
+  const [gapResult, setGapResult] = useState<GapAnalysisResult | null>(null)
+  const [isGapAnalyzing, setIsGapAnalyzing] = useState(false)
+  const [gapError, setGapError] = useState<string | null>(null)
+  const gapLayerRef = useRef<any>(null)
+  const contourLayersRef = useRef<Map<string, any>>(new Map())
+  const importedFeaturesLayerRef = useRef<any>(null)
+  const driveTestLayerRef = useRef<any>(null)
+  const shownDriveTestIdsRef = useRef<Set<string>>(new Set())
+  const [predictionProgress, setPredictionProgress] = useState<{ done: number; total: number } | null>(null)
+  const [predictionError, setPredictionError] = useState<string | null>(null)
+  const [sfnSettings, setSfnSettings] = useState<SfnLayerSettings>({
+    enabled: false,
+    networkKey: null,
+    fftSize: SFN_GUARD_INTERVAL.FFT_SIZE as FftSize,
+    fraction: SFN_GUARD_INTERVAL.FRACTION,
+  })
+  const [isSfnBuilding, setIsSfnBuilding] = useState(false)
+  const [sfnError, setSfnError] = useState<string | null>(null)
+  const [sfnAreas, setSfnAreas] = useState<{ riskKm2: number; okKm2: number } | null>(null)
+  const sfnLayerRef = useRef<any>(null)
+  // Network the coverage inspector reports SFN timing for, while the SFN layer is on
+  const sfnInspectRef = useRef<{ network: SfnNetwork; guardIntervalUs: number } | null>(null)
+
+  // What-if planning state
+  const [showPlanning, setShowPlanning] = useState(false)
+  const [planningScenario, setPlanningScenario] = useState<PlanningScenario>(() => createScenario('แผน 1'))
+  const [planningMinLevel, setPlanningMinLevel] = useState(3)
+  const [planningAnalysis, setPlanningAnalysis] = useState<ScenarioAnalysis | null>(null)
+  const [isPlanningAnalyzing, setIsPlanningAnalyzing] = useState(false)
+  const [planningError, setPlanningError] = useState<string | null>(null)
+  const planningLayerRef = useRef<any>(null)
+  const { scenarios: savedScenarios, saveScenario, deleteScenario } = usePlanningScenarios()
+
+  // Route coverage profile state
+  const [showRoutePanel, setShowRoutePanel] = useState(false)
+  const [routeTrack, setRouteTrack] = useState<RouteTrack | null>(null)
+  const [isDrawingRoute, setIsDrawingRoute] = useState(false)
+  const [drawnRoute, setDrawnRoute] = useState<Coordinates[]>([])
+  const [routeStepKm, setRouteStepKm] = useState(ROUTE_PROFILE.STEP_KM)
+  const [routeMinLevel, setRouteMinLevel] = useState(ROUTE_PROFILE.MIN_LEVEL)
+  const [routeProfile, setRouteProfile] = useState<RouteProfile | null>(null)
+  const [isRouteAnalyzing, setIsRouteAnalyzing] = useState(false)
+  const [routeError, setRouteError] = useState<string | null>(null)
+  const routeLayerRef = useRef<any>(null)
+  
   // Mobile detection for responsive design
   const isMobile = useIsMobile()
   // Detect low-end devices (≤4 cores or ≤2 GB RAM)
@@ -148,6 +283,22 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     [stations]
   )
 
+  // Stable key for the visible station set so derived layers only rebuild when it changes
+  const visibleStationKey = useMemo(() => 
+    visibleStations.map(station => `${station.id}:${station.imageUrl}`).join('|'),
+    [visibleStations]
+  )
+
+  // Stations whose level contours are drawn, keyed by image so a new image retraces
+  const contourStations = useMemo(() =>
+    stations.filter(station => contourStationIds.includes(station.id)),
+    [stations, contourStationIds]
+  )
+  const contourStationKey = useMemo(() =>
+    contourStations.map(station => `${station.id}:${station.imageUrl}`).join('|'),
+    [contourStations]
+  )
+
   // Note: mapBounds removed as it's handled by StationManager now
 
   // Use prop technical data if available, otherwise load from CSV
@@ -209,10 +360,8 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
           }).setView([10.5, 100], 6) // Center on Thailand
 
         // Add default tile layer (satellite map)
-        const satelliteLayer = L.tileLayer("https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}", {
-          attribution: '&copy; <a href="https://www.esri.com/">Esri</a>, Maxar, Earthstar Geographics',
-          maxZoom: 18,
-        })
+        const { url: satelliteUrl, ...satelliteOptions } = getBasemapLayer('satellite')
+        const satelliteLayer = L.tileLayer(satelliteUrl, satelliteOptions)
         
         satelliteLayer.addTo(map)
         tileLayerRef.current = satelliteLayer
@@ -240,6 +389,23 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     }
   }, [])
 
+  // Report the visible bbox so data can be loaded for the viewport
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    const reportViewport = () => {
+      const bounds = map.getBounds()
+      onViewportChangeRef.current?.([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()])
+    }
+
+    reportViewport()
+    map.on('moveend', reportViewport)
+    return () => {
+      map.off('moveend', reportViewport)
+    }
+  }, [isMapReady])
+
   // Update StationManager with new station data
   useEffect(() => {
     if (stationManagerRef.current && stations.length > 0) {
@@ -248,10 +414,12 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
       
       // Pre-process stations with compressed images if needed
       const processStations = async () => {
+        // Tiled stations fetch only the tiles in view, so their full images are not compressed here
+        const tileManifest = await loadTileManifest()
         const processedStations = await Promise.all(
           stations.map(async (station) => {
             const stationWithCompression = station as any
-            if (station.imageUrl && !stationWithCompression.compressedImageUrl) {
+            if (station.imageUrl && !stationWithCompression.compressedImageUrl && !getStationTileUrl(tileManifest, station)) {
               try {
                 const compressedUrl = await compressImageFromUrl(station.imageUrl)
                 return { ...station, compressedImageUrl: compressedUrl } as Station
@@ -423,9 +591,19 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
         // Store user location for analysis
         setUserLocation(userCoords)
         
-        // Find nearest stations for analysis - include technical data
-        const nearest = findNearestStations(userCoords, visibleStations, currentTechnicalData, 5)
-        setNearestStations(nearest)
+        // Find nearest stations for analysis from the sites loaded so far, then again from every
+        // technical site once the full list is in
+        const updateNearest = (sites: TechnicalData[]) => setNearestStations(findNearestStations(userCoords, visibleStations, sites, 5))
+        updateNearest(allSites)
+        onLoadAllTechnical?.().then(updateNearest)
+        
+        // Decode the coverage level at this point from every station image that covers it
+        setCoverageSamples([])
+        setIsCoverageLoading(true)
+        sampleCoverageAt(stations, userCoords)
+          .then(setCoverageSamples)
+          .catch((error) => console.error('Failed to sample coverage at user location:', error))
+          .finally(() => setIsCoverageLoading(false))
         
         if (mapInstanceRef.current) {
           // Fly to user's location with zoom level 15
@@ -579,13 +757,11 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
       easeLinearity: 0.25
     })
 
-    // Find and open the popup for this technical point if marker exists
-    const marker = technicalMarkerRefs.current[technicalData.id]
-    if (marker) {
-      setTimeout(() => {
-        marker.openPopup()
-      }, 2600) // Open popup after fly animation completes
-    }
+    // Open the popup for this technical point if its marker exists once the fly animation completes;
+    // sites found outside the loaded area get their marker when the new viewport loads
+    setTimeout(() => {
+      technicalMarkerRefs.current[technicalData.id]?.openPopup()
+    }, 2600)
 
     // Notify parent component about selection
     if (onTechnicalPointSelect) {
@@ -631,8 +807,31 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
         if (line) map.removeLayer(line)
       })
       setLineOfSightRefs({})
+      setLineOfSightResults({})
       setShowLineOfSight(false)
     } else {
+      // Terrain profiles for transmitter sites, using each site's antenna height
+      setIsLineOfSightLoading(true)
+      const results: Record<string, LineOfSightResult> = {}
+      try {
+        await Promise.all(nearestStations.map(async station => {
+          if (station.station.type !== 'technical') return
+          results[station.station.id] = await analyzeLineOfSight(
+            { latitude: userLocation.latitude, longitude: userLocation.longitude, heightAgl: LINE_OF_SIGHT.RECEIVER_HEIGHT_M },
+            {
+              latitude: station.station.latitude,
+              longitude: station.station.longitude,
+              heightAgl: station.station.height || 0,
+              pattern: getAntennaPattern(station.station, findSitePattern(station.station, loadAntennaCatalogue()))
+            }
+          )
+        }))
+      } catch (error) {
+        console.error('Line-of-sight analysis failed:', error)
+      } finally {
+        setIsLineOfSightLoading(false)
+      }
+
       // Add line-of-sight lines to nearest stations
       const newLineRefs: Record<string, any> = {}
       
@@ -650,25 +849,27 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
           stationLng = (station.station.bounds[0][1] + station.station.bounds[1][1]) / 2
         }
         
-        // Create line with gradient color based on distance
+        // Technical sites are coloured by terrain clearance, coverage areas by distance
         const getLineColor = (distance: number) => {
           if (distance < 5) return '#22c55e' // Green - very close
           if (distance < 15) return '#3b82f6' // Blue - close
           if (distance < 30) return '#f59e0b' // Orange - medium
           return '#ef4444' // Red - far
         }
+        const result = results[station.station.id]
+        const lineColor = result ? LINE_OF_SIGHT_COLORS[result.status] : getLineColor(station.distance)
         
         const line = L.polyline([
           [userLocation.latitude, userLocation.longitude],
           [stationLat, stationLng]
         ], {
-          color: getLineColor(station.distance),
+          color: lineColor,
           weight: 3,
           opacity: 0.8,
           dashArray: station.station.type === 'technical' ? '10, 5' : '5, 5',
           interactive: false,
           className: 'line-of-sight-line'
-        }).addTo(map)
+        })
 
         // Add distance and direction label at midpoint
         const midLat = (userLocation.latitude + stationLat) / 2
@@ -678,7 +879,7 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
           icon: L.divIcon({
             className: 'distance-label',
             html: `<div style="
-              background: ${getLineColor(station.distance)};
+              background: ${lineColor};
               color: white;
               padding: 4px 8px;
               border-radius: 12px;
@@ -697,23 +898,25 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
             iconAnchor: [0, 0]
           }),
           interactive: false
-        }).addTo(map)
+        })
 
         // Add station marker enhancement for line-of-sight mode
         const stationMarker = L.circleMarker([stationLat, stationLng], {
           radius: 8,
-          fillColor: getLineColor(station.distance),
+          fillColor: lineColor,
           color: 'white',
           weight: 2,
           opacity: 1,
           fillOpacity: 0.8,
           interactive: false
-        }).addTo(map)
+        })
 
-        newLineRefs[station.station.id] = L.layerGroup([line, distanceLabel, stationMarker])
+        // The group is added as a whole so removing it clears all three layers
+        newLineRefs[station.station.id] = L.layerGroup([line, distanceLabel, stationMarker]).addTo(map)
       })
       
       setLineOfSightRefs(newLineRefs)
+      setLineOfSightResults(results)
       setShowLineOfSight(true)
     }
   }, [showLineOfSight, userLocation, nearestStations, lineOfSightRefs])
@@ -745,6 +948,7 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     setShowLocationAnalysis(false)
     setUserLocation(null)
     setNearestStations([])
+    setCoverageSamples([])
     
     // Remove line-of-sight visualization
     if (showLineOfSight && mapInstanceRef.current) {
@@ -752,6 +956,7 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
         if (line) mapInstanceRef.current.removeLayer(line)
       })
       setLineOfSightRefs({})
+      setLineOfSightResults({})
       setShowLineOfSight(false)
     }
     
@@ -762,6 +967,687 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     }
   }, [showLineOfSight, lineOfSightRefs, userMarkerRef])
 
+  // Coverage inspector: decode every station image under the clicked point
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current || !isInspectorActive) return
+
+    const map = mapInstanceRef.current
+    const container = map.getContainer()
+    container.style.cursor = 'crosshair'
+
+    const handleInspectClick = async (e: LeafletMouseEvent) => {
+      const L = await import("leaflet")
+      const point: Coordinates = { latitude: e.latlng.lat, longitude: e.latlng.lng }
+
+      const popup = L.popup({ maxWidth: 320, minWidth: 240 })
+        .setLatLng(e.latlng)
+        .setContent('<div style="font-size: 12px; color: #666;">กำลังอ่านระดับสัญญาณ...</div>')
+        .openOn(map)
+
+      try {
+        const samples = await sampleCoverageAt(stationsRef.current, point)
+        const content = buildInspectorPopupContent(point, samples, (stationId, visible) => {
+          onStationVisibilityChangeRef.current?.(stationId, visible)
+        })
+        const sfn = sfnInspectRef.current
+        if (sfn) {
+          const sites = getSfnSites(sfn.network.sites, loadAntennaCatalogue())
+          content.appendChild(buildSfnPopupSection(sfn.network, analyzeSfnPoint(point, sites, sfn.network.frequencyMHz, sfn.guardIntervalUs)))
+        }
+        popup.setContent(content)
+      } catch (error) {
+        console.error('Coverage inspection failed:', error)
+        popup.setContent('<div style="font-size: 12px; color: #b91c1c;">ไม่สามารถอ่านข้อมูลพื้นที่ครอบคลุมได้</div>')
+      }
+    }
+
+    map.on('click', handleInspectClick)
+
+    return () => {
+      map.off('click', handleInspectClick)
+      container.style.cursor = ''
+    }
+  }, [isMapReady, isInspectorActive])
+
+  // Best-server composite layer built from the visible stations
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    const shouldShow = compositeSettings.enabled && visibleStations.length > 0
+    stationManagerRef.current?.setOverlaysSuppressed(shouldShow)
+
+    const removeCompositeLayer = () => {
+      if (compositeLayerRef.current) {
+        map.removeLayer(compositeLayerRef.current)
+        compositeLayerRef.current = null
+      }
+    }
+
+    if (!shouldShow) {
+      removeCompositeLayer()
+      setCompositeStationColors([])
+      return
+    }
+
+    let cancelled = false
+    const buildId = ++compositeBuildIdRef.current
+    const buildComposite = async () => {
+      setIsCompositeBuilding(true)
+      setCompositeError(null)
+      try {
+        const L = await import("leaflet")
+        const result = await buildCompositeCoverage(visibleStations, compositeSettings.mode)
+        if (cancelled) return
+
+        removeCompositeLayer()
+        if (result) {
+          compositeLayerRef.current = warpImageOverlay(L.imageOverlay(result.imageUrl, result.bounds, {
+            opacity: compositeOpacityRef.current / 100,
+            interactive: false,
+            className: 'coverage-composite-overlay',
+          }), result.imageUrl, result.bounds).addTo(map)
+          setCompositeStationColors(result.stationColors)
+        }
+      } catch (error) {
+        console.error('Failed to build coverage composite:', error)
+        if (!cancelled) setCompositeError('ไม่สามารถสร้างภาพรวมพื้นที่ครอบคลุมได้')
+      } finally {
+        // Also after cancellation (layer turned off mid-build); only a newer build keeps the flag set
+        if (compositeBuildIdRef.current === buildId) setIsCompositeBuilding(false)
+      }
+    }
+
+    buildComposite()
+
+    return () => {
+      cancelled = true
+    }
+    // Opacity is applied separately so slider moves do not rebuild the raster
+  }, [isMapReady, compositeSettings.enabled, compositeSettings.mode, visibleStationKey])
+
+  useEffect(() => {
+    compositeLayerRef.current?.setOpacity(compositeSettings.opacity / 100)
+  }, [compositeSettings.opacity])
+
+  // Vector level contours (outline only) for the stations chosen in the detail modal
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    const layers = contourLayersRef.current
+    const wantedKeys = new Set(contourStations.map(station => `${station.id}:${station.imageUrl}`))
+
+    layers.forEach((layer, key) => {
+      if (!wantedKeys.has(key)) {
+        map.removeLayer(layer)
+        layers.delete(key)
+      }
+    })
+
+    let cancelled = false
+    const addContours = async () => {
+      const L = await import("leaflet")
+
+      for (const station of contourStations) {
+        const key = `${station.id}:${station.imageUrl}`
+        if (layers.has(key)) continue
+
+        try {
+          const collection = await getStationContours(station)
+          if (cancelled || layers.has(key)) return
+
+          const layer = L.geoJSON<LevelContourProperties, GeoJSON.MultiPolygon>(collection, {
+            style: (feature) => ({
+              color: feature?.properties.color,
+              weight: 1.5,
+              opacity: 0.9,
+              fill: false,
+            }),
+            onEachFeature: (feature, featureLayer) => {
+              const { stationName, label, band } = feature.properties
+              featureLayer.bindTooltip(`${escapeHtml(stationName)}: ${label} (${band})`, { sticky: true })
+            },
+          }).addTo(map)
+          layers.set(key, layer)
+        } catch (error) {
+          console.error(`Failed to build contours for ${station.name}:`, error)
+        }
+      }
+    }
+
+    addContours()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, contourStationKey])
+
+  // Placemarks imported from KML/KMZ files
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawFeatures = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (importedFeaturesLayerRef.current) {
+        map.removeLayer(importedFeaturesLayerRef.current)
+        importedFeaturesLayerRef.current = null
+      }
+      if (importedFeatures.length === 0) return
+
+      const group = L.layerGroup()
+      const style = { color: '#7c3aed', weight: 2, fillOpacity: 0.15 }
+
+      importedFeatures.forEach((feature) => {
+        // KML coordinates are [lng, lat]; Leaflet wants [lat, lng]
+        let layer: any
+        if (feature.type === 'Point') {
+          const [lng, lat] = feature.coordinates as number[]
+          layer = L.circleMarker([lat, lng], { ...style, radius: 6, fillColor: '#7c3aed', fillOpacity: 0.8 })
+        } else {
+          const latLngs = (feature.coordinates as number[][]).map(([lng, lat]) => [lat, lng] as [number, number])
+          layer = feature.type === 'LineString' ? L.polyline(latLngs, style) : L.polygon(latLngs, style)
+        }
+
+        if (feature.name || feature.description) {
+          layer.bindPopup(buildImportedFeaturePopup(feature))
+        }
+        layer.addTo(group)
+      })
+
+      importedFeaturesLayerRef.current = group.addTo(map)
+    }
+
+    drawFeatures()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, importedFeatures])
+
+  // Drive-test measurements, coloured by the coverage level they fall in
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawMeasurements = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (driveTestLayerRef.current) {
+        map.removeLayer(driveTestLayerRef.current)
+        driveTestLayerRef.current = null
+      }
+      if (driveTestRuns.length === 0) return
+
+      // Thousands of points per run, so draw them on one canvas
+      const renderer = L.canvas({ padding: 0.5 })
+      const group = L.layerGroup()
+      driveTestRuns.forEach((run) => {
+        run.points.forEach((point) => {
+          const color = getCoverageLevel(point.level)?.color ?? '#9ca3af'
+          L.circleMarker([point.latitude, point.longitude], {
+            renderer,
+            radius: 4,
+            color: '#1f2937',
+            weight: 0.5,
+            fillColor: color,
+            fillOpacity: 0.9,
+          })
+            .bindTooltip(buildDriveTestTooltip(run, point), { direction: 'top' })
+            .addTo(group)
+        })
+      })
+      driveTestLayerRef.current = group.addTo(map)
+
+      // Zoom to runs the first time they are shown
+      const newPoints = driveTestRuns
+        .filter((run) => !shownDriveTestIdsRef.current.has(run.id))
+        .flatMap((run) => run.points)
+      shownDriveTestIdsRef.current = new Set(driveTestRuns.map((run) => run.id))
+      if (newPoints.length > 0) {
+        map.fitBounds(L.latLngBounds(newPoints.map((point) => [point.latitude, point.longitude] as [number, number])), { padding: [40, 40], maxZoom: 14 })
+      }
+    }
+
+    drawMeasurements()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, driveTestRuns])
+
+  // Coverage gap finder: analyse the chosen region against the visible stations
+  const findGaps = useCallback(async () => {
+    const map = mapInstanceRef.current
+    if (!map) return
+
+    let region: [[number, number], [number, number]] | null
+    if (gapSettings.region === 'viewport') {
+      const bounds = map.getBounds()
+      region = [[bounds.getSouth(), bounds.getWest()], [bounds.getNorth(), bounds.getEast()]]
+    } else {
+      region = getUnionBounds(visibleStations)
+    }
+
+    if (!region) {
+      setGapError('ไม่มีสถานีที่แสดงอยู่สำหรับกำหนดขอบเขต')
+      return
+    }
+
+    setIsGapAnalyzing(true)
+    setGapError(null)
+    try {
+      const result = await findCoverageGaps(visibleStations, region, gapSettings.minLevel)
+      setGapResult(result)
+    } catch (error) {
+      console.error('Failed to find coverage gaps:', error)
+      setGapError('ไม่สามารถวิเคราะห์ช่องว่างของพื้นที่ครอบคลุมได้')
+    } finally {
+      setIsGapAnalyzing(false)
+    }
+  }, [gapSettings, visibleStations])
+
+  const flyToGap = useCallback((gap: CoverageGap) => {
+    mapInstanceRef.current?.flyToBounds(gap.bounds, { padding: [40, 40], maxZoom: 13, duration: 1.2 })
+  }, [])
+
+  // Loaded sites with neither an uploaded coverage image nor a prediction yet
+  const unpredictedSites = useMemo(() => (
+    currentTechnicalData.filter(site =>
+      !hasCoverageImage(site, stations) && !stations.some(station => station.id === getPredictedStationId(site.id))
+    )
+  ), [currentTechnicalData, stations])
+
+  // Same-frequency networks from every site, as echoes beyond the guard interval come from distant
+  // transmitters that are not loaded for the viewport; until one is picked, the first with several
+  // sites is analysed
+  const sfnNetworks = useMemo(() => getSfnNetworks(allSites), [allSites])
+  const selectedSfnNetwork = sfnNetworks.find(network => network.key === sfnSettings.networkKey)
+    ?? sfnNetworks.find(network => network.sites.length > 1)
+    ?? sfnNetworks[0]
+    ?? null
+  sfnInspectRef.current = sfnSettings.enabled && selectedSfnNetwork
+    ? { network: selectedSfnNetwork, guardIntervalUs: getGuardIntervalUs(sfnSettings) }
+    : null
+
+  // SFN timing at the current location, for every network that reaches it
+  const locationSfnAnalyses = useMemo(() => {
+    if (!userLocation) return []
+    const catalogue = loadAntennaCatalogue()
+    const guardIntervalUs = getGuardIntervalUs({ fftSize: sfnSettings.fftSize, fraction: sfnSettings.fraction })
+    return sfnNetworks
+      .map(network => analyzeSfnPoint(userLocation, getSfnSites(network.sites, catalogue), network.frequencyMHz, guardIntervalUs))
+      .filter((analysis): analysis is SfnPointAnalysis => analysis !== null)
+  }, [userLocation, sfnNetworks, sfnSettings.fftSize, sfnSettings.fraction])
+
+  // SFN analysis needs distant transmitters, so the full site list is loaded when it is switched on
+  useEffect(() => {
+    if (sfnSettings.enabled) onLoadAllTechnical?.()
+  }, [sfnSettings.enabled, onLoadAllTechnical])
+
+  // SFN self-interference raster for the selected network
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    const removeSfnLayer = () => {
+      if (sfnLayerRef.current) {
+        map.removeLayer(sfnLayerRef.current)
+        sfnLayerRef.current = null
+      }
+    }
+
+    if (!sfnSettings.enabled || !selectedSfnNetwork) {
+      removeSfnLayer()
+      setSfnAreas(null)
+      setIsSfnBuilding(false)
+      return
+    }
+
+    let cancelled = false
+    const buildLayer = async () => {
+      setIsSfnBuilding(true)
+      setSfnError(null)
+      try {
+        const L = await import("leaflet")
+        if (cancelled) return
+
+        const sites = getSfnSites(selectedSfnNetwork.sites, loadAntennaCatalogue())
+        const layer = await buildSfnRiskLayer({
+          network: selectedSfnNetwork,
+          sites,
+          guardIntervalUs: getGuardIntervalUs(sfnSettings),
+        })
+        if (cancelled) return
+
+        removeSfnLayer()
+        sfnLayerRef.current = warpImageOverlay(L.imageOverlay(layer.imageUrl, layer.bounds, {
+          interactive: false,
+          className: 'sfn-risk-overlay',
+        }), layer.imageUrl, layer.bounds).addTo(map)
+        setSfnAreas({ riskKm2: layer.riskKm2, okKm2: layer.okKm2 })
+      } catch (error) {
+        console.error('Failed to build SFN layer:', error)
+        if (!cancelled) setSfnError('ไม่สามารถคำนวณการรบกวนใน SFN ได้')
+      } finally {
+        if (!cancelled) setIsSfnBuilding(false)
+      }
+    }
+
+    buildLayer()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, sfnSettings.enabled, sfnSettings.fftSize, sfnSettings.fraction, selectedSfnNetwork])
+
+  // Predict coverage one site at a time; each overlay is handed up as soon as it is ready
+  const predictSites = useCallback(async (sites: TechnicalData[]) => {
+    if (sites.length === 0) return
+
+    setPredictionError(null)
+    setPredictionProgress({ done: 0, total: sites.length })
+    let failed = 0
+    for (const [index, site] of sites.entries()) {
+      try {
+        const { station } = await predictSiteCoverage(site)
+        onAddStationsRef.current?.([station])
+      } catch (error) {
+        console.error(`Failed to predict coverage for ${site.stationNameEng}:`, error)
+        failed++
+      }
+      setPredictionProgress({ done: index + 1, total: sites.length })
+    }
+    setPredictionProgress(null)
+    if (failed > 0) {
+      setPredictionError(`คาดการณ์ไม่สำเร็จ ${failed} สถานี`)
+    }
+  }, [])
+
+  // Any change to what is on air makes the last analysis stale; renaming does not
+  const updatePlanningScenario = useCallback((scenario: PlanningScenario) => {
+    if (scenario.transmitters !== planningScenario.transmitters || scenario.removedStationIds !== planningScenario.removedStationIds) {
+      setPlanningAnalysis(null)
+    }
+    setPlanningScenario(scenario)
+  }, [planningScenario])
+
+  const analyzePlanningScenario = useCallback(async () => {
+    setIsPlanningAnalyzing(true)
+    setPlanningError(null)
+    try {
+      const result = await analyzeScenario(planningScenario, visibleStations, planningMinLevel)
+      setPlanningAnalysis(result)
+      setPlanningScenario(prev => ({ ...prev, summary: result.summary }))
+    } catch (error) {
+      console.error('Failed to analyse planning scenario:', error)
+      setPlanningError('ไม่สามารถคาดการณ์แผนนี้ได้')
+    } finally {
+      setIsPlanningAnalyzing(false)
+    }
+  }, [planningScenario, visibleStations, planningMinLevel])
+
+  const flyToTransmitter = useCallback((transmitter: PlannedTransmitter) => {
+    mapInstanceRef.current?.flyTo([transmitter.latitude, transmitter.longitude], 12, { duration: 1.2 })
+  }, [])
+
+  // Planning mode: each map click drops a new transmitter
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current || !showPlanning) return
+
+    const map = mapInstanceRef.current
+    const container = map.getContainer()
+    container.style.cursor = 'crosshair'
+
+    const handlePlanningClick = (e: LeafletMouseEvent) => {
+      setPlanningScenario(prev => ({
+        ...prev,
+        transmitters: [...prev.transmitters, createTransmitter(e.latlng.lat, e.latlng.lng, prev.transmitters.length + 1)]
+      }))
+      setPlanningAnalysis(null)
+    }
+
+    map.on('click', handlePlanningClick)
+
+    return () => {
+      map.off('click', handlePlanningClick)
+      container.style.cursor = ''
+    }
+  }, [isMapReady, showPlanning])
+
+  // Draw planned transmitters and, once analysed, their coverage and the gained/lost overlay
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawPlanning = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (planningLayerRef.current) {
+        map.removeLayer(planningLayerRef.current)
+        planningLayerRef.current = null
+      }
+      if (!showPlanning) return
+
+      const group = L.layerGroup()
+
+      if (planningAnalysis) {
+        planningAnalysis.plannedStations.forEach(station => {
+          warpImageOverlay(L.imageOverlay(station.imageUrl, station.bounds, { opacity: 0.5 }), station.imageUrl, station.bounds).addTo(group)
+        })
+        warpImageOverlay(
+          L.imageOverlay(planningAnalysis.overlayUrl, planningAnalysis.region, { opacity: 1 }),
+          planningAnalysis.overlayUrl,
+          planningAnalysis.region
+        ).addTo(group)
+      }
+
+      planningScenario.transmitters.forEach(transmitter => {
+        // Directional sites get an arrow pointing along the main beam
+        const arrow = transmitter.azimuth === null ? '' : `
+          <div style="position: absolute; left: 5px; top: -9px; width: 0; height: 0;
+            border-left: 4px solid transparent; border-right: 4px solid transparent; border-bottom: 10px solid #4f46e5;
+            transform-origin: 4px 16px; transform: rotate(${transmitter.azimuth}deg);"></div>`
+        const marker = L.marker([transmitter.latitude, transmitter.longitude], {
+          draggable: true,
+          icon: L.divIcon({
+            className: 'planned-transmitter-marker',
+            html: `<div style="position: relative; width: 18px; height: 18px;">
+              ${arrow}
+              <div style="width: 18px; height: 18px; border-radius: 50%; background: #4f46e5; border: 3px solid white; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.4);"></div>
+            </div>`,
+            iconSize: [18, 18],
+            iconAnchor: [9, 9]
+          })
+        })
+        marker.bindTooltip(escapeHtml(transmitter.name), { direction: 'top', offset: [0, -10] })
+        marker.on('dragend', () => {
+          const { lat, lng } = marker.getLatLng()
+          setPlanningScenario(prev => ({
+            ...prev,
+            transmitters: prev.transmitters.map(item => item.id === transmitter.id ? { ...item, latitude: lat, longitude: lng } : item)
+          }))
+          setPlanningAnalysis(null)
+        })
+        marker.addTo(group)
+      })
+
+      planningLayerRef.current = group.addTo(map)
+    }
+
+    drawPlanning()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, showPlanning, planningScenario.transmitters, planningAnalysis])
+
+  const updateRouteTrack = useCallback((track: RouteTrack | null) => {
+    setRouteTrack(track)
+    setRouteProfile(null)
+    setRouteError(null)
+    if (track && mapInstanceRef.current) {
+      mapInstanceRef.current.fitBounds(track.path.map(point => [point.latitude, point.longitude]), { padding: [40, 40] })
+    }
+  }, [])
+
+  const analyzeRoute = useCallback(async () => {
+    if (!routeTrack) return
+    setIsRouteAnalyzing(true)
+    setRouteError(null)
+    try {
+      setRouteProfile(await analyzeRouteCoverage(routeTrack, stationsRef.current, routeStepKm, routeMinLevel))
+    } catch (error) {
+      console.error('Failed to analyse route coverage:', error)
+      setRouteError('ไม่สามารถอ่านระดับสัญญาณตามเส้นทางได้')
+    } finally {
+      setIsRouteAnalyzing(false)
+    }
+  }, [routeTrack, routeStepKm, routeMinLevel])
+
+  const flyToRouteGap = useCallback((gap: RouteGap) => {
+    if (!mapInstanceRef.current || gap.path.length === 0) return
+    mapInstanceRef.current.flyToBounds(gap.path.map(point => [point.latitude, point.longitude]), { padding: [60, 60], maxZoom: 14, duration: 1.2 })
+  }, [])
+
+  // Route drawing: each map click adds a vertex
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current || !isDrawingRoute) return
+
+    const map = mapInstanceRef.current
+    const container = map.getContainer()
+    container.style.cursor = 'crosshair'
+
+    const handleRouteClick = (e: LeafletMouseEvent) => {
+      setDrawnRoute(prev => [...prev, { latitude: e.latlng.lat, longitude: e.latlng.lng }])
+    }
+
+    map.on('click', handleRouteClick)
+
+    return () => {
+      map.off('click', handleRouteClick)
+      container.style.cursor = ''
+    }
+  }, [isMapReady, isDrawingRoute])
+
+  // Draw the route, the line being drawn and, once analysed, the gaps along it
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawRoute = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (routeLayerRef.current) {
+        map.removeLayer(routeLayerRef.current)
+        routeLayerRef.current = null
+      }
+      if (!showRoutePanel) return
+
+      const group = L.layerGroup()
+      const toLatLngs = (path: Coordinates[]) => path.map(point => [point.latitude, point.longitude] as [number, number])
+
+      if (isDrawingRoute) {
+        L.polyline(toLatLngs(drawnRoute), { color: ROUTE_PROFILE.ROUTE_COLOR, weight: 3, dashArray: '6 6', interactive: false }).addTo(group)
+        drawnRoute.forEach(point => {
+          L.circleMarker([point.latitude, point.longitude], {
+            radius: 4,
+            color: ROUTE_PROFILE.ROUTE_COLOR,
+            fillColor: '#ffffff',
+            fillOpacity: 1,
+            weight: 2,
+            interactive: false,
+          }).addTo(group)
+        })
+      } else if (routeTrack) {
+        L.polyline(toLatLngs(routeTrack.path), { color: ROUTE_PROFILE.ROUTE_COLOR, weight: 4, opacity: 0.8 })
+          .bindTooltip(escapeHtml(routeTrack.name), { sticky: true })
+          .addTo(group)
+        routeProfile?.gaps.forEach(gap => {
+          const latLngs = toLatLngs(gap.path)
+          const layer = latLngs.length > 1
+            ? L.polyline(latLngs, { color: ROUTE_PROFILE.GAP_COLOR, weight: 7, opacity: 0.9 })
+            : L.circleMarker(latLngs[0], { radius: 6, color: ROUTE_PROFILE.GAP_COLOR, fillColor: ROUTE_PROFILE.GAP_COLOR, fillOpacity: 0.9 })
+          layer
+            .bindTooltip(`ไม่มีสัญญาณ กม. ${gap.startKm.toFixed(1)} – ${gap.endKm.toFixed(1)}`, { sticky: true })
+            .addTo(group)
+        })
+      }
+
+      routeLayerRef.current = group.addTo(map)
+    }
+
+    drawRoute()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, showRoutePanel, isDrawingRoute, drawnRoute, routeTrack, routeProfile])
+
+  // Draw the gap raster and the outlines of the largest gaps
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawGaps = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (gapLayerRef.current) {
+        map.removeLayer(gapLayerRef.current)
+        gapLayerRef.current = null
+      }
+      if (!gapResult) return
+
+      const group = L.layerGroup()
+      warpImageOverlay(L.imageOverlay(gapResult.overlayUrl, gapResult.region, {
+        interactive: false,
+        className: 'coverage-gap-overlay',
+      }), gapResult.overlayUrl, gapResult.region).addTo(group)
+
+      gapResult.gaps.forEach((gap, index) => {
+        if (gap.polygons.length === 0) return
+        // GeoJSON rings are [lng, lat]; Leaflet wants [lat, lng]
+        const latLngs = gap.polygons.map((polygon) =>
+          polygon.map((ring) => ring.map(([lng, lat]) => [lat, lng] as [number, number]))
+        )
+        L.polygon(latLngs, {
+          color: '#b91c1c',
+          weight: 2,
+          fill: false,
+          dashArray: '4, 4',
+        })
+          .bindTooltip(`ช่องว่าง #${index + 1}: ${gap.areaKm2.toFixed(1)} km²`)
+          .on('click', () => flyToGap(gap))
+          .addTo(group)
+      })
+
+      gapLayerRef.current = group.addTo(map)
+    }
+
+    drawGaps()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, gapResult, flyToGap])
+
   // Function to switch map layers
   const switchMapLayer = useCallback(async (layerType: 'street' | 'satellite') => {
     if (!mapInstanceRef.current || !tileLayerRef.current) return
@@ -773,17 +1659,8 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     map.removeLayer(tileLayerRef.current)
     
     // Add new tile layer based on type
-    let newLayer
-    if (layerType === 'satellite') {
-      newLayer = L.tileLayer("https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}", {
-        attribution: '&copy; <a href="https://www.esri.com/">Esri</a>, Maxar, Earthstar Geographics',
-        maxZoom: 18,
-      })
-    } else {
-      newLayer = L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
-      })
-    }
+    const { url, ...options } = getBasemapLayer(layerType)
+    const newLayer = L.tileLayer(url, options)
     
     newLayer.addTo(map)
     tileLayerRef.current = newLayer
@@ -923,6 +1800,92 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
             <span className={isMobile ? 'hidden' : 'sm:hidden'}>ทุกสถานี</span>
           </Button>
           
+          {/* Coverage Inspector Button */}
+          <Button
+            onClick={() => {
+              setIsInspectorActive(active => !active)
+              setShowPlanning(false)
+              setIsDrawingRoute(false)
+            }}
+            disabled={!isMapReady || stations.length === 0}
+            className={`${
+              isMobile 
+                ? 'text-white shadow-xl text-sm px-3 py-2.5 h-auto flex-1 touch-manipulation min-w-0' 
+                : 'text-white shadow-lg text-sm px-3 py-2 h-auto'
+            } ${isInspectorActive ? 'bg-amber-700 hover:bg-amber-800 ring-2 ring-white' : 'bg-amber-600 hover:bg-amber-700'}`}
+            title="Click anywhere on the map to inspect coverage"
+          >
+            <Crosshair className={`h-4 w-4 ${isMobile ? 'mr-2' : 'mr-2'}`} />
+            <span className={isMobile ? 'text-xs leading-tight' : 'hidden sm:inline'}>
+              {isInspectorActive ? 'ปิดตรวจสัญญาณ' : 'ตรวจสัญญาณ'}
+            </span>
+            <span className={isMobile ? 'hidden' : 'sm:hidden'}>ตรวจ</span>
+          </Button>
+          
+          {/* Coverage Tools Button */}
+          <Button
+            onClick={() => setShowCoverageTools(open => !open)}
+            disabled={!isMapReady}
+            className={`${
+              isMobile 
+                ? 'bg-teal-600 hover:bg-teal-700 text-white shadow-xl text-sm px-3 py-2.5 h-auto flex-1 touch-manipulation min-w-0' 
+                : 'bg-teal-600 hover:bg-teal-700 text-white shadow-lg text-sm px-3 py-2 h-auto'
+            }`}
+            title="Coverage analysis tools"
+          >
+            <Layers className={`h-4 w-4 ${isMobile ? 'mr-2' : 'mr-2'}`} />
+            <span className={isMobile ? 'text-xs leading-tight' : 'hidden sm:inline'}>
+              เครื่องมือ
+            </span>
+            <span className={isMobile ? 'hidden' : 'sm:hidden'}>เครื่องมือ</span>
+          </Button>
+          
+          {/* Planning Sandbox Button */}
+          <Button
+            onClick={() => {
+              setShowPlanning(open => !open)
+              setIsInspectorActive(false)
+              setShowRoutePanel(false)
+              setIsDrawingRoute(false)
+            }}
+            disabled={!isMapReady}
+            className={`${
+              isMobile 
+                ? 'text-white shadow-xl text-sm px-3 py-2.5 h-auto flex-1 touch-manipulation min-w-0' 
+                : 'text-white shadow-lg text-sm px-3 py-2 h-auto'
+            } ${showPlanning ? 'bg-indigo-700 hover:bg-indigo-800 ring-2 ring-white' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+            title="Plan hypothetical transmitters"
+          >
+            <RadioTower className={`h-4 w-4 ${isMobile ? 'mr-2' : 'mr-2'}`} />
+            <span className={isMobile ? 'text-xs leading-tight' : 'hidden sm:inline'}>
+              วางแผน
+            </span>
+            <span className={isMobile ? 'hidden' : 'sm:hidden'}>วางแผน</span>
+          </Button>
+          
+          {/* Route Profile Button */}
+          <Button
+            onClick={() => {
+              setShowRoutePanel(open => !open)
+              setIsDrawingRoute(false)
+              setShowPlanning(false)
+              setIsInspectorActive(false)
+            }}
+            disabled={!isMapReady}
+            className={`${
+              isMobile 
+                ? 'text-white shadow-xl text-sm px-3 py-2.5 h-auto flex-1 touch-manipulation min-w-0' 
+                : 'text-white shadow-lg text-sm px-3 py-2 h-auto'
+            } ${showRoutePanel ? 'bg-sky-700 hover:bg-sky-800 ring-2 ring-white' : 'bg-sky-600 hover:bg-sky-700'}`}
+            title="Coverage profile along a route"
+          >
+            <Route className={`h-4 w-4 ${isMobile ? 'mr-2' : 'mr-2'}`} />
+            <span className={isMobile ? 'text-xs leading-tight' : 'hidden sm:inline'}>
+              เส้นทาง
+            </span>
+            <span className={isMobile ? 'hidden' : 'sm:hidden'}>เส้นทาง</span>
+          </Button>
+          
           {/* Layer Switch Button */}
           <Button
             onClick={() => switchMapLayer(currentLayer === 'street' ? 'satellite' : 'street')}
@@ -1025,6 +1988,9 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
           data={selectedTechnical} 
           open={technicalModalOpen} 
           onOpenChange={setTechnicalModalOpen}
+          onPredictCoverage={onAddStations ? () => predictSites([selectedTechnical]) : undefined}
+          isPredicting={predictionProgress !== null}
+          receiverLocation={userLocation}
           position="auto"
         />
       )}
@@ -1034,13 +2000,119 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
         <LocationAnalysis
           userLocation={userLocation}
           nearestStations={nearestStations}
+          coverageSamples={coverageSamples}
+          isCoverageLoading={isCoverageLoading}
           showLineOfSight={showLineOfSight}
+          lineOfSightResults={lineOfSightResults}
+          isLineOfSightLoading={isLineOfSightLoading}
+          sfnAnalyses={locationSfnAnalyses}
           onToggleLineOfSight={toggleLineOfSight}
           onFlyToStation={flyToStation}
           onClose={closeLocationAnalysis}
         />
       )}
       
+      {/* Coverage Tools Panel */}
+      <CoverageToolsPanel
+        isOpen={showCoverageTools}
+        onClose={() => setShowCoverageTools(false)}
+        visibleStationCount={visibleStations.length}
+        composite={compositeSettings}
+        onCompositeChange={(changes) => setCompositeSettings(prev => ({ ...prev, ...changes }))}
+        isCompositeBuilding={isCompositeBuilding}
+        compositeError={compositeError}
+        compositeStationColors={compositeStationColors}
+        gapSettings={gapSettings}
+        onGapSettingsChange={(changes) => setGapSettings(prev => ({ ...prev, ...changes }))}
+        onFindGaps={findGaps}
+        onClearGaps={() => {
+          setGapResult(null)
+          setGapError(null)
+        }}
+        onSelectGap={flyToGap}
+        isGapAnalyzing={isGapAnalyzing}
+        gapError={gapError}
+        gapResult={gapResult}
+        unpredictedSiteCount={onAddStations ? unpredictedSites.length : 0}
+        onPredictMissing={() => predictSites(unpredictedSites)}
+        predictionProgress={predictionProgress}
+        predictionError={predictionError}
+        sfnNetworks={sfnNetworks}
+        sfnSettings={{ ...sfnSettings, networkKey: selectedSfnNetwork?.key ?? null }}
+        onSfnSettingsChange={(changes) => setSfnSettings(prev => ({ ...prev, ...changes }))}
+        isSfnBuilding={isSfnBuilding}
+        sfnError={sfnError}
+        sfnAreas={sfnAreas}
+      />
+      
+      {/* What-if Planning Panel */}
+      <PlanningPanel
+        isOpen={showPlanning}
+        onClose={() => setShowPlanning(false)}
+        scenario={planningScenario}
+        onScenarioChange={updatePlanningScenario}
+        existingStations={visibleStations}
+        minLevel={planningMinLevel}
+        onMinLevelChange={(level) => {
+          setPlanningMinLevel(level)
+          setPlanningAnalysis(null)
+        }}
+        onAnalyze={analyzePlanningScenario}
+        isAnalyzing={isPlanningAnalyzing}
+        analysisError={planningError}
+        analysis={planningAnalysis}
+        savedScenarios={savedScenarios}
+        onSaveScenario={() => saveScenario(planningScenario)}
+        onLoadScenario={(scenario) => {
+          setPlanningScenario(scenario)
+          setPlanningAnalysis(null)
+        }}
+        onDeleteScenario={deleteScenario}
+        onNewScenario={() => {
+          setPlanningScenario(createScenario(`แผน ${savedScenarios.length + 1}`))
+          setPlanningAnalysis(null)
+        }}
+        onFlyToTransmitter={flyToTransmitter}
+      />
+      
+      {/* Route Coverage Profile Panel */}
+      <RouteProfilePanel
+        isOpen={showRoutePanel}
+        onClose={() => {
+          setShowRoutePanel(false)
+          setIsDrawingRoute(false)
+        }}
+        track={routeTrack}
+        onTrackChange={updateRouteTrack}
+        isDrawing={isDrawingRoute}
+        drawnPointCount={drawnRoute.length}
+        onStartDrawing={() => {
+          setDrawnRoute([])
+          setIsDrawingRoute(true)
+          setIsInspectorActive(false)
+        }}
+        onFinishDrawing={() => {
+          setIsDrawingRoute(false)
+          updateRouteTrack(createRouteTrack(`เส้นทางที่วาด (${drawnRoute.length} จุด)`, drawnRoute))
+        }}
+        onUndoPoint={() => setDrawnRoute(prev => prev.slice(0, -1))}
+        stepKm={routeStepKm}
+        onStepKmChange={(stepKm) => {
+          setRouteStepKm(stepKm)
+          setRouteProfile(null)
+        }}
+        minLevel={routeMinLevel}
+        onMinLevelChange={(level) => {
+          setRouteMinLevel(level)
+          setRouteProfile(null)
+        }}
+        onAnalyze={analyzeRoute}
+        isAnalyzing={isRouteAnalyzing}
+        analysisError={routeError}
+        profile={routeProfile}
+        onSelectGap={flyToRouteGap}
+      />
+      
       {/* Performance Settings Panel */}
       <PerformanceSettings
         isOpen={showPerformanceSettings}
@@ -1051,3 +2123,136 @@ export default function LeafletMap({ stations, technicalData: propTechnicalData,
     </>
   )
 }
+
+/**
+ * Build the coverage inspector popup listing every station that covers a point
+ */
+function buildInspectorPopupContent(
+  point: Coordinates,
+  samples: CoverageSample[],
+  onToggleOverlay: (stationId: string, visible: boolean) => void
+): HTMLElement {
+  const container = document.createElement('div')
+  container.style.minWidth = '220px'
+  container.innerHTML = `
+    <h4 style="margin: 0 0 4px 0; font-size: 13px; color: #333;"><strong>ระดับสัญญาณ ณ จุดนี้</strong></h4>
+    <p style="margin: 0 0 8px 0; font-size: 11px; color: #666; font-family: monospace;">
+      ${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}
+    </p>
+  `
+
+  if (samples.length === 0) {
+    const empty = document.createElement('p')
+    empty.style.cssText = 'margin: 0; font-size: 12px; color: #666;'
+    empty.textContent = 'ไม่มีสถานีที่ครอบคลุมจุดนี้'
+    container.appendChild(empty)
+    return container
+  }
+
+  samples.forEach(({ station, level }) => {
+    let visible = station.visible
+    const row = document.createElement('div')
+    row.style.cssText = 'display: flex; align-items: center; gap: 8px; padding: 6px 0; border-top: 1px solid #eee;'
+    row.innerHTML = `
+      <div style="width: 14px; height: 14px; border-radius: 3px; border: 1px solid #ccc; flex-shrink: 0; background: ${level.color};"></div>
+      <div style="flex: 1; min-width: 0;">
+        <div style="font-size: 12px; font-weight: 600; color: #333; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;">${escapeHtml(station.name)}</div>
+        <div style="font-size: 11px; color: #666;">${level.level} · ${formatLevelBand(level)}</div>
+      </div>
+    `
+
+    const toggle = document.createElement('button')
+    const renderToggle = () => {
+      toggle.textContent = visible ? 'ซ่อน' : 'แสดง'
+      toggle.title = visible ? 'Hide this overlay' : 'Show this overlay'
+      toggle.style.cssText = `border: none; border-radius: 4px; padding: 4px 8px; font-size: 11px; cursor: pointer; flex-shrink: 0; ${
+        visible ? 'background: #e5e7eb; color: #333;' : 'background: #2563eb; color: white;'
+      }`
+    }
+    renderToggle()
+    toggle.addEventListener('click', (event) => {
+      event.stopPropagation()
+      visible = !visible
+      onToggleOverlay(station.id, visible)
+      renderToggle()
+    })
+
+    row.appendChild(toggle)
+    container.appendChild(row)
+  })
+
+  return container
+}
+
+/**
+ * Build the SFN timing section of the inspector popup: each same-frequency arrival with its delay
+ */
+function buildSfnPopupSection(network: SfnNetwork, analysis: SfnPointAnalysis | null): HTMLElement {
+  const section = document.createElement('div')
+  section.style.cssText = 'margin-top: 8px; padding-top: 6px; border-top: 2px solid #e5e7eb;'
+  const title = `SFN ${network.frequencyMHz} MHz${network.channel !== null ? ` (ช่อง ${network.channel})` : ''}`
+
+  if (!analysis) {
+    section.innerHTML = `
+      <div style="font-size: 12px; font-weight: 600; color: #333;">${escapeHtml(title)}</div>
+      <div style="font-size: 11px; color: #666;">ไม่มีสถานีในความถี่นี้ที่ส่งถึงจุดนี้</div>
+    `
+    return section
+  }
+
+  const rows = analysis.arrivals.map((arrival) => `
+    <tr style="color: ${arrival.withinGuard ? '#333' : SFN_STATUS_COLORS.risk};">
+      <td style="padding: 1px 4px 1px 0; max-width: 110px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${escapeHtml(arrival.site.stationNameThai || arrival.site.stationNameEng)}</td>
+      <td style="padding: 1px 4px; text-align: right;">${arrival.distanceKm.toFixed(1)} km</td>
+      <td style="padding: 1px 4px; text-align: right;">+${arrival.relativeDelayUs.toFixed(0)} µs</td>
+      <td style="padding: 1px 0 1px 4px; text-align: right;">${arrival.powerDbm.toFixed(0)} dBm</td>
+    </tr>
+  `).join('')
+
+  section.innerHTML = `
+    <div style="font-size: 12px; font-weight: 600; color: #333;">${escapeHtml(title)}</div>
+    <div style="font-size: 11px; font-weight: 600; color: ${SFN_STATUS_COLORS[analysis.status]}; margin-bottom: 4px;">
+      ${SFN_STATUS_LABELS[analysis.status]}${analysis.carrierToInterferenceDb !== null ? ` · C/I ${analysis.carrierToInterferenceDb.toFixed(1)} dB` : ''}
+    </div>
+    <table style="font-size: 11px; border-collapse: collapse; width: 100%;">${rows}</table>
+    <div style="font-size: 10px; color: #888; margin-top: 4px;">Guard interval ${analysis.guardIntervalUs.toFixed(0)} µs</div>
+  `
+  return section
+}
+
+/**
+ * Build the popup for an imported KML placemark. KML text is untrusted, so it is set as text only.
+ */
+function buildImportedFeaturePopup(feature: KMZData): HTMLElement {
+  const container = document.createElement('div')
+  container.style.cssText = 'min-width: 160px; max-width: 260px; font-family: system-ui, -apple-system, sans-serif;'
+
+  if (feature.name) {
+    const title = document.createElement('div')
+    title.style.cssText = 'font-size: 13px; font-weight: 600; color: #333; margin-bottom: 4px;'
+    title.textContent = feature.name
+    container.appendChild(title)
+  }
+
+  if (feature.description) {
+    const description = document.createElement('div')
+    description.style.cssText = 'font-size: 12px; color: #555; white-space: pre-wrap; max-height: 160px; overflow-y: auto;'
+    // Descriptions are often HTML balloons; show their text content
+    description.textContent = new DOMParser().parseFromString(feature.description, 'text/html').body.textContent || ''
+    container.appendChild(description)
+  }
+
+  return container
+}
+
+/**
+ * Tooltip for one drive test point: run name, time and measured level
+ */
+function buildDriveTestTooltip(run: DriveTestRun, point: DriveTestPoint): string {
+  const level = getCoverageLevel(point.level)
+  return `
+    <div style="font-size: 12px; font-weight: 600;">${escapeHtml(run.name)}</div>
+    ${point.timestamp ? `<div style="font-size: 11px; color: #666;">${escapeHtml(point.timestamp)}</div>` : ''}
+    <div style="font-size: 11px;">${point.dbm.toFixed(1)} dBm${level ? ` · ${escapeHtml(level.level)}` : ''}</div>
+  `
+}
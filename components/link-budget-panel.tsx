@@ -0,0 +1,173 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Calculator } from "lucide-react"
+import { useAntennaCatalogue } from "@/hooks/use-antenna-catalogue"
+import { findSitePattern } from "@/lib/antenna-catalogue"
+import { getAntennaPattern } from "@/lib/propagation"
+import { calculateLinkBudget, DEFAULT_RECEIVER_SETTINGS, type ReceiverSettings } from "@/lib/link-budget"
+import { formatDistance, type Coordinates } from "@/lib/geo-utils"
+import type { TechnicalData } from "@/types/map"
+
+interface LinkBudgetPanelProps {
+  site: TechnicalData
+  receiver?: Coordinates | null // without one, the receive location is typed in
+}
+
+function readNumber(value: string, fallback: number): number {
+  const number = Number.parseFloat(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+// "13.7563, 100.5018" as copied from most map apps
+function parseCoordinates(text: string): Coordinates | null {
+  const [latitude, longitude] = text.split(/[,\s]+/).filter(Boolean).map(Number.parseFloat)
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+  return { latitude, longitude }
+}
+
+const formatDb = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)} dB`
+
+export default function LinkBudgetPanel({ site, receiver = null }: LinkBudgetPanelProps) {
+  const { catalogue } = useAntennaCatalogue()
+  const [settings, setSettings] = useState<ReceiverSettings>(DEFAULT_RECEIVER_SETTINGS)
+  const [coordinateText, setCoordinateText] = useState("")
+
+  const typedLocation = useMemo(() => parseCoordinates(coordinateText), [coordinateText])
+  const receiveLocation = receiver ?? typedLocation
+  const budget = useMemo(() => {
+    if (!receiveLocation) return null
+    const pattern = getAntennaPattern(site, findSitePattern(site, catalogue))
+    return calculateLinkBudget(site, pattern, receiveLocation, settings, site.frequencyMHz ?? undefined)
+  }, [site, catalogue, receiveLocation, settings])
+
+  const updateSettings = (changes: Partial<ReceiverSettings>) => setSettings((prev) => ({ ...prev, ...changes }))
+
+  const rows = budget ? [
+    { label: `ERP ${budget.erpKw} kW`, value: `${budget.erpDbw.toFixed(1)} dBW` },
+    { label: 'Main Feeder Loss', value: formatDb(-budget.feederLossDb) },
+    { label: `สายอากาศทิศ ${Math.round(budget.bearingFromSite)}° (เทียบลำคลื่นหลัก)`, value: formatDb(-budget.patternLossDb) },
+    { label: 'EIRP', value: `${budget.eirpDbw.toFixed(1)} dBW` },
+    {
+      label: `Path loss ${budget.model === 'hata' ? 'Hata' : 'Free space'} @ ${formatDistance(budget.distanceKm)}`,
+      value: formatDb(-budget.pathLossDb),
+    },
+    { label: 'ความแรงสนาม', value: `${budget.fieldStrengthDbuvm.toFixed(1)} dBµV/m` },
+    { label: 'อัตราขยายสายอากาศรับ', value: formatDb(budget.receiverGainDbi) },
+    { label: 'สายนำสัญญาณ', value: formatDb(-budget.cableLossDb) },
+  ] : []
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Calculator className="h-4 w-4 text-indigo-600" />
+        <span className="font-semibold text-sm">งบประมาณลิงก์ / Link Budget</span>
+      </div>
+
+      {!receiver && (
+        <div className="space-y-1">
+          <Label htmlFor={`link-budget-location-${site.id}`} className="text-[10px] text-muted-foreground">
+            ตำแหน่งผู้รับ (ละติจูด, ลองจิจูด)
+          </Label>
+          <Input
+            id={`link-budget-location-${site.id}`}
+            value={coordinateText}
+            placeholder="13.7563, 100.5018"
+            onChange={(e) => setCoordinateText(e.target.value)}
+            className="h-7 text-xs font-mono"
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label className="text-[10px] text-muted-foreground">ความสูงสายอากาศ (m)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={settings.heightM}
+            onChange={(e) => updateSettings({ heightM: Math.max(1, readNumber(e.target.value, settings.heightM)) })}
+            className="h-7 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-[10px] text-muted-foreground">Gain (dBi)</Label>
+          <Input
+            type="number"
+            step={0.5}
+            value={settings.gainDbi}
+            onChange={(e) => updateSettings({ gainDbi: readNumber(e.target.value, settings.gainDbi) })}
+            className="h-7 text-xs"
+          />
+        </div>
+        <div>
+          <Label className="text-[10px] text-muted-foreground">Cable loss (dB)</Label>
+          <Input
+            type="number"
+            min={0}
+            step={0.5}
+            value={settings.cableLossDb}
+            onChange={(e) => updateSettings({ cableLossDb: Math.max(0, readNumber(e.target.value, settings.cableLossDb)) })}
+            className="h-7 text-xs"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-1">
+        <Button
+          variant={settings.model === 'hata' ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 text-xs flex-1"
+          onClick={() => updateSettings({ model: 'hata' })}
+        >
+          Hata
+        </Button>
+        <Button
+          variant={settings.model === 'free-space' ? 'default' : 'outline'}
+          size="sm"
+          className="h-7 text-xs flex-1"
+          onClick={() => updateSettings({ model: 'free-space' })}
+        >
+          Free space
+        </Button>
+      </div>
+
+      {budget ? (
+        <div className="space-y-1">
+          {rows.map((row) => (
+            <div key={row.label} className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-muted-foreground">{row.label}</span>
+              <span className="font-mono">{row.value}</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between gap-2 border-t pt-1.5 text-sm font-semibold">
+            <span>สัญญาณที่เครื่องรับ</span>
+            <span className="font-mono">{budget.receivedDbm.toFixed(1)} dBm</span>
+          </div>
+          {budget.level ? (
+            <Badge
+              variant="outline"
+              className="w-full justify-center text-xs"
+              style={{ borderColor: budget.level.color }}
+            >
+              <span className="h-2.5 w-2.5 rounded-full mr-1.5" style={{ backgroundColor: budget.level.color }} />
+              {budget.level.level} · {budget.level.description}
+            </Badge>
+          ) : (
+            <p className="text-xs text-muted-foreground text-center">ต่ำกว่าระดับที่แสดงบนแผนที่</p>
+          )}
+          <p className="text-[10px] text-muted-foreground">
+            {budget.frequencyMHz} MHz, ไม่รวมการบังของภูมิประเทศ
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">ระบุตำแหน่งผู้รับเพื่อคำนวณ</p>
+      )}
+    </div>
+  )
+}
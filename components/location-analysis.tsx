@@ -1,6 +1,6 @@
 "use client"
 
-import React from 'react'
+import React, { useState } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -17,9 +17,20 @@ import {
   Building2,
   Target,
   Compass,
+  Signal,
+  Loader2,
+  Mountain,
+  Waves,
   X
 } from "lucide-react"
 import type { StationDistance } from "@/lib/geo-utils"
+import type { CoverageSample } from "@/lib/coverage-raster"
+import { formatCoverageLevel } from "@/lib/coverage-raster"
+import { LINE_OF_SIGHT_COLORS, LINE_OF_SIGHT_LABELS, type LineOfSightResult } from "@/lib/terrain-profile"
+import TerrainProfileChart from "@/components/terrain-profile-chart"
+import LinkBudgetPanel from "@/components/link-budget-panel"
+import ReceptionReportForm from "@/components/reception-report-form"
+import { SFN_STATUS_COLORS, SFN_STATUS_LABELS, type SfnPointAnalysis } from "@/lib/sfn"
 import { 
   formatDistance, 
   formatDistanceDetailed,
@@ -30,27 +41,52 @@ import {
 interface LocationAnalysisProps {
   userLocation: { latitude: number; longitude: number } | null
   nearestStations: StationDistance[]
+  coverageSamples: CoverageSample[]
+  isCoverageLoading?: boolean
   onClose: () => void
   onFlyToStation: (station: any) => void
   onToggleLineOfSight: () => void
   showLineOfSight: boolean
+  lineOfSightResults?: Record<string, LineOfSightResult>
+  isLineOfSightLoading?: boolean
+  sfnAnalyses?: SfnPointAnalysis[]
 }
 
 export default function LocationAnalysis({ 
   userLocation, 
   nearestStations, 
+  coverageSamples,
+  isCoverageLoading = false,
   onClose, 
   onFlyToStation,
   onToggleLineOfSight,
-  showLineOfSight 
+  showLineOfSight,
+  lineOfSightResults = {},
+  isLineOfSightLoading = false,
+  sfnAnalyses = []
 }: LocationAnalysisProps) {
   const isMobile = useIsMobile()
+  const [profileStationId, setProfileStationId] = useState<string | null>(null)
+  const [budgetStationId, setBudgetStationId] = useState<string | null>(null)
   
   if (!userLocation || nearestStations.length === 0) {
     return null
   }
 
   const closestStation = nearestStations[0]
+  const bestCoverage = coverageSamples[0]
+
+  // Technical sites with a terrain profile, in distance order
+  const profiledStations = nearestStations.filter(item => lineOfSightResults[item.station.id])
+  const profileStation = profiledStations.find(item => item.station.id === profileStationId) || profiledStations[0]
+  const profileResult = profileStation ? lineOfSightResults[profileStation.station.id] : undefined
+
+  // Link budget towards one of the nearby transmitter sites
+  const technicalStations = nearestStations.filter(item => item.station.type === 'technical')
+  const budgetStation = technicalStations.find(item => item.station.id === budgetStationId) || technicalStations[0]
+  const channelSuggestions = Array.from(new Set(
+    technicalStations.flatMap(item => (item.station.channel ? [item.station.channel as number] : []))
+  )).slice(0, 4)
 
   return (
     <div className={`fixed z-[1000] ${
@@ -88,15 +124,194 @@ export default function LocationAnalysis({
             variant={showLineOfSight ? "default" : "outline"}
             size="sm"
             onClick={onToggleLineOfSight}
+            disabled={isLineOfSightLoading}
             className="flex-1"
           >
-            <Eye className="h-4 w-4 mr-2" />
+            {isLineOfSightLoading ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="h-4 w-4 mr-2" />
+            )}
             {showLineOfSight ? 'Hide Lines' : 'Show Lines'}
           </Button>
         </div>
 
+        {/* Terrain Line of Sight */}
+        {showLineOfSight && profileStation && profileResult && (
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Mountain className="h-4 w-4 text-amber-700" />
+              <span className="font-semibold text-sm">แนวสายตาตามภูมิประเทศ / Terrain Profile</span>
+            </div>
+
+            <div className="space-y-1">
+              {profiledStations.map(item => {
+                const result = lineOfSightResults[item.station.id]
+                const isSelected = item.station.id === profileStation.station.id
+                return (
+                  <button
+                    key={item.station.id}
+                    type="button"
+                    onClick={() => setProfileStationId(item.station.id)}
+                    className={`w-full flex items-center gap-2 rounded px-2 py-1 text-left text-xs transition-colors ${
+                      isSelected ? 'bg-muted' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: LINE_OF_SIGHT_COLORS[result.status] }}
+                    />
+                    <span className="flex-1 truncate">
+                      {item.station.type === 'technical'
+                        ? (item.station.stationNameThai || item.station.stationNameEng)
+                        : item.station.name}
+                    </span>
+                    <span className="text-muted-foreground">{formatDistance(item.distance)}</span>
+                  </button>
+                )
+              })}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium" style={{ color: LINE_OF_SIGHT_COLORS[profileResult.status] }}>
+                {LINE_OF_SIGHT_LABELS[profileResult.status]}
+              </p>
+              {profileResult.status !== 'unknown' && (
+                <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground mt-1">
+                  <div>ระยะห่างต่ำสุด: {profileResult.minClearance?.toFixed(1)} m</div>
+                  <div>Fresnel: {Math.round((profileResult.minFresnelRatio ?? 0) * 100)}%</div>
+                </div>
+              )}
+              {profileResult.antennaLossDb !== null && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  สายอากาศลดทอนทิศทางนี้ {profileResult.antennaLossDb.toFixed(1)} dB
+                </p>
+              )}
+              {profileResult.coverage < 1 && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  ข้อมูล DEM ครอบคลุม {Math.round(profileResult.coverage * 100)}% ของเส้นทาง
+                </p>
+              )}
+            </div>
+
+            {profileResult.status !== 'unknown' && <TerrainProfileChart result={profileResult} />}
+
+            <p className="text-[10px] text-muted-foreground">
+              k = {profileResult.kFactor.toFixed(2)}, {profileResult.frequencyMHz} MHz
+            </p>
+          </div>
+        )}
+
+        {/* Link Budget */}
+        {budgetStation && (
+          <div className="space-y-2">
+            {technicalStations.length > 1 && (
+              <div className="flex flex-wrap gap-1">
+                {technicalStations.map(item => (
+                  <Button
+                    key={item.station.id}
+                    variant={item.station.id === budgetStation.station.id ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-6 px-2 text-xs max-w-full"
+                    onClick={() => setBudgetStationId(item.station.id)}
+                  >
+                    <span className="truncate">{item.station.stationNameThai || item.station.stationNameEng}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+            <LinkBudgetPanel site={budgetStation.station} receiver={userLocation} />
+          </div>
+        )}
+
+        {/* SFN timing */}
+        {sfnAnalyses.length > 0 && (
+          <div className="border rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Waves className="h-4 w-4 text-cyan-600" />
+              <span className="font-semibold text-sm">เวลามาถึงของสัญญาณ SFN</span>
+            </div>
+            {sfnAnalyses.map(analysis => (
+              <div key={analysis.frequencyMHz} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="font-medium">{analysis.frequencyMHz} MHz</span>
+                  <span className="font-medium" style={{ color: SFN_STATUS_COLORS[analysis.status] }}>
+                    {SFN_STATUS_LABELS[analysis.status]}
+                  </span>
+                </div>
+                {analysis.arrivals.map(arrival => (
+                  <div key={arrival.site.id} className="flex items-center gap-2 text-xs">
+                    <span
+                      className="h-2 w-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: arrival.withinGuard ? SFN_STATUS_COLORS.ok : SFN_STATUS_COLORS.risk }}
+                    />
+                    <span className="flex-1 truncate">{arrival.site.stationNameThai || arrival.site.stationNameEng}</span>
+                    <span className="text-muted-foreground">{formatDistance(arrival.distanceKm)}</span>
+                    <span className="font-mono w-16 text-right">+{arrival.relativeDelayUs.toFixed(0)} µs</span>
+                    <span className="font-mono w-16 text-right">{arrival.powerDbm.toFixed(0)} dBm</span>
+                  </div>
+                ))}
+                <p className="text-[10px] text-muted-foreground">
+                  Guard interval {analysis.guardIntervalUs.toFixed(0)} µs
+                  {analysis.carrierToInterferenceDb !== null && ` · C/I ${analysis.carrierToInterferenceDb.toFixed(1)} dB`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
         <Separator />
 
+        {/* Coverage Level at User Location */}
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+          <div className="flex items-center gap-2 mb-2">
+            <Signal className="h-4 w-4 text-blue-600" />
+            <span className="font-semibold text-blue-800">ระดับสัญญาณ ณ ตำแหน่งนี้ / Coverage Here</span>
+          </div>
+
+          {isCoverageLoading ? (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              กำลังอ่านข้อมูลพื้นที่ครอบคลุม...
+            </div>
+          ) : bestCoverage ? (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <div
+                  className="h-4 w-4 rounded border border-gray-300 flex-shrink-0"
+                  style={{ backgroundColor: bestCoverage.level.color }}
+                />
+                <p className="font-medium text-sm">
+                  {formatCoverageLevel(bestCoverage.level)} from {bestCoverage.station.name}
+                </p>
+              </div>
+              <p className="text-xs text-muted-foreground">{bestCoverage.level.description}</p>
+
+              {coverageSamples.length > 1 && (
+                <div className="space-y-1 pt-1">
+                  {coverageSamples.slice(1).map((sample) => (
+                    <div key={sample.station.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <div
+                        className="h-3 w-3 rounded-sm border border-gray-300 flex-shrink-0"
+                        style={{ backgroundColor: sample.level.color }}
+                      />
+                      <span className="truncate">
+                        {formatCoverageLevel(sample.level)} from {sample.station.name}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              ไม่พบพื้นที่ครอบคลุมของสถานีใด ณ ตำแหน่งนี้ / No station coverage image covers this location
+            </p>
+          )}
+        </div>
+
+        <ReceptionReportForm location={userLocation} channelSuggestions={channelSuggestions} />
+
         {/* Closest Station Highlight */}
         <div className="bg-green-50 border border-green-200 rounded-lg p-3">
           <div className="flex items-center gap-2 mb-2">
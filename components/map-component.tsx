@@ -2,7 +2,9 @@
 import dynamic from "next/dynamic"
 import { Loader2 } from "lucide-react"
 import React, { useCallback, useRef, useMemo, useState } from "react"
-import type { Station, ImageOverlayData, TechnicalData } from "@/types/map"
+import type { Station, ImageOverlayData, TechnicalData, KMZData } from "@/types/map"
+import type { BBox } from "@/lib/data-query"
+import type { DriveTestRun } from "@/lib/drive-test"
 import TechnicalSearch from "@/components/technical-search"
 import ImageOverlayLoadingDialog from "@/components/image-overlay-loading-dialog"
 
@@ -10,9 +12,17 @@ interface MapComponentProps {
   stations: Station[]
   overlayData?: ImageOverlayData | null
   technicalData?: TechnicalData[]
+  allTechnicalData?: TechnicalData[] // every site, not just those loaded for the viewport
+  onLoadAllTechnical?: () => Promise<TechnicalData[]> // loads allTechnicalData
   isLoading?: boolean
   isDataLoading?: boolean
   isOverlayLoading?: boolean
+  onStationVisibilityChange?: (stationId: string, visible: boolean) => void
+  contourStationIds?: string[]
+  importedFeatures?: KMZData[]
+  driveTestRuns?: DriveTestRun[]
+  onViewportChange?: (bbox: BBox) => void
+  onAddStations?: (stations: Station[]) => void
 }
 
 // Dynamically import the actual map to avoid SSR issues
@@ -28,7 +38,7 @@ const DynamicMap = dynamic(() => import("./leaflet-map"), {
   ),
 })
 
-const MapComponent = ({ stations, overlayData, technicalData, isLoading, isDataLoading, isOverlayLoading }: MapComponentProps) => {
+const MapComponent = ({ stations, overlayData, technicalData, allTechnicalData, onLoadAllTechnical, isLoading, isDataLoading, isOverlayLoading, onStationVisibilityChange, contourStationIds, importedFeatures, driveTestRuns, onViewportChange, onAddStations }: MapComponentProps) => {
   const flyToTechnicalPointRef = useRef<((data: TechnicalData) => void) | null>(null)
   const [overlayLoadingState, setOverlayLoadingState] = useState({
     open: false,
@@ -40,6 +50,7 @@ const MapComponent = ({ stations, overlayData, technicalData, isLoading, isDataL
   
   // Memoize visible stations to avoid recalculating on every render
   const visibleStations = useMemo(() => stations.filter(s => s.visible), [stations])
+  const searchableTechnicalData = allTechnicalData && allTechnicalData.length > 0 ? allTechnicalData : technicalData ?? []
 
   // Handle technical point selection from search
   const handleTechnicalPointSelect = useCallback((data: TechnicalData) => {
@@ -56,11 +67,12 @@ const MapComponent = ({ stations, overlayData, technicalData, isLoading, isDataL
 
   return (
     <div className="h-full w-full relative z-0">
-      {/* Search Bar */}
-      {technicalData && technicalData.length > 0 && (
+      {/* Search Bar - opening it loads every site, not just those loaded for the viewport */}
+      {searchableTechnicalData.length > 0 && (
         <div className="absolute top-20 left-4 z-[1000] max-w-md">
           <TechnicalSearch
-            technicalData={technicalData}
+            technicalData={searchableTechnicalData}
+            onOpen={onLoadAllTechnical}
             onLocationSelect={handleTechnicalPointSelect}
             className="w-full"
           />
@@ -70,8 +82,16 @@ const MapComponent = ({ stations, overlayData, technicalData, isLoading, isDataL
       <DynamicMap 
         stations={stations} 
         technicalData={technicalData}
+        allTechnicalData={allTechnicalData}
+        onLoadAllTechnical={onLoadAllTechnical}
         isDataLoading={isDataLoading}
         onTechnicalPointSelect={handleMapTechnicalPointSelect}
+        onStationVisibilityChange={onStationVisibilityChange}
+        contourStationIds={contourStationIds}
+        importedFeatures={importedFeatures}
+        driveTestRuns={driveTestRuns}
+        onViewportChange={onViewportChange}
+        onAddStations={onAddStations}
       />
 
       {/* Image Overlay Loading Dialog */}
@@ -0,0 +1,332 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, Download, HardDrive, Loader2, Trash2, Wifi, WifiOff, X } from "lucide-react"
+import type { BBox } from "@/lib/data-query"
+import {
+  clearOfflineCache,
+  countRegionTiles,
+  DOWNLOAD_BASEMAP,
+  downloadBasemapRegion,
+  downloadStationOverlays,
+  getCachedOverlayUrls,
+  getDownloadableStations,
+  getStorageUsage,
+  isOffline,
+  isOfflineSupported,
+  type DownloadProgress,
+  type StorageUsage,
+} from "@/lib/offline-cache"
+import type { Station } from "@/types/map"
+import { BASEMAP_DOWNLOAD } from "@/constants/offline"
+
+interface OfflineCardProps {
+  stations: Station[]
+  viewport: BBox | null
+}
+
+interface ActiveDownload {
+  label: string
+  progress: DownloadProgress
+}
+
+const CURRENT_VIEW = "view"
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+}
+
+export default function OfflineCard({ stations, viewport }: OfflineCardProps) {
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSupported, setIsSupported] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const [cachedUrls, setCachedUrls] = useState<Set<string>>(new Set())
+  const [region, setRegion] = useState(CURRENT_VIEW)
+  const [maxZoom, setMaxZoom] = useState(BASEMAP_DOWNLOAD.DEFAULT_MAX_ZOOM)
+  const [download, setDownload] = useState<ActiveDownload | null>(null)
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const downloadableStations = useMemo(() => getDownloadableStations(stations), [stations])
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage())
+      setCachedUrls(await getCachedOverlayUrls())
+    } catch (err) {
+      console.error('Failed to read offline storage:', err)
+    }
+  }, [])
+
+  useEffect(() => {
+    setIsSupported(isOfflineSupported())
+    setIsOnline(!isOffline())
+    refreshUsage()
+
+    const updateStatus = () => setIsOnline(!isOffline())
+    window.addEventListener('online', updateStatus)
+    window.addEventListener('offline', updateStatus)
+    return () => {
+      window.removeEventListener('online', updateStatus)
+      window.removeEventListener('offline', updateStatus)
+    }
+  }, [refreshUsage])
+
+  // Stations are named after the province they serve, so their coverage areas double as provinces
+  const regionBBox = useMemo((): BBox | null => {
+    if (region === CURRENT_VIEW) return viewport
+    const station = downloadableStations.find(item => item.id === region)
+    if (!station) return null
+    const [[south, west], [north, east]] = station.bounds
+    return [west, south, east, north]
+  }, [region, viewport, downloadableStations])
+
+  const tileCount = regionBBox ? countRegionTiles(regionBBox, maxZoom) : 0
+
+  const toggleStation = (stationId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(stationId)
+      else next.delete(stationId)
+      return next
+    })
+  }
+
+  const runDownload = async (label: string, task: (onProgress: (progress: DownloadProgress) => void, signal: AbortSignal) => Promise<DownloadProgress>) => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setMessage(null)
+    setDownload({ label, progress: { done: 0, failed: 0, total: 0 } })
+
+    try {
+      const result = await task(progress => setDownload({ label, progress }), controller.signal)
+      if (controller.signal.aborted) {
+        setMessage(`${label} cancelled after ${result.done} of ${result.total}`)
+      } else {
+        setMessage(`${label}: ${result.done} of ${result.total} saved${result.failed > 0 ? `, ${result.failed} failed` : ''}`)
+      }
+    } catch (err) {
+      console.error(`${label} failed:`, err)
+      setError(err instanceof Error ? err.message : `${label} failed`)
+    } finally {
+      abortRef.current = null
+      setDownload(null)
+      refreshUsage()
+    }
+  }
+
+  const handleSaveOverlays = () => {
+    const chosen = downloadableStations.filter(station => selectedIds.has(station.id))
+    runDownload('Coverage overlays', (onProgress, signal) => downloadStationOverlays(chosen, onProgress, signal))
+  }
+
+  const handleDownloadBasemap = () => {
+    if (!regionBBox) return
+    runDownload('Basemap tiles', (onProgress, signal) => downloadBasemapRegion(regionBBox, maxZoom, onProgress, signal))
+  }
+
+  const handleClear = async (names?: string[]) => {
+    await clearOfflineCache(names)
+    setMessage(null)
+    refreshUsage()
+  }
+
+  const zoomOptions = Array.from(
+    { length: BASEMAP_DOWNLOAD.MAX_ZOOM - BASEMAP_DOWNLOAD.MIN_ZOOM + 1 },
+    (_, index) => BASEMAP_DOWNLOAD.MIN_ZOOM + index
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">Offline Use</CardTitle>
+          <Badge variant={isOnline ? "secondary" : "destructive"} className="text-xs">
+            {isOnline ? <Wifi className="h-3 w-3 mr-1" /> : <WifiOff className="h-3 w-3 mr-1" />}
+            {isOnline ? "Online" : "Offline"}
+          </Badge>
+        </div>
+        <CardDescription>
+          Save overlays and basemap tiles for sites without mobile data
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isSupported && (
+          <p className="text-xs text-muted-foreground">
+            This browser cannot store the app for offline use.
+          </p>
+        )}
+
+        {isSupported && (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-xs font-medium text-muted-foreground">Coverage overlays</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setSelectedIds(new Set(downloadableStations.map(station => station.id)))}
+                >
+                  Select all
+                </Button>
+              </div>
+              <ScrollArea className="h-32 pr-3">
+                <div className="space-y-1.5">
+                  {downloadableStations.map(station => (
+                    <div key={station.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`offline-${station.id}`}
+                        checked={selectedIds.has(station.id)}
+                        onCheckedChange={checked => toggleStation(station.id, checked === true)}
+                      />
+                      <Label htmlFor={`offline-${station.id}`} className="text-xs flex-1 truncate">
+                        {station.name}
+                      </Label>
+                      {cachedUrls.has(station.imageUrl) && (
+                        <Badge variant="outline" className="text-[10px]">Saved</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleSaveOverlays}
+                disabled={!!download || !isOnline || selectedIds.size === 0}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Save {selectedIds.size} overlay{selectedIds.size === 1 ? '' : 's'}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">Basemap for a region</p>
+              <Select value={region} onValueChange={setRegion}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={CURRENT_VIEW} className="text-xs">Current map view</SelectItem>
+                  {downloadableStations.map(station => (
+                    <SelectItem key={station.id} value={station.id} className="text-xs">
+                      {station.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={String(maxZoom)} onValueChange={value => setMaxZoom(Number(value))}>
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {zoomOptions.map(zoom => (
+                    <SelectItem key={zoom} value={String(zoom)} className="text-xs">Up to zoom {zoom}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!DOWNLOAD_BASEMAP && (
+                <p className="text-xs text-muted-foreground">
+                  The public street and satellite tile servers do not allow offline downloads. Set
+                  NEXT_PUBLIC_BASEMAP_DOWNLOAD_URL to a tile source that does to enable this.
+                </p>
+              )}
+              <p className={`text-xs ${tileCount > BASEMAP_DOWNLOAD.MAX_TILES ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {regionBBox ? `${tileCount.toLocaleString()} tiles` : 'Move the map to choose an area'}
+                {tileCount > BASEMAP_DOWNLOAD.MAX_TILES && ` (limit ${BASEMAP_DOWNLOAD.MAX_TILES.toLocaleString()}; lower the zoom)`}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={handleDownloadBasemap}
+                disabled={!DOWNLOAD_BASEMAP || !!download || !isOnline || !regionBBox || tileCount > BASEMAP_DOWNLOAD.MAX_TILES}
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Download this area
+              </Button>
+            </div>
+
+            {download && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="inline-flex items-center">
+                    <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />
+                    {download.label}: {download.progress.done + download.progress.failed} / {download.progress.total}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => abortRef.current?.abort()}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                <Progress
+                  value={download.progress.total > 0 ? ((download.progress.done + download.progress.failed) / download.progress.total) * 100 : 0}
+                  className="h-1.5"
+                />
+              </div>
+            )}
+
+            {message && <p className="text-xs text-muted-foreground">{message}</p>}
+
+            {error && (
+              <div className="text-sm text-destructive inline-flex items-center">
+                <AlertCircle className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+
+            {usage && (
+              <div className="rounded border p-2 space-y-1.5">
+                <div className="flex items-center gap-2 text-xs font-medium">
+                  <HardDrive className="h-3.5 w-3.5 text-muted-foreground" />
+                  {usage.usedBytes !== null ? formatBytes(usage.usedBytes) : 'Unknown'} used
+                  {usage.quotaBytes !== null && ` of ${formatBytes(usage.quotaBytes)}`}
+                  {usage.persisted && <Badge variant="secondary" className="text-[10px]">Persistent</Badge>}
+                </div>
+                {usage.caches.map(cache => (
+                  <div key={cache.name} className="flex items-center justify-between text-xs">
+                    <span className="text-muted-foreground">{cache.label}</span>
+                    <div className="flex items-center gap-1">
+                      <span>{cache.entries} files</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        onClick={() => handleClear([cache.name])}
+                        disabled={!!download || cache.entries === 0}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full h-7 text-xs text-destructive"
+                  onClick={() => handleClear()}
+                  disabled={!!download}
+                >
+                  Clear all offline data
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
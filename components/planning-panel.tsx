@@ -0,0 +1,376 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { RadioTower, Loader2, AlertCircle, X, Trash2, Save, Download, FilePlus, Navigation } from "lucide-react"
+import { coverageLevels } from "@/data/coveragelevel"
+import { formatArea } from "@/lib/coverage-stats"
+import { downloadScenarioCsv, type PlannedTransmitter, type PlanningScenario, type ScenarioAnalysis } from "@/lib/planning"
+import type { Station } from "@/types/map"
+
+interface PlanningPanelProps {
+  isOpen: boolean
+  onClose: () => void
+  scenario: PlanningScenario
+  onScenarioChange: (scenario: PlanningScenario) => void
+  existingStations: Station[]
+  minLevel: number
+  onMinLevelChange: (level: number) => void
+  onAnalyze: () => void
+  isAnalyzing: boolean
+  analysisError: string | null
+  analysis: ScenarioAnalysis | null
+  savedScenarios: PlanningScenario[]
+  onSaveScenario: () => void
+  onLoadScenario: (scenario: PlanningScenario) => void
+  onDeleteScenario: (scenarioId: string) => void
+  onNewScenario: () => void
+  onFlyToTransmitter: (transmitter: PlannedTransmitter) => void
+}
+
+// Parse a numeric input, keeping the previous value while the field is being edited
+function readNumber(value: string, fallback: number): number {
+  const number = Number.parseFloat(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+export default function PlanningPanel({
+  isOpen,
+  onClose,
+  scenario,
+  onScenarioChange,
+  existingStations,
+  minLevel,
+  onMinLevelChange,
+  onAnalyze,
+  isAnalyzing,
+  analysisError,
+  analysis,
+  savedScenarios,
+  onSaveScenario,
+  onLoadScenario,
+  onDeleteScenario,
+  onNewScenario,
+  onFlyToTransmitter,
+}: PlanningPanelProps) {
+  const isMobile = useIsMobile()
+
+  if (!isOpen) return null
+
+  const updateTransmitter = (id: string, changes: Partial<PlannedTransmitter>) => {
+    onScenarioChange({
+      ...scenario,
+      transmitters: scenario.transmitters.map((transmitter) => (transmitter.id === id ? { ...transmitter, ...changes } : transmitter)),
+    })
+  }
+
+  const removeTransmitter = (id: string) => {
+    onScenarioChange({ ...scenario, transmitters: scenario.transmitters.filter((transmitter) => transmitter.id !== id) })
+  }
+
+  const toggleRemovedStation = (stationId: string, removed: boolean) => {
+    onScenarioChange({
+      ...scenario,
+      removedStationIds: removed
+        ? [...scenario.removedStationIds, stationId]
+        : scenario.removedStationIds.filter((id) => id !== stationId),
+    })
+  }
+
+  const comparedScenarios = savedScenarios.filter((item) => item.summary)
+  const canAnalyze = scenario.transmitters.length > 0 || scenario.removedStationIds.length > 0
+
+  return (
+    <div className={`absolute z-[1000] ${
+      isMobile
+        ? 'top-20 left-2 right-2 max-h-[60vh] flex flex-col'
+        : 'top-36 right-4 w-96 max-h-[calc(100%-13rem)] flex flex-col'
+    }`}>
+      <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm flex flex-col min-h-0">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <RadioTower className="h-4 w-4 text-indigo-600" />
+              วางแผนสถานีใหม่ (What-if)
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            คลิกบนแผนที่เพื่อวางเครื่องส่ง ลากหมุดเพื่อย้ายตำแหน่ง
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          {/* Scenario */}
+          <div className="space-y-2">
+            <Label htmlFor="scenario-name" className="text-sm font-medium">ชื่อแผน</Label>
+            <Input
+              id="scenario-name"
+              value={scenario.name}
+              onChange={(e) => onScenarioChange({ ...scenario, name: e.target.value })}
+              className="h-8 text-sm"
+            />
+          </div>
+
+          {/* Planned transmitters */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium">เครื่องส่งที่วางแผน ({scenario.transmitters.length})</div>
+            {scenario.transmitters.length === 0 && (
+              <p className="text-xs text-muted-foreground">ยังไม่มีเครื่องส่ง คลิกบนแผนที่เพื่อเพิ่ม</p>
+            )}
+            {scenario.transmitters.map((transmitter) => (
+              <div key={transmitter.id} className="border rounded-lg p-2 space-y-2">
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={transmitter.name}
+                    onChange={(e) => updateTransmitter(transmitter.id, { name: e.target.value })}
+                    className="h-7 text-xs flex-1"
+                  />
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onFlyToTransmitter(transmitter)}>
+                    <Navigation className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => removeTransmitter(transmitter.id)}>
+                    <Trash2 className="h-3 w-3 text-red-600" />
+                  </Button>
+                </div>
+                <div className="font-mono text-[10px] text-muted-foreground">
+                  {transmitter.latitude.toFixed(5)}, {transmitter.longitude.toFixed(5)}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <Label className="text-[10px] text-muted-foreground">ERP (kW)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={transmitter.erpKw}
+                      onChange={(e) => updateTransmitter(transmitter.id, { erpKw: Math.max(0.001, readNumber(e.target.value, transmitter.erpKw)) })}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-[10px] text-muted-foreground">ความสูง (m)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={transmitter.heightAgl}
+                      onChange={(e) => updateTransmitter(transmitter.id, { heightAgl: Math.max(0, readNumber(e.target.value, transmitter.heightAgl)) })}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-[10px] text-muted-foreground">Tilt (°)</Label>
+                    <Input
+                      type="number"
+                      step={0.5}
+                      value={transmitter.beamTilt}
+                      onChange={(e) => updateTransmitter(transmitter.id, { beamTilt: readNumber(e.target.value, transmitter.beamTilt) })}
+                      className="h-7 text-xs"
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <div className="grid grid-cols-2 gap-1 flex-1">
+                    <Button
+                      size="sm"
+                      variant={transmitter.azimuth === null ? 'default' : 'outline'}
+                      className="h-7 text-xs"
+                      onClick={() => updateTransmitter(transmitter.id, { azimuth: null })}
+                    >
+                      รอบทิศทาง
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={transmitter.azimuth !== null ? 'default' : 'outline'}
+                      className="h-7 text-xs"
+                      onClick={() => updateTransmitter(transmitter.id, { azimuth: transmitter.azimuth ?? 0 })}
+                    >
+                      กำหนดทิศทาง
+                    </Button>
+                  </div>
+                  {transmitter.azimuth !== null && (
+                    <Input
+                      type="number"
+                      min={0}
+                      max={359}
+                      value={transmitter.azimuth}
+                      onChange={(e) => updateTransmitter(transmitter.id, {
+                        azimuth: ((readNumber(e.target.value, transmitter.azimuth ?? 0) % 360) + 360) % 360,
+                      })}
+                      className="h-7 text-xs w-20"
+                      title="ทิศทางลำคลื่นหลัก (องศาจากทิศเหนือ)"
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Existing stations switched off */}
+          {existingStations.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-sm font-medium">ปิดสถานีเดิม</div>
+              <div className="space-y-1 max-h-28 overflow-y-auto">
+                {existingStations.map((station) => (
+                  <div key={station.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`removed-${station.id}`}
+                      checked={scenario.removedStationIds.includes(station.id)}
+                      onCheckedChange={(checked) => toggleRemovedStation(station.id, checked === true)}
+                    />
+                    <Label htmlFor={`removed-${station.id}`} className="text-xs truncate">{station.name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Separator />
+
+          {/* Analysis */}
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">นับพื้นที่ที่ระดับสัญญาณตั้งแต่</div>
+              <div className="grid grid-cols-5 gap-1">
+                {[...coverageLevels].sort((a, b) => a.value - b.value).map((level) => (
+                  <button
+                    key={level.value}
+                    type="button"
+                    onClick={() => onMinLevelChange(level.value)}
+                    className={`h-7 rounded text-xs font-medium border ${
+                      minLevel === level.value ? 'ring-2 ring-offset-1 ring-indigo-600' : 'opacity-70'
+                    }`}
+                    style={{ backgroundColor: level.color, color: level.value === 5 ? 'white' : 'black' }}
+                    title={level.description}
+                  >
+                    ≥{level.value}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Button size="sm" className="w-full" onClick={onAnalyze} disabled={isAnalyzing || !canAnalyze}>
+              {isAnalyzing ? (
+                <>
+                  <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                  กำลังคาดการณ์...
+                </>
+              ) : (
+                'คาดการณ์และเทียบกับโครงข่ายเดิม'
+              )}
+            </Button>
+
+            {analysisError && (
+              <div className="flex items-center gap-2 text-xs text-destructive">
+                <AlertCircle className="h-3 w-3" />
+                {analysisError}
+              </div>
+            )}
+
+            {analysis && (
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="rounded border border-green-200 bg-green-50 p-2">
+                  <div className="text-green-700">พื้นที่ที่ได้เพิ่ม</div>
+                  <div className="font-semibold text-green-800">+{formatArea(analysis.summary.gainedKm2)}</div>
+                </div>
+                <div className="rounded border border-red-200 bg-red-50 p-2">
+                  <div className="text-red-700">พื้นที่ที่เสียไป</div>
+                  <div className="font-semibold text-red-800">−{formatArea(analysis.summary.lostKm2)}</div>
+                </div>
+                <div className="col-span-2 text-muted-foreground">
+                  ครอบคลุม ≥ ระดับ {analysis.summary.minLevel}: {formatArea(analysis.summary.beforeKm2)} → {formatArea(analysis.summary.afterKm2)}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-2">
+              <Button size="sm" variant="outline" className="text-xs" onClick={onSaveScenario}>
+                <Save className="mr-1 h-3 w-3" />
+                บันทึก
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-xs"
+                onClick={() => downloadScenarioCsv(scenario)}
+                disabled={scenario.transmitters.length === 0}
+              >
+                <Download className="mr-1 h-3 w-3" />
+                CSV
+              </Button>
+              <Button size="sm" variant="outline" className="text-xs" onClick={onNewScenario}>
+                <FilePlus className="mr-1 h-3 w-3" />
+                แผนใหม่
+              </Button>
+            </div>
+          </div>
+
+          {/* Saved scenarios */}
+          {savedScenarios.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2">
+                <div className="text-sm font-medium">แผนที่บันทึกไว้</div>
+                {savedScenarios.map((item) => (
+                  <div
+                    key={item.id}
+                    className={`flex items-center gap-2 p-2 rounded border text-xs ${item.id === scenario.id ? 'border-indigo-300 bg-indigo-50' : ''}`}
+                  >
+                    <button type="button" onClick={() => onLoadScenario(item)} className="flex-1 min-w-0 text-left">
+                      <div className="font-medium truncate">{item.name}</div>
+                      <div className="text-muted-foreground">
+                        {item.transmitters.length} เครื่องส่ง · {new Date(item.updatedAt).toLocaleDateString('th-TH')}
+                      </div>
+                    </button>
+                    <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onDeleteScenario(item.id)}>
+                      <Trash2 className="h-3 w-3 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+
+                {comparedScenarios.length > 1 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs h-8">แผน</TableHead>
+                        <TableHead className="text-xs h-8 text-right">เพิ่ม</TableHead>
+                        <TableHead className="text-xs h-8 text-right">เสีย</TableHead>
+                        <TableHead className="text-xs h-8 text-right">สุทธิ</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {comparedScenarios.map((item) => {
+                        const summary = item.summary!
+                        return (
+                          <TableRow key={item.id}>
+                            <TableCell className="text-xs py-1">
+                              <div className="truncate max-w-[7rem]">{item.name}</div>
+                              <div className="text-[10px] text-muted-foreground">≥ ระดับ {summary.minLevel}</div>
+                            </TableCell>
+                            <TableCell className="text-xs py-1 text-right text-green-700">{formatArea(summary.gainedKm2)}</TableCell>
+                            <TableCell className="text-xs py-1 text-right text-red-700">{formatArea(summary.lostKm2)}</TableCell>
+                            <TableCell className="text-xs py-1 text-right font-medium">
+                              {summary.afterKm2 >= summary.beforeKm2 ? '+' : '−'}{formatArea(Math.abs(summary.afterKm2 - summary.beforeKm2))}
+                            </TableCell>
+                          </TableRow>
+                        )
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
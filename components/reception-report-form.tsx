@@ -0,0 +1,180 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { MessageSquareWarning, Loader2, CheckCircle2, AlertCircle } from "lucide-react"
+import {
+  ANTENNA_LABELS,
+  ANTENNA_TYPES,
+  RATING_COLORS,
+  RATING_LABELS,
+  RECEPTION_RATINGS,
+  submitReceptionReport,
+  type AntennaType,
+  type ReceptionRating
+} from "@/lib/reception-reports"
+import type { Coordinates } from "@/lib/geo-utils"
+import { REPORT_STORE } from "@/constants/reports"
+
+interface ReceptionReportFormProps {
+  location: Coordinates
+  channelSuggestions?: number[] // channels of nearby sites, offered as one-tap choices
+}
+
+export default function ReceptionReportForm({ location, channelSuggestions = [] }: ReceptionReportFormProps) {
+  const [rating, setRating] = useState<ReceptionRating | null>(null)
+  const [antennaType, setAntennaType] = useState<AntennaType>("rooftop")
+  const [channelText, setChannelText] = useState("")
+  const [comment, setComment] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [submittedAt, setSubmittedAt] = useState<string | null>(null)
+
+  // A new location is a new report
+  useEffect(() => {
+    setSubmittedAt(null)
+    setError(null)
+  }, [location.latitude, location.longitude])
+
+  const channel = channelText.trim() === "" ? null : Number.parseInt(channelText, 10)
+  const isChannelValid = channel === null || (Number.isInteger(channel) && channel >= 1 && channel <= 69)
+
+  const handleSubmit = async () => {
+    if (!rating || !isChannelValid) return
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const report = await submitReceptionReport({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        rating,
+        antennaType,
+        channel,
+        comment: comment.trim(),
+      })
+      setSubmittedAt(report.createdAt)
+      setRating(null)
+      setComment("")
+    } catch (err) {
+      console.error('Failed to submit reception report:', err)
+      setError(err instanceof Error ? err.message : 'ส่งรายงานไม่สำเร็จ')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <MessageSquareWarning className="h-4 w-4 text-rose-600" />
+        <span className="font-semibold text-sm">แจ้งผลการรับสัญญาณ / Report Reception</span>
+      </div>
+
+      {submittedAt ? (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <CheckCircle2 className="h-4 w-4" />
+            ขอบคุณ ได้รับรายงานแล้ว
+          </div>
+          <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={() => setSubmittedAt(null)}>
+            แจ้งอีกครั้ง
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-1">
+            {RECEPTION_RATINGS.map((value) => (
+              <Button
+                key={value}
+                variant={rating === value ? 'default' : 'outline'}
+                size="sm"
+                className="h-auto min-h-7 py-1 text-xs whitespace-normal"
+                style={rating === value ? { backgroundColor: RATING_COLORS[value] } : undefined}
+                onClick={() => setRating(value)}
+              >
+                {RATING_LABELS[value]}
+              </Button>
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-[10px] text-muted-foreground">ชนิดสายอากาศ</Label>
+            <div className="grid grid-cols-2 gap-1">
+              {ANTENNA_TYPES.map((value) => (
+                <Button
+                  key={value}
+                  variant={antennaType === value ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setAntennaType(value)}
+                >
+                  {ANTENNA_LABELS[value]}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="reception-report-channel" className="text-[10px] text-muted-foreground">
+              ช่องสัญญาณ (ถ้าทราบ)
+            </Label>
+            <div className="flex gap-1">
+              <Input
+                id="reception-report-channel"
+                type="number"
+                min={1}
+                max={69}
+                value={channelText}
+                placeholder="เช่น 34"
+                onChange={(e) => setChannelText(e.target.value)}
+                className="h-7 text-xs w-20"
+              />
+              {channelSuggestions.map((suggestion) => (
+                <Button
+                  key={suggestion}
+                  variant={channel === suggestion ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setChannelText(String(suggestion))}
+                >
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <Textarea
+            value={comment}
+            maxLength={REPORT_STORE.MAX_COMMENT_LENGTH}
+            placeholder="รายละเอียดเพิ่มเติม เช่น ช่วงเวลาที่รับไม่ได้"
+            onChange={(e) => setComment(e.target.value)}
+            className="min-h-[60px] text-xs"
+          />
+
+          {error && (
+            <div className="text-xs text-destructive inline-flex items-center">
+              <AlertCircle className="h-3 w-3 mr-1.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <Button
+            size="sm"
+            className="w-full h-8 text-xs"
+            onClick={handleSubmit}
+            disabled={!rating || !isChannelValid || isSubmitting}
+          >
+            {isSubmitting && <Loader2 className="mr-1.5 h-3 w-3 animate-spin" />}
+            ส่งรายงาน
+          </Button>
+          <p className="text-[10px] text-muted-foreground">
+            ตำแหน่ง {location.latitude.toFixed(4)}, {location.longitude.toFixed(4)} จะถูกบันทึกพร้อมรายงาน
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
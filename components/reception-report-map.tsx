@@ -0,0 +1,135 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import {
+  ANTENNA_LABELS,
+  RATING_COLORS,
+  RATING_LABELS,
+  type ReceptionReport
+} from "@/lib/reception-reports"
+import { buildReportHeatLayer } from "@/lib/report-heat-map"
+import { escapeHtml } from "@/lib/utils"
+
+interface ReceptionReportMapProps {
+  reports: ReceptionReport[]
+  showHeatMap: boolean
+  showMarkers: boolean
+}
+
+// Thailand, until reports are loaded
+const DEFAULT_CENTER: [number, number] = [13.7563, 100.5018]
+
+function buildReportPopup(report: ReceptionReport): string {
+  return `
+    <div style="min-width: 180px; font-size: 12px;">
+      <div style="font-weight: 600; color: ${RATING_COLORS[report.rating]};">${escapeHtml(RATING_LABELS[report.rating])}</div>
+      <div style="color: #666;">${escapeHtml(new Date(report.createdAt).toLocaleString('th-TH'))}</div>
+      <div>${escapeHtml(ANTENNA_LABELS[report.antennaType])}${report.channel ? ` · ช่อง ${report.channel}` : ''}</div>
+      ${report.comment ? `<div style="margin-top: 4px; white-space: pre-wrap;">${escapeHtml(report.comment)}</div>` : ''}
+      <div style="margin-top: 4px; color: #999; font-family: monospace;">${report.latitude.toFixed(5)}, ${report.longitude.toFixed(5)}</div>
+    </div>
+  `
+}
+
+export default function ReceptionReportMap({ reports, showHeatMap, showMarkers }: ReceptionReportMapProps) {
+  const mapRef = useRef<HTMLDivElement>(null)
+  const mapInstanceRef = useRef<any>(null)
+  const heatLayerRef = useRef<any>(null)
+  const markerLayerRef = useRef<any>(null)
+  const [isMapReady, setIsMapReady] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const initMap = async () => {
+      const L = await import("leaflet")
+      if (cancelled || !mapRef.current || mapInstanceRef.current) return
+
+      const map = L.map(mapRef.current, { center: DEFAULT_CENTER, zoom: 6 })
+      L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+        attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+        maxZoom: 19,
+      }).addTo(map)
+      mapInstanceRef.current = map
+      setIsMapReady(true)
+    }
+
+    initMap()
+
+    return () => {
+      cancelled = true
+      mapInstanceRef.current?.remove()
+      mapInstanceRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current) return
+
+    const map = mapInstanceRef.current
+    let cancelled = false
+
+    const drawReports = async () => {
+      const L = await import("leaflet")
+      if (cancelled) return
+
+      if (heatLayerRef.current) {
+        map.removeLayer(heatLayerRef.current)
+        heatLayerRef.current = null
+      }
+      if (markerLayerRef.current) {
+        map.removeLayer(markerLayerRef.current)
+        markerLayerRef.current = null
+      }
+      if (reports.length === 0) return
+
+      if (showHeatMap) {
+        const heat = buildReportHeatLayer(reports)
+        if (heat) {
+          heatLayerRef.current = L.imageOverlay(heat.imageUrl, heat.bounds, { interactive: false, className: 'report-heat-overlay' }).addTo(map)
+        }
+      }
+
+      if (showMarkers) {
+        const renderer = L.canvas({ padding: 0.5 })
+        const group = L.layerGroup()
+        reports.forEach((report) => {
+          L.circleMarker([report.latitude, report.longitude], {
+            renderer,
+            radius: 5,
+            color: '#ffffff',
+            weight: 1,
+            fillColor: RATING_COLORS[report.rating],
+            fillOpacity: 0.9,
+          })
+            .bindPopup(buildReportPopup(report))
+            .addTo(group)
+        })
+        markerLayerRef.current = group.addTo(map)
+      }
+    }
+
+    drawReports()
+
+    return () => {
+      cancelled = true
+    }
+  }, [isMapReady, reports, showHeatMap, showMarkers])
+
+  // Frame the reports whenever the filtered set changes
+  useEffect(() => {
+    if (!isMapReady || !mapInstanceRef.current || reports.length === 0) return
+
+    const fitReports = async () => {
+      const L = await import("leaflet")
+      mapInstanceRef.current?.fitBounds(
+        L.latLngBounds(reports.map((report) => [report.latitude, report.longitude] as [number, number])),
+        { padding: [40, 40], maxZoom: 13 }
+      )
+    }
+
+    fitReports()
+  }, [isMapReady, reports])
+
+  return <div ref={mapRef} className="h-full w-full" />
+}
@@ -0,0 +1,70 @@
+"use client"
+
+import { Area, AreaChart, CartesianGrid, ReferenceArea, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { cn } from "@/lib/utils"
+import type { RouteProfile } from "@/lib/route-coverage"
+import { ROUTE_PROFILE } from "@/constants/route"
+
+interface RouteCoverageChartProps {
+  profile: RouteProfile
+  className?: string
+}
+
+const chartConfig = {
+  level: { label: "ระดับสัญญาณ", color: ROUTE_PROFILE.ROUTE_COLOR },
+} satisfies ChartConfig
+
+export default function RouteCoverageChart({ profile, className }: RouteCoverageChartProps) {
+  const data = profile.samples.map((sample) => ({
+    distance: Number(sample.distanceKm.toFixed(2)),
+    level: sample.level,
+    station: sample.station?.name ?? "ไม่มีสัญญาณ",
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto w-full h-40", className)}>
+      <AreaChart data={data} margin={{ left: 0, right: 8, top: 4 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="distance"
+          type="number"
+          domain={[0, "dataMax"]}
+          tickLine={false}
+          axisLine={false}
+          unit=" km"
+          tickFormatter={(value: number) => value.toFixed(0)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={24} domain={[0, 5]} ticks={[0, 1, 2, 3, 4, 5]} allowDecimals={false} />
+        {profile.gaps.map((gap) => (
+          <ReferenceArea
+            key={gap.startKm}
+            x1={gap.startKm}
+            x2={gap.endKm}
+            fill={ROUTE_PROFILE.GAP_COLOR}
+            fillOpacity={0.15}
+            ifOverflow="extendDomain"
+          />
+        ))}
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const item = payload?.[0]?.payload
+                return item ? `${item.distance} km · ${item.station}` : ""
+              }}
+            />
+          }
+        />
+        <Area
+          dataKey="level"
+          type="stepAfter"
+          fill="var(--color-level)"
+          fillOpacity={0.3}
+          stroke="var(--color-level)"
+          isAnimationActive={false}
+        />
+      </AreaChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,259 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { Route, Loader2, AlertCircle, X, Upload, PenLine, Check, Undo2, Trash2, Navigation } from "lucide-react"
+import RouteCoverageChart from "@/components/route-coverage-chart"
+import { coverageLevels } from "@/data/coveragelevel"
+import { formatDistance } from "@/lib/geo-utils"
+import { importRouteFile, type RouteGap, type RouteProfile, type RouteTrack } from "@/lib/route-coverage"
+
+interface RouteProfilePanelProps {
+  isOpen: boolean
+  onClose: () => void
+  track: RouteTrack | null
+  onTrackChange: (track: RouteTrack | null) => void
+  isDrawing: boolean
+  drawnPointCount: number
+  onStartDrawing: () => void
+  onFinishDrawing: () => void
+  onUndoPoint: () => void
+  stepKm: number
+  onStepKmChange: (stepKm: number) => void
+  minLevel: number
+  onMinLevelChange: (level: number) => void
+  onAnalyze: () => void
+  isAnalyzing: boolean
+  analysisError: string | null
+  profile: RouteProfile | null
+  onSelectGap: (gap: RouteGap) => void
+}
+
+// Parse a numeric input, keeping the previous value while the field is being edited
+function readNumber(value: string, fallback: number): number {
+  const number = Number.parseFloat(value)
+  return Number.isFinite(number) ? number : fallback
+}
+
+export default function RouteProfilePanel({
+  isOpen,
+  onClose,
+  track,
+  onTrackChange,
+  isDrawing,
+  drawnPointCount,
+  onStartDrawing,
+  onFinishDrawing,
+  onUndoPoint,
+  stepKm,
+  onStepKmChange,
+  minLevel,
+  onMinLevelChange,
+  onAnalyze,
+  isAnalyzing,
+  analysisError,
+  profile,
+  onSelectGap,
+}: RouteProfilePanelProps) {
+  const isMobile = useIsMobile()
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  if (!isOpen) return null
+
+  const handleFile = async (files: FileList | null) => {
+    const file = files?.[0]
+    if (!file) return
+    setIsImporting(true)
+    setImportError(null)
+    try {
+      onTrackChange(await importRouteFile(file))
+    } catch (err) {
+      console.error('Route import failed:', err)
+      setImportError(err instanceof Error ? err.message : 'นำเข้าเส้นทางไม่สำเร็จ')
+    } finally {
+      setIsImporting(false)
+      if (inputRef.current) inputRef.current.value = ''
+    }
+  }
+
+  const error = importError ?? analysisError
+
+  return (
+    <div className={`absolute z-[1000] ${
+      isMobile
+        ? 'top-20 left-2 right-2 max-h-[60vh] flex flex-col'
+        : 'top-36 right-4 w-96 max-h-[calc(100%-13rem)] flex flex-col'
+    }`}>
+      <Card className="shadow-lg border-0 bg-white/95 backdrop-blur-sm flex flex-col min-h-0">
+        <CardHeader className="pb-3">
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Route className="h-4 w-4 text-blue-600" />
+              สัญญาณตามเส้นทาง
+            </CardTitle>
+            <Button variant="ghost" size="sm" onClick={onClose} className="h-7 w-7 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <CardDescription className="text-xs">
+            นำเข้า GPX/KML หรือคลิกบนแผนที่เพื่อวาดเส้นทาง เช่น ทางหลวงหรือทางรถไฟ
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          {/* Route source */}
+          <div className="space-y-2">
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".gpx,.kml,.kmz,application/gpx+xml,application/vnd.google-earth.kml+xml,application/vnd.google-earth.kmz"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files)}
+            />
+            {isDrawing ? (
+              <div className="space-y-2">
+                <p className="text-xs text-blue-700">คลิกบนแผนที่เพื่อเพิ่มจุด ({drawnPointCount} จุด)</p>
+                <div className="flex gap-1">
+                  <Button size="sm" className="h-7 text-xs flex-1" onClick={onFinishDrawing} disabled={drawnPointCount < 2}>
+                    <Check className="mr-1.5 h-3 w-3" />
+                    เสร็จ
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onUndoPoint} disabled={drawnPointCount === 0}>
+                    <Undo2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-1">
+                <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => inputRef.current?.click()} disabled={isImporting}>
+                  {isImporting ? <Loader2 className="mr-1.5 h-3 w-3 animate-spin" /> : <Upload className="mr-1.5 h-3 w-3" />}
+                  GPX / KML
+                </Button>
+                <Button variant="outline" size="sm" className="h-8 text-xs" onClick={onStartDrawing}>
+                  <PenLine className="mr-1.5 h-3 w-3" />
+                  วาดเส้นทาง
+                </Button>
+              </div>
+            )}
+
+            {track && !isDrawing && (
+              <div className="flex items-center justify-between gap-2 rounded border p-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{track.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDistance(track.lengthKm)} · {track.path.length} จุด
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0 flex-shrink-0" onClick={() => onTrackChange(null)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
+          {/* Analysis settings */}
+          <div className="space-y-3">
+            <div className="grid grid-cols-[auto_1fr] items-center gap-2">
+              <Label htmlFor="route-step" className="text-xs text-muted-foreground">ระยะสุ่มตัวอย่าง (km)</Label>
+              <Input
+                id="route-step"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={stepKm}
+                onChange={(e) => onStepKmChange(Math.max(0.1, readNumber(e.target.value, stepKm)))}
+                className="h-7 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <div className="text-xs text-muted-foreground">ถือว่าไม่มีสัญญาณเมื่อต่ำกว่า</div>
+              <div className="grid grid-cols-5 gap-1">
+                {[...coverageLevels].sort((a, b) => a.value - b.value).map((level) => (
+                  <button
+                    key={level.value}
+                    type="button"
+                    onClick={() => onMinLevelChange(level.value)}
+                    className={`h-7 rounded text-xs font-medium border ${
+                      minLevel === level.value ? 'ring-2 ring-offset-1 ring-blue-600' : 'opacity-70'
+                    }`}
+                    style={{ backgroundColor: level.color, color: level.value === 5 ? 'white' : 'black' }}
+                    title={level.description}
+                  >
+                    {level.value === 1 ? 'ไม่มี' : `<${level.value}`}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <Button size="sm" className="w-full" onClick={onAnalyze} disabled={isAnalyzing || !track || isDrawing}>
+              {isAnalyzing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  กำลังอ่านระดับสัญญาณ...
+                </>
+              ) : (
+                'วิเคราะห์เส้นทาง'
+              )}
+            </Button>
+
+            {error && (
+              <div className="text-xs text-destructive inline-flex items-center">
+                <AlertCircle className="h-3 w-3 mr-1.5 flex-shrink-0" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+
+          {/* Results */}
+          {profile && (
+            <div className="space-y-3">
+              <RouteCoverageChart profile={profile} />
+              <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="rounded bg-green-50 p-2">
+                  <div className="text-muted-foreground">มีสัญญาณ</div>
+                  <div className="font-semibold">
+                    {formatDistance(profile.lengthKm - profile.gapKm)} ({Math.round((1 - profile.gapKm / Math.max(profile.lengthKm, 1e-9)) * 100)}%)
+                  </div>
+                </div>
+                <div className="rounded bg-red-50 p-2">
+                  <div className="text-muted-foreground">ช่วงที่ขาด ({profile.gaps.length})</div>
+                  <div className="font-semibold">{formatDistance(profile.gapKm)}</div>
+                </div>
+              </div>
+              {profile.gaps.length > 0 && (
+                <div className="space-y-1">
+                  {profile.gaps.map((gap) => (
+                    <button
+                      key={gap.startKm}
+                      type="button"
+                      onClick={() => onSelectGap(gap)}
+                      className="w-full flex items-center justify-between gap-2 rounded border px-2 py-1 text-xs hover:bg-muted/50"
+                    >
+                      <span>กม. {gap.startKm.toFixed(1)} – {gap.endKm.toFixed(1)}</span>
+                      <span className="flex items-center gap-1 text-muted-foreground">
+                        {formatDistance(gap.endKm - gap.startKm)}
+                        <Navigation className="h-3 w-3" />
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              <p className="text-[10px] text-muted-foreground">
+                สุ่มทุก {profile.stepKm.toFixed(2)} km จากภาพพื้นที่ครอบคลุมของทุกสถานีที่โหลดไว้
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
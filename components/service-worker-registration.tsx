@@ -0,0 +1,13 @@
+"use client"
+
+import { useEffect } from "react"
+import { registerServiceWorker } from "@/lib/offline-cache"
+
+// Registers the offline service worker once the page has loaded
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker()
+  }, [])
+
+  return null
+}
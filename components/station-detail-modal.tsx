@@ -0,0 +1,241 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Card } from "@/components/ui/card"
+import { Separator } from "@/components/ui/separator"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { useIsMobile } from "@/hooks/use-mobile"
+import { useCoverageStats } from "@/hooks/use-coverage-stats"
+import CoverageAreaChart from "@/components/coverage-area-chart"
+import { coverageLevels } from "@/data/coveragelevel"
+import { formatArea, getAreaAtOrAbove } from "@/lib/coverage-stats"
+import { downloadStationContours } from "@/lib/coverage-contours"
+import type { Station } from "@/types/map"
+import { MapPin, Loader2, AlertCircle, Layers, Maximize2, Download, Spline } from "lucide-react"
+
+interface StationDetailModalProps {
+  station: Station | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  showContours?: boolean
+  onShowContoursChange?: (show: boolean) => void
+}
+
+// Level used for the management "area served" figure
+const SERVED_LEVEL_THRESHOLD = 3
+
+export default function StationDetailModal({
+  station,
+  open,
+  onOpenChange,
+  showContours = false,
+  onShowContoursChange,
+}: StationDetailModalProps) {
+  const isMobile = useIsMobile()
+  const { stats, loadingIds, errors, computeStats } = useCoverageStats()
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (open && station) {
+      computeStats([station])
+    }
+  }, [open, station, computeStats])
+
+  if (!station) return null
+
+  const stationStats = stats[station.id]
+  const isLoading = loadingIds.has(station.id)
+  const error = errors[station.id]
+  const [[south, west], [north, east]] = station.bounds
+
+  const handleDownloadContours = async () => {
+    setIsExporting(true)
+    setExportError(null)
+    try {
+      await downloadStationContours(station)
+    } catch (err) {
+      console.error('Failed to export coverage contours:', err)
+      setExportError('ไม่สามารถสร้างเส้นขอบพื้นที่ครอบคลุมได้')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const DetailContent = () => (
+    <ScrollArea className="h-full">
+      <div className="space-y-3 pr-4">
+        {/* Station Header */}
+        <div className="flex items-start justify-between flex-wrap gap-2">
+          <div>
+            <h2 className="text-lg md:text-xl font-bold text-gray-900 leading-tight">{station.name}</h2>
+            <p className="text-xs text-gray-600 mt-1">ID: {station.id}</p>
+          </div>
+          <Badge variant={station.visible ? "default" : "secondary"} className="text-xs">
+            {station.visible ? "แสดงบนแผนที่" : "ซ่อนอยู่"}
+          </Badge>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <MapPin className="h-3 w-3" />
+          <span className="font-mono">
+            {south.toFixed(4)}, {west.toFixed(4)} → {north.toFixed(4)}, {east.toFixed(4)}
+          </span>
+        </div>
+
+        <Separator />
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-6 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            กำลังคำนวณพื้นที่ครอบคลุม...
+          </div>
+        )}
+
+        {error && !isLoading && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        {stationStats && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2">
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Layers className="h-3 w-3 text-green-600" />
+                  <p className="text-xs text-gray-500">ระดับ ≥{SERVED_LEVEL_THRESHOLD}</p>
+                </div>
+                <p className="font-semibold text-sm">
+                  {formatArea(getAreaAtOrAbove(stationStats, SERVED_LEVEL_THRESHOLD))}
+                </p>
+              </Card>
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Layers className="h-3 w-3 text-blue-600" />
+                  <p className="text-xs text-gray-500">ครอบคลุมทั้งหมด</p>
+                </div>
+                <p className="font-semibold text-sm">{formatArea(stationStats.coveredKm2)}</p>
+              </Card>
+              <Card className="p-2">
+                <div className="flex items-center gap-1">
+                  <Maximize2 className="h-3 w-3 text-gray-600" />
+                  <p className="text-xs text-gray-500">พื้นที่กรอบภาพ</p>
+                </div>
+                <p className="font-semibold text-sm">{formatArea(stationStats.boundsKm2)}</p>
+              </Card>
+            </div>
+
+            {/* Area per level */}
+            <div className="space-y-1.5">
+              {coverageLevels.map((level) => {
+                const area = stationStats.levelAreas[level.value] || 0
+                const share = stationStats.coveredKm2 > 0 ? (area / stationStats.coveredKm2) * 100 : 0
+                return (
+                  <div key={level.value} className="flex items-center gap-2 text-xs">
+                    <div
+                      className="h-3 w-3 rounded-sm border border-gray-300 flex-shrink-0"
+                      style={{ backgroundColor: level.color }}
+                    />
+                    <span className="w-14 font-medium">{level.level}</span>
+                    <span className="flex-1 text-gray-600 truncate">{level.description}</span>
+                    <span className="font-mono">{formatArea(area)}</span>
+                    <span className="w-12 text-right text-gray-500">{share.toFixed(1)}%</span>
+                  </div>
+                )
+              })}
+            </div>
+
+            <CoverageAreaChart stations={[station]} stats={stats} />
+          </>
+        )}
+
+        <Separator />
+
+        {/* Level contours (vector) */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Spline className="h-4 w-4 text-blue-600" />
+            <h3 className="text-sm font-semibold">เส้นขอบระดับสัญญาณ (GeoJSON)</h3>
+          </div>
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            {onShowContoursChange && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id={`contours-${station.id}`}
+                  checked={showContours}
+                  onCheckedChange={onShowContoursChange}
+                />
+                <Label htmlFor={`contours-${station.id}`} className="text-xs">
+                  แสดงเส้นขอบบนแผนที่
+                </Label>
+              </div>
+            )}
+            <Button size="sm" variant="outline" onClick={handleDownloadContours} disabled={isExporting}>
+              {isExporting ? (
+                <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-3 w-3" />
+              )}
+              ดาวน์โหลด .geojson
+            </Button>
+          </div>
+          {exportError && (
+            <div className="flex items-center gap-2 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3" />
+              {exportError}
+            </div>
+          )}
+        </div>
+      </div>
+    </ScrollArea>
+  )
+
+  // Mobile bottom sheet
+  if (isMobile) {
+    return (
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side="bottom" className="h-[60vh] rounded-t-xl border-t-0 p-0">
+          <div className="sticky top-0 z-10 bg-white border-b px-4 py-3">
+            <SheetHeader>
+              <SheetTitle className="text-left text-base">รายละเอียดพื้นที่ครอบคลุม</SheetTitle>
+              <SheetDescription className="text-left text-sm">
+                พื้นที่ให้บริการแยกตามระดับสัญญาณ (km²)
+              </SheetDescription>
+            </SheetHeader>
+          </div>
+          <div className="px-4 py-3 flex-1 overflow-hidden">
+            <DetailContent />
+          </div>
+        </SheetContent>
+      </Sheet>
+    )
+  }
+
+  // Desktop center dialog
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[80vh] p-0">
+        <div className="sticky top-0 z-10 bg-white border-b px-6 py-4">
+          <DialogHeader>
+            <DialogTitle className="text-lg">รายละเอียดพื้นที่ครอบคลุม</DialogTitle>
+            <DialogDescription className="text-sm">
+              พื้นที่ให้บริการแยกตามระดับสัญญาณ (km²)
+            </DialogDescription>
+          </DialogHeader>
+        </div>
+        <div className="px-6 py-4 flex-1 overflow-hidden">
+          <DetailContent />
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,26 +7,42 @@ import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Loader2, AlertTriangle } from "lucide-react"
+import { Loader2, AlertTriangle, BarChart3 } from "lucide-react"
 import type { Station } from "@/types/map"
 import { Radio, RadioGroup } from "@/components/ui/radio-group"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { isMobile, getRecommendedSettings } from "@/utils/deviceDetection"
 import { WARNING_THRESHOLDS } from "@/constants/performance"
+import StationDetailModal from "@/components/station-detail-modal"
+import CoverageAreaChart from "@/components/coverage-area-chart"
+import KmzExportButton from "@/components/kmz-export-button"
+import { useCoverageStats } from "@/hooks/use-coverage-stats"
+import { formatArea, getAreaAtOrAbove } from "@/lib/coverage-stats"
 
 interface StationSelectorProps {
   stations: Station[]
   onStationChange: (stations: Station[]) => void
   onCompareStations?: (stationIds: string[]) => void
   isLoading?: boolean
+  contourStationIds?: string[]
+  onToggleContours?: (stationId: string, show: boolean) => void
 }
 
-export default function StationSelector({ stations, onStationChange, onCompareStations, isLoading }: StationSelectorProps) {
+export default function StationSelector({
+  stations,
+  onStationChange,
+  onCompareStations,
+  isLoading,
+  contourStationIds = [],
+  onToggleContours,
+}: StationSelectorProps) {
   const [selectedStations, setSelectedStations] = useState<Station[]>(stations || [])
   const [compareMode, setCompareMode] = useState(false)
   const [compareStation1, setCompareStation1] = useState<string>(stations?.[0]?.id || "")
   const [compareStation2, setCompareStation2] = useState<string>(stations?.[1]?.id || "")
   const [showMobileWarning, setShowMobileWarning] = useState(false)
+  const [detailStation, setDetailStation] = useState<Station | null>(null)
+  const { stats: coverageStats, loadingIds: statsLoadingIds, computeStats } = useCoverageStats()
   
   // Device detection and performance settings
   const deviceIsMobile = isMobile()
@@ -139,6 +155,8 @@ export default function StationSelector({ stations, onStationChange, onCompareSt
     }
   }
 
+  const statsStations = selectedStations.filter(station => station.visible)
+
   // Show loading state if stations data is not available
   if (!stations || stations.length === 0) {
     return (
@@ -162,9 +180,10 @@ export default function StationSelector({ stations, onStationChange, onCompareSt
       </CardHeader>
       <CardContent className="px-4 py-0">
         <Tabs defaultValue="all">
-          <TabsList className="grid w-full grid-cols-2 mb-4">
+          <TabsList className="grid w-full grid-cols-3 mb-4">
             <TabsTrigger value="all">แสดงทั้งหมด</TabsTrigger>
             <TabsTrigger value="compare">เปรียบเทียบ</TabsTrigger>
+            <TabsTrigger value="stats">สถิติ</TabsTrigger>
           </TabsList>
 
           <TabsContent value="all" className="space-y-4">
@@ -243,12 +262,27 @@ export default function StationSelector({ stations, onStationChange, onCompareSt
                     checked={station.visible}
                     onCheckedChange={(checked) => handleStationToggle(station.id, !!checked)}
                   />
-                  <Label htmlFor={`station-${station.id}`} className="text-sm">
+                  <Label htmlFor={`station-${station.id}`} className="text-sm flex-1">
                     {station.name}
                   </Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDetailStation(station)}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    title="ดูพื้นที่ครอบคลุม"
+                  >
+                    <BarChart3 className="h-3 w-3" />
+                  </Button>
                 </div>
               ))}
             </div>
+
+            <KmzExportButton
+              documentName="SkyView coverage"
+              fileName="skyview-coverage.kmz"
+              stations={statsStations}
+            />
           </TabsContent>
 
           <TabsContent value="compare" className="space-y-4">
@@ -301,8 +335,58 @@ export default function StationSelector({ stations, onStationChange, onCompareSt
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="stats" className="space-y-4">
+            {statsStations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                เลือกสถานีที่แสดงบนแผนที่เพื่อคำนวณพื้นที่ครอบคลุมแยกตามระดับสัญญาณ
+              </p>
+            ) : (
+              <>
+                <Button
+                  onClick={() => computeStats(statsStations)}
+                  className="w-full"
+                  disabled={statsLoadingIds.size > 0}
+                >
+                  {statsLoadingIds.size > 0 ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      กำลังคำนวณ ({statsLoadingIds.size})...
+                    </>
+                  ) : (
+                    `คำนวณพื้นที่ (${statsStations.length} สถานี)`
+                  )}
+                </Button>
+
+                <CoverageAreaChart stations={statsStations} stats={coverageStats} />
+
+                <div className="space-y-1">
+                  {statsStations.filter(station => coverageStats[station.id]).map((station) => (
+                    <div key={station.id} className="flex items-center justify-between text-xs">
+                      <span className="truncate">{station.name}</span>
+                      <span className="font-mono text-muted-foreground">
+                        ≥ระดับ 3: {formatArea(getAreaAtOrAbove(coverageStats[station.id], 3))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </TabsContent>
         </Tabs>
       </CardContent>
+
+      <StationDetailModal
+        station={detailStation}
+        open={!!detailStation}
+        onOpenChange={(open) => !open && setDetailStation(null)}
+        showContours={!!detailStation && contourStationIds.includes(detailStation.id)}
+        onShowContoursChange={
+          onToggleContours && detailStation
+            ? (show) => onToggleContours(detailStation.id, show)
+            : undefined
+        }
+      />
     </Card>
   )
 }
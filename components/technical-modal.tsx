@@ -5,22 +5,40 @@ import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Separator } from "@/components/ui/separator"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Button } from "@/components/ui/button"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useAntennaCatalogue } from "@/hooks/use-antenna-catalogue"
+import AntennaPolarPlot from "@/components/antenna-polar-plot"
+import LinkBudgetPanel from "@/components/link-budget-panel"
+import { findSitePattern, getSiteAntennaKeys } from "@/lib/antenna-catalogue"
+import { formatHrp } from "@/lib/antenna-patterns"
+import { getAntennaPattern, horizontalPatternLoss, parseBeamTilt, verticalPatternLoss } from "@/lib/propagation"
+import type { Coordinates } from "@/lib/geo-utils"
 import type { TechnicalData } from "@/types/map"
-import { MapPin, Radio, Antenna, Building, User, Settings, Zap, Signal } from "lucide-react"
+import { MapPin, Radio, Antenna, Building, User, Settings, Zap, Signal, Radar, Loader2 } from "lucide-react"
 
 interface TechnicalModalProps {
   data: TechnicalData | null
   open: boolean
   onOpenChange: (open: boolean) => void
   position?: 'center' | 'bottom' | 'auto' // Enhanced position options
+  onPredictCoverage?: () => void
+  isPredicting?: boolean
+  receiverLocation?: Coordinates | null // current location for the link budget, otherwise typed in
 }
 
-export default function TechnicalModal({ data, open, onOpenChange, position = 'auto' }: TechnicalModalProps) {
+export default function TechnicalModal({ data, open, onOpenChange, position = 'auto', onPredictCoverage, isPredicting = false, receiverLocation = null }: TechnicalModalProps) {
   const isMobile = useIsMobile()
+  const { catalogue } = useAntennaCatalogue()
   
   if (!data) return null
 
+  // Pattern used by prediction and line of sight, shown in true bearings
+  const linkedPattern = findSitePattern(data, catalogue)
+  const antennaPattern = getAntennaPattern(data, linkedPattern)
+  const horizontalPlot = Array.from({ length: 360 }, (_, bearing) => horizontalPatternLoss(antennaPattern, bearing))
+  const verticalPlot = Array.from({ length: 360 }, (_, angle) => verticalPatternLoss(antennaPattern, angle))
+
   // Auto-detect best position based on device
   const effectivePosition = position === 'auto' ? (isMobile ? 'bottom' : 'center') : position
 
@@ -52,6 +70,20 @@ export default function TechnicalModal({ data, open, onOpenChange, position = 'a
             <MapPin className="h-3 w-3" />
             <span>{data.location}</span>
           </div>
+
+          {onPredictCoverage && (
+            <div className="flex items-center gap-2">
+              <Button size="sm" variant="outline" onClick={onPredictCoverage} disabled={isPredicting}>
+                {isPredicting ? (
+                  <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                ) : (
+                  <Radar className="h-3 w-3 mr-2" />
+                )}
+                คาดการณ์พื้นที่ครอบคลุม
+              </Button>
+              <span className="text-xs text-gray-500">Okumura-Hata จาก ERP ความสูง และทิศทางสายอากาศ</span>
+            </div>
+          )}
         </div>
 
         <Separator />
@@ -181,6 +213,55 @@ export default function TechnicalModal({ data, open, onOpenChange, position = 'a
               </div>
             </CardContent>
           </Card>
+
+          {/* Antenna Pattern */}
+          <Card className="md:col-span-2">
+            <CardHeader className="pb-1 pt-2">
+              <CardTitle className="text-sm flex items-center gap-1">
+                <Signal className="h-3 w-3" />
+                รูปแบบการแผ่คลื่นสายอากาศ
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="pb-2 space-y-2">
+              <div className="grid gap-1.5 md:grid-cols-3">
+                <div>
+                  <p className="text-xs font-medium text-gray-700">ทิศทางลำคลื่น (HRP)</p>
+                  <p className="text-xs text-gray-600 mt-0.5">{formatHrp(antennaPattern.azimuths)}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-700">รูปแบบสายอากาศ</p>
+                  <p className="text-xs text-gray-600 mt-0.5">
+                    {linkedPattern
+                      ? `${linkedPattern.make ? `${linkedPattern.make} ` : ''}${linkedPattern.name} (${linkedPattern.gainDbi.toFixed(1)} dBi)`
+                      : 'รูปแบบทั่วไป (ยังไม่ได้เชื่อมกับแคตตาล็อก)'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-700">Beam Tilt</p>
+                  <p className="text-xs text-gray-600 mt-0.5">{parseBeamTilt(data.beamTilt).toFixed(1)}°</p>
+                </div>
+              </div>
+              {!linkedPattern && getSiteAntennaKeys(data).length > 0 && (
+                <p className="text-[10px] text-gray-500">
+                  เชื่อมรูปแบบได้ที่แท็บ Layers ด้วยรหัส {getSiteAntennaKeys(data).join(', ')}
+                </p>
+              )}
+              <div className="flex flex-wrap justify-center gap-4">
+                <AntennaPolarPlot
+                  values={horizontalPlot}
+                  orientation="horizontal"
+                  beams={antennaPattern.azimuths}
+                  label="แนวนอน (HRP)"
+                />
+                <AntennaPolarPlot values={verticalPlot} orientation="vertical" label="แนวตั้ง (VRP)" />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Link Budget */}
+          <div className="md:col-span-2">
+            <LinkBudgetPanel site={data} receiver={receiverLocation} />
+          </div>
         </div>
       </div>
     </ScrollArea>
@@ -7,15 +7,17 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Search, MapPin, Zap, Building2, X } from "lucide-react"
 import { cn } from "@/lib/utils"
+import KmzExportButton from "@/components/kmz-export-button"
 import type { TechnicalData } from "@/types/map"
 
 interface TechnicalSearchProps {
   technicalData: TechnicalData[]
   onLocationSelect: (data: TechnicalData) => void
+  onOpen?: () => void // e.g. to load sites beyond the viewport before searching
   className?: string
 }
 
-export default function TechnicalSearch({ technicalData, onLocationSelect, className }: TechnicalSearchProps) {
+export default function TechnicalSearch({ technicalData, onLocationSelect, onOpen, className }: TechnicalSearchProps) {
   const [open, setOpen] = useState(false)
   const [searchValue, setSearchValue] = useState("")
   const [selectedItems, setSelectedItems] = useState<TechnicalData[]>([])
@@ -245,7 +247,13 @@ export default function TechnicalSearch({ technicalData, onLocationSelect, class
   return (
     <div className={cn("w-full max-w-md", className)}>
       {/* Search Input */}
-      <Popover open={open} onOpenChange={setOpen}>
+      <Popover
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen)
+          if (nextOpen) onOpen?.()
+        }}
+      >
         <PopoverTrigger asChild>
           <Button
             variant="outline"
@@ -444,6 +452,13 @@ export default function TechnicalSearch({ technicalData, onLocationSelect, class
               </div>
             ))}
           </div>
+
+          <KmzExportButton
+            documentName="SkyView technical sites"
+            fileName="skyview-sites.kmz"
+            technicalSites={selectedItems}
+            className="mt-2"
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,73 @@
+"use client"
+
+import { Area, ComposedChart, CartesianGrid, Line, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { cn } from "@/lib/utils"
+import { LINE_OF_SIGHT_COLORS, type LineOfSightResult } from "@/lib/terrain-profile"
+
+interface TerrainProfileChartProps {
+  result: LineOfSightResult
+  className?: string
+}
+
+// Terrain includes earth curvature so the straight ray can be drawn as a straight line
+const baseConfig = {
+  terrain: { label: "ภูมิประเทศ (รวมความโค้งโลก)", color: "#a16207" },
+  fresnelLower: { label: "ขอบล่าง Fresnel zone", color: "#6b7280" },
+} satisfies ChartConfig
+
+export default function TerrainProfileChart({ result, className }: TerrainProfileChartProps) {
+  const chartConfig: ChartConfig = {
+    ...baseConfig,
+    lineOfSight: { label: "แนวสายตา", color: LINE_OF_SIGHT_COLORS[result.status] },
+  }
+
+  const data = result.profile.map((point) => ({
+    distance: Number(point.distanceKm.toFixed(2)),
+    terrain: point.effectiveTerrain === null ? null : Math.round(point.effectiveTerrain),
+    lineOfSight: Math.round(point.lineOfSight),
+    fresnelLower: Math.round(point.lineOfSight - point.fresnelRadius),
+  }))
+
+  return (
+    <ChartContainer config={chartConfig} className={cn("aspect-auto w-full h-40", className)}>
+      <ComposedChart data={data} margin={{ left: 0, right: 8, top: 4 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="distance"
+          type="number"
+          domain={[0, "dataMax"]}
+          tickLine={false}
+          axisLine={false}
+          unit=" km"
+          tickFormatter={(value: number) => value.toFixed(0)}
+        />
+        <YAxis tickLine={false} axisLine={false} width={44} unit=" m" />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Area
+          dataKey="terrain"
+          type="monotone"
+          fill="var(--color-terrain)"
+          fillOpacity={0.4}
+          stroke="var(--color-terrain)"
+          connectNulls={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="fresnelLower"
+          stroke="var(--color-fresnelLower)"
+          strokeDasharray="4 4"
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="lineOfSight"
+          stroke="var(--color-lineOfSight)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * Offline (PWA) constants for the Sky View Coverage app
+ */
+
+// Cache Storage names; public/sw.js uses the same names, so change both together
+export const OFFLINE_CACHES = {
+  SHELL: 'skyview-shell-v1', // pages, scripts, styles and fonts
+  DATA: 'skyview-data-v1', // station_cord.csv and technical_data.csv
+  OVERLAYS: 'skyview-overlays-v1', // coverage images saved for offline use
+  BASEMAP: 'skyview-basemap-v1' // basemap tiles downloaded for a region
+};
+
+// Basemap tile layers shown on the map. Their public servers forbid bulk downloads, so regions are
+// downloaded only from NEXT_PUBLIC_BASEMAP_DOWNLOAD_URL, which then also replaces the street map.
+export const BASEMAP_LAYERS = {
+  satellite: {
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: '&copy; <a href="https://www.esri.com/">Esri</a>, Maxar, Earthstar Geographics',
+    maxZoom: 18
+  },
+  street: {
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    maxZoom: 18
+  }
+};
+
+// Region downloads of basemap tiles; {s} is dropped from the tile URL, as public/sw.js does
+export const BASEMAP_DOWNLOAD = {
+  MIN_ZOOM: 6, // every download starts here so the region can be found when zoomed out
+  MAX_ZOOM: 14,
+  DEFAULT_MAX_ZOOM: 12,
+  MAX_TILES: 5000, // per download, to keep the load on the tile server modest
+  CONCURRENCY: 4
+};
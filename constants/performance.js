@@ -64,9 +64,22 @@ export const WARNING_THRESHOLDS = {
 export const CACHE_SETTINGS = {
   MAX_CACHED_IMAGES: 50,
   CACHE_EXPIRY_MS: 30 * 60 * 1000, // 30 minutes
+  UNVERSIONED_CACHE_EXPIRY_MS: 7 * 24 * 60 * 60 * 1000, // 7 days, for sources with neither ETag nor Last-Modified
   MAX_CACHE_SIZE_MB: 50
 };
 
+// XYZ tile pyramids for station coverage images, rendered by /api/tiles.
+// Tiles are cached on disk relative to the server's working directory; set COVERAGE_TILES_PATH to move them.
+export const COVERAGE_TILES = {
+  TILE_SIZE: 256,
+  MIN_ZOOM: 4, // lower zooms scale these tiles down
+  MAX_NATIVE_ZOOM: 11, // higher zooms scale these tiles up
+  CACHE_DIR: '.data/tiles',
+  MAX_SOURCE_IMAGES: 4, // decoded station images kept in server memory
+  MAX_SOURCE_DIMENSION: 4096, // larger station images are scaled down to this before decoding to RGBA
+  MAX_INPUT_PIXELS: 100000000 // station images with more pixels are refused
+};
+
 // Animation settings based on performance
 export const ANIMATION_SETTINGS = {
   DISABLED: {
@@ -0,0 +1,33 @@
+/**
+ * Coverage prediction constants for the Sky View Coverage app
+ */
+
+// Okumura-Hata with the ITU-R P.529 extension beyond 20 km
+export const PROPAGATION_MODEL = {
+  FREQUENCY_MHZ: 600, // mid UHF digital TV band
+  ENVIRONMENT: 'suburban', // 'urban' | 'suburban' | 'open'
+  MIN_DISTANCE_KM: 1, // Hata is not defined closer than this
+  MAX_DISTANCE_KM: 100,
+  MIN_EFFECTIVE_HEIGHT_M: 3 // floor for the transmitter height above average terrain
+};
+
+// Receiving installation the coverage levels are quoted for
+export const PREDICTION_RECEIVER = {
+  HEIGHT_M: 10, // rooftop antenna
+  GAIN_DBI: 0 // levels are compared with the power into an isotropic antenna
+};
+
+// Parametric antenna pattern used until a site has a measured pattern
+export const DEFAULT_ANTENNA_PATTERN = {
+  HORIZONTAL_BEAMWIDTH_DEG: 90, // directional sites only; "ND" sites are omnidirectional
+  FRONT_TO_BACK_DB: 20,
+  VERTICAL_BEAMWIDTH_DEG: 8,
+  VERTICAL_SIDELOBE_DB: 15
+};
+
+// Output raster
+export const PREDICTION_RASTER = {
+  MAX_DIMENSION: 512,
+  FLOOR_DBM: -110, // below this nothing is drawn, even though level 1 is open-ended
+  RADIALS: 720
+};
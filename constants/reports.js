@@ -0,0 +1,27 @@
+/**
+ * Reception report constants for the Sky View Coverage app
+ */
+
+// File-based store, relative to the server's working directory.
+// Set REPORTS_STORE_PATH to move it and REPORTS_ADMIN_TOKEN to enable the admin listing.
+export const REPORT_STORE = {
+  FILE: '.data/reception-reports.jsonl', // one JSON report per line, append-only
+  MAX_REPORTS: 50000, // new reports are refused beyond this
+  MAX_COMMENT_LENGTH: 500
+};
+
+// Anonymous submissions allowed per client address.
+// Set TRUSTED_PROXY_HOPS to the number of reverse proxies in front of the server that append to X-Forwarded-For.
+export const REPORT_RATE_LIMIT = {
+  MAX_REPORTS: 5,
+  WINDOW_MS: 10 * 60 * 1000, // 10 minutes
+  TRUSTED_PROXY_HOPS: 1
+};
+
+// Admin heat map
+export const REPORT_HEAT_MAP = {
+  MAX_DIMENSION: 256,
+  RADIUS_KM: 3, // Gaussian sigma of each report
+  MIN_SPAN_KM: 20, // smallest area drawn around a few close reports
+  MAX_ALPHA: 200
+};
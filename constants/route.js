@@ -0,0 +1,11 @@
+/**
+ * Route coverage profile constants for the Sky View Coverage app
+ */
+
+export const ROUTE_PROFILE = {
+  STEP_KM: 0.5, // default spacing of samples along the route
+  MAX_SAMPLES: 2000, // the step is widened on long routes to stay under this
+  MIN_LEVEL: 1, // samples below this level count as gaps
+  ROUTE_COLOR: '#2563eb',
+  GAP_COLOR: '#ef4444'
+};
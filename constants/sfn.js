@@ -0,0 +1,22 @@
+/**
+ * Single-frequency network constants for the Sky View Coverage app
+ */
+
+// DVB-T2 mode assumed until the coverage tools panel overrides it
+export const SFN_GUARD_INTERVAL = {
+  FFT_SIZE: '32K',
+  FRACTION: '1/16' // 224 µs at 32K in 8 MHz, about 67 km of path difference
+};
+
+export const SFN_ANALYSIS = {
+  PROTECTION_RATIO_DB: 20, // C/I needed when echoes fall outside the guard interval
+  MAX_DISTANCE_KM: 200 // sites further away than this are ignored
+};
+
+// Risk raster
+export const SFN_RASTER = {
+  MAX_DIMENSION: 200,
+  RISK_COLOR: '#ef4444',
+  OK_COLOR: '#22c55e',
+  ALPHA: 150
+};
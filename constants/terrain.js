@@ -0,0 +1,22 @@
+/**
+ * Terrain and line-of-sight constants for the Sky View Coverage app
+ */
+
+// Local elevation tiles, one per 1°×1° cell named like SRTM (e.g. N13E100)
+// Each cell is looked up as <BASE_URL>/<name>.hgt, then <BASE_URL>/<name>.tif
+export const DEM_SETTINGS = {
+  BASE_URL: '/dem',
+  FORMATS: ['hgt', 'tif'],
+  MAX_CACHED_TILES: 16
+};
+
+// Line-of-sight and Fresnel zone analysis
+export const LINE_OF_SIGHT = {
+  K_FACTOR: 4 / 3, // effective earth radius factor for standard atmosphere
+  EARTH_RADIUS_M: 6371000,
+  FREQUENCY_MHZ: 600, // mid UHF digital TV band
+  RECEIVER_HEIGHT_M: 10, // rooftop receiving antenna
+  SAMPLE_SPACING_M: 90, // about one SRTM3 post
+  MAX_SAMPLES: 600,
+  FRESNEL_CLEARANCE_RATIO: 0.6 // fraction of the first Fresnel zone that must be clear
+};
@@ -1,27 +1,44 @@
-export const coverageLevels: { level: string; color: string; description: string }[] = [
+import type { CoverageLevel } from "@/types/map"
+
+export const coverageLevels: CoverageLevel[] = [
   {
     level: "ระดับ 5",
+    value: 5,
     color: "#0047AB",
     description: "สัญญาณดีมาก (> -70 dBm)",
+    minDbm: -70,
+    maxDbm: null,
   },
   {
     level: "ระดับ 4",
+    value: 4,
     color: "#00FF00",
     description: "สัญญาณดี (-70 to -80 dBm)",
+    minDbm: -80,
+    maxDbm: -70,
   },
   {
     level: "ระดับ 3",
+    value: 3,
     color: "#FFFF00",
     description: "สัญญาณปานกลาง (-80 to -90 dBm)",
+    minDbm: -90,
+    maxDbm: -80,
   },
   {
     level: "ระดับ 2",
+    value: 2,
     color: "#FFA500",
     description: "สัญญาณอ่อน (-90 to -100 dBm)",
+    minDbm: -100,
+    maxDbm: -90,
   },
   {
     level: "ระดับ 1",
+    value: 1,
     color: "#FF0000",
     description: "สัญญาณอ่อนมาก (< -100 dBm)",
+    minDbm: null,
+    maxDbm: -100,
   },
 ]
@@ -1,86 +1,54 @@
 import Papa from 'papaparse'
 import type { Station } from "@/types/map"
+import { validateStationRows, type ValidationReport } from "@/lib/data-validation"
 
-// Parse XML-like coordinates string to bounds array
-function parseCoordinates(coordStr: string): [[number, number], [number, number]] {
-  const northMatch = coordStr.match(/<north>([^<]+)<\/north>/)
-  const southMatch = coordStr.match(/<south>([^<]+)<\/south>/)
-  const eastMatch = coordStr.match(/<east>([^<]+)<\/east>/)
-  const westMatch = coordStr.match(/<west>([^<]+)<\/west>/)
-
-  if (!northMatch || !southMatch || !eastMatch || !westMatch) {
-    throw new Error("Invalid coordinate format")
-  }
-
-  const north = Number.parseFloat(northMatch[1])
-  const south = Number.parseFloat(southMatch[1])
-  const east = Number.parseFloat(eastMatch[1])
-  const west = Number.parseFloat(westMatch[1])
-
-  return [
-    [south, west], // Southwest
-    [north, east], // Northeast
-  ]
-}
+// Parse and validate CSV text; shared by the browser loader and the API routes
+export function parseStationCsv(csvText: string): ValidationReport<Station> {
+  const results = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  })
 
-// Function to create station ID from Thai name
-function createStationId(name: string): string {
-  return name.toLowerCase().replace(/\s+/g, '-').replace(/[^\w-]/g, '')
+  // Bad rows are reported and skipped instead of failing the whole load
+  return validateStationRows(results.data)
 }
 
-// Load stations from CSV file
-async function loadStationsFromCSV(): Promise<Station[]> {
-  const response = await fetch('/data/station_cord.csv')
+// Load and validate stations from CSV file
+async function loadStationsFromCSV(revalidate: boolean): Promise<ValidationReport<Station>> {
+  const response = await fetch('/data/station_cord.csv', revalidate ? { cache: 'no-cache' } : undefined)
   if (!response.ok) {
     throw new Error(`Failed to fetch CSV: ${response.status}`)
   }
   const csvText = await response.text()
   
-  const results = Papa.parse(csvText, {
-    header: true,
-    skipEmptyLines: true,
-  })
-
-  const stations: Station[] = results.data.map((row: any) => {
-    // Handle both old and new CSV structure
-    const stationId = row.id // New structure has ID column
-    const stationName = row.staion || row.station // Handle potential typo in CSV header
-    const coordinates = row.coord
-    const imageUrl = row.url
-
-    // Validate required fields
-    if (!stationName || !coordinates) {
-      console.warn('Skipping row with missing required fields:', row)
-      return null
-    }
-
-    return {
-      id: stationId ? String(stationId) : createStationId(stationName),
-      name: stationName,
-      bounds: parseCoordinates(coordinates),
-      imageUrl: imageUrl || '',
-      visible: false,
-    }
-  }).filter(Boolean) as Station[] // Remove null entries
+  const report = parseStationCsv(csvText)
+  if (report.invalidRows > 0) {
+    console.warn(`Skipped ${report.invalidRows} invalid station rows, see /data-health`)
+  }
 
-  return stations
+  return report
 }
 
 // Cache for loaded station data
-let cachedStationData: Station[] | null = null
+let cachedStationReport: Promise<ValidationReport<Station>> | null = null
+
+// Function to get the validation report for station_cord.csv; force re-reads the file instead of the cached report
+export function getStationDataReport(force = false): Promise<ValidationReport<Station>> {
+  if (force || !cachedStationReport) {
+    const report = loadStationsFromCSV(force)
+    report.catch(() => {
+      if (cachedStationReport === report) cachedStationReport = null
+    })
+    cachedStationReport = report
+  }
+  return cachedStationReport
+}
 
-// Function to get station data (only from CSV)
+// Function to get station data (only valid rows from CSV)
 export async function getStationData(): Promise<Station[]> {
-  // If we already have cached data, return it
-  if (cachedStationData) {
-    return cachedStationData
-  }
-  
-  // Load from CSV only
-  cachedStationData = await loadStationsFromCSV()
-  return cachedStationData
+  const report = await getStationDataReport()
+  return report.valid
 }
 
 // Export empty array as fallback for initial state
 export const stationData: Station[] = []
-
@@ -1,68 +1,92 @@
 import Papa from 'papaparse'
 import type { TechnicalData } from "@/types/map"
+import { validateTechnicalRows, type ValidationReport } from "@/lib/data-validation"
 
-// Load technical data from CSV file
-async function loadTechnicalDataFromCSV(): Promise<TechnicalData[]> {
-  const response = await fetch('/data/technical_data.csv')
+// Parse and validate CSV text; shared by the browser loader and the API routes
+export function parseTechnicalCsv(csvText: string): ValidationReport<TechnicalData> {
+  const results = Papa.parse<Record<string, string>>(csvText, {
+    header: true,
+    skipEmptyLines: true,
+  })
+
+  return validateTechnicalRows(results.data)
+}
+
+// Column headers of technical_data.csv in file order, with the field each one holds
+const TECHNICAL_CSV_COLUMNS: [string, keyof TechnicalData][] = [
+  ['ลำดับ', 'id'],
+  ['ผู้รับผิดชอบ Facility', 'responsibleEntity'],
+  ['ชื่อสถานี (ENG)', 'stationNameEng'],
+  ['ชื่อสถานี', 'stationNameThai'],
+  ['ที่อยู่', 'address'],
+  ['เจ้าของสถานที่', 'owner'],
+  ['ศูนย์วิศวกรรม', 'engineeringCenter'],
+  ['ประเภทสถานี', 'stationType'],
+  ['Long', 'longitude'],
+  ['Lat', 'latitude'],
+  ['ht(m)', 'height'],
+  ['HRP', 'hrp'],
+  ['ที่ตั้งสถานี', 'location'],
+  ['Ant. Type 1', 'antType1'],
+  ['Ant. Type 2', 'antType2'],
+  ['Beam Tilt ', 'beamTilt'],
+  ['Main Feeder Loss\n(dB)', 'feederLoss'],
+  ['Ant. Brand', 'antBrand'],
+  [' Max ERP (kW)', 'maxERP'],
+  // Optional trailing columns for SFN planning
+  ['Channel', 'channel'],
+  ['Frequency (MHz)', 'frequencyMHz'],
+  ['SFN Group', 'sfnGroup'],
+]
+
+// Write rows in the technical_data.csv layout so they can be appended to the source file
+export function formatTechnicalCsv(rows: TechnicalData[]): string {
+  return Papa.unparse({
+    fields: TECHNICAL_CSV_COLUMNS.map(([header]) => header),
+    data: rows.map(row => TECHNICAL_CSV_COLUMNS.map(([, field]) => {
+      const value = row[field]
+      if (field === 'longitude' || field === 'latitude') return Number(value).toFixed(6)
+      return value ?? ''
+    })),
+  }, { newline: '\r\n' })
+}
+
+// Load and validate technical data from CSV file
+async function loadTechnicalDataFromCSV(revalidate: boolean): Promise<ValidationReport<TechnicalData>> {
+  const response = await fetch('/data/technical_data.csv', revalidate ? { cache: 'no-cache' } : undefined)
   if (!response.ok) {
     throw new Error(`Failed to fetch CSV: ${response.status}`)
   }
   const csvText = await response.text()
   
-  const results = Papa.parse(csvText, {
-    header: true,
-    skipEmptyLines: true,
-  })
-
-  const technicalData: TechnicalData[] = results.data.map((row: any) => {
-    // Validate required fields
-    const stationName = row['ชื่อสถานี'] || row.stationNameThai || ''
-    const longitude = parseFloat(row['Long'] || row.longitude || '0')
-    const latitude = parseFloat(row['Lat'] || row.latitude || '0')
-    
-    return {
-      id: row['ลำดับ'] || row.id || '',
-      responsibleEntity: row['ผู้รับผิดชอบ Facility'] || row.responsibleEntity || '',
-      stationNameEng: row['ชื่อสถานี (ENG)'] || row.stationNameEng || '',
-      stationNameThai: stationName,
-      address: row['ที่อยู่'] || row.address || '',
-      owner: row['เจ้าของสถานที่'] || row.owner || '',
-      engineeringCenter: row['ศูนย์วิศวกรรม'] || row.engineeringCenter || '',
-      stationType: row['ประเภทสถานี'] || row.stationType || '',
-      longitude: longitude,
-      latitude: latitude,
-      height: parseFloat(row['ht(m)'] || row.height || '0'),
-      hrp: row['HRP'] || row.hrp || '',
-      location: row['ที่ตั้งสถานี'] || row.location || '',
-      antType1: row['Ant. Type 1'] || row.antType1 || '',
-      antType2: row['Ant. Type 2'] || row.antType2 || '',
-      beamTilt: row['Beam Tilt'] || row.beamTilt || '',
-      feederLoss: parseFloat(row['Main Feeder Loss\n(dB)'] || row.feederLoss || '0'),
-      antBrand: row['Ant. Brand'] || row.antBrand || '',
-      maxERP: parseFloat(row[' Max ERP (kW)'] || row.maxERP || '0'),
-    }
-  }).filter((data: TechnicalData) => {
-    // Filter out entries with invalid coordinates
-    return data.latitude !== 0 && data.longitude !== 0 && data.stationNameThai
-  })
+  const report = parseTechnicalCsv(csvText)
+  console.log(`Loaded ${report.valid.length} valid technical data entries`)
+  if (report.invalidRows > 0) {
+    console.warn(`Skipped ${report.invalidRows} invalid technical rows, see /data-health`)
+  }
 
-  console.log(`Loaded ${technicalData.length} valid technical data entries`)
-  return technicalData
+  return report
 }
 
 // Cache for loaded technical data
-let cachedTechnicalData: TechnicalData[] | null = null
+let cachedTechnicalReport: Promise<ValidationReport<TechnicalData>> | null = null
 
-// Function to get technical data (only from CSV)
-export async function getTechnicalData(): Promise<TechnicalData[]> {
-  // If we already have cached data, return it
-  if (cachedTechnicalData) {
-    return cachedTechnicalData
+// Function to get the validation report for technical_data.csv; force re-reads the file instead of the cached report
+export function getTechnicalDataReport(force = false): Promise<ValidationReport<TechnicalData>> {
+  if (force || !cachedTechnicalReport) {
+    const report = loadTechnicalDataFromCSV(force)
+    report.catch(() => {
+      if (cachedTechnicalReport === report) cachedTechnicalReport = null
+    })
+    cachedTechnicalReport = report
   }
-  
-  // Load from CSV only
-  cachedTechnicalData = await loadTechnicalDataFromCSV()
-  return cachedTechnicalData
+  return cachedTechnicalReport
+}
+
+// Function to get technical data (only valid rows from CSV)
+export async function getTechnicalData(): Promise<TechnicalData[]> {
+  const report = await getTechnicalDataReport()
+  return report.valid
 }
 
 // Export empty array as fallback for initial state
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from "react"
+import { loadAntennaCatalogue, saveAntennaCatalogue, subscribeAntennaCatalogue, type AntennaCatalogue } from "@/lib/antenna-catalogue"
+import type { AntennaPatternData } from "@/lib/antenna-patterns"
+
+interface UseAntennaCatalogueReturn {
+  catalogue: AntennaCatalogue
+  addPatterns: (patterns: AntennaPatternData[]) => void
+  removePattern: (patternId: string) => void
+  linkAntenna: (antennaKey: string, patternId: string | null) => void
+}
+
+/**
+ * The antenna catalogue from localStorage, kept in sync across every component using it
+ */
+export function useAntennaCatalogue(): UseAntennaCatalogueReturn {
+  const [catalogue, setCatalogue] = useState<AntennaCatalogue>({ patterns: [], links: {} })
+
+  useEffect(() => {
+    setCatalogue(loadAntennaCatalogue())
+    return subscribeAntennaCatalogue(setCatalogue)
+  }, [])
+
+  // Always start from the stored copy so concurrent editors do not overwrite each other
+  const update = useCallback((change: (current: AntennaCatalogue) => AntennaCatalogue) => {
+    saveAntennaCatalogue(change(loadAntennaCatalogue()))
+  }, [])
+
+  const addPatterns = useCallback((patterns: AntennaPatternData[]) => {
+    update((current) => ({ ...current, patterns: [...current.patterns, ...patterns] }))
+  }, [update])
+
+  const removePattern = useCallback((patternId: string) => {
+    update((current) => ({
+      patterns: current.patterns.filter((pattern) => pattern.id !== patternId),
+      links: Object.fromEntries(Object.entries(current.links).filter(([, id]) => id !== patternId)),
+    }))
+  }, [update])
+
+  const linkAntenna = useCallback((antennaKey: string, patternId: string | null) => {
+    update((current) => {
+      const links = { ...current.links }
+      if (patternId) links[antennaKey] = patternId
+      else delete links[antennaKey]
+      return { ...current, links }
+    })
+  }, [update])
+
+  return { catalogue, addPatterns, removePattern, linkAntenna }
+}
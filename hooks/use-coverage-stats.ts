@@ -0,0 +1,42 @@
+import { useState, useCallback } from "react"
+import { getStationCoverageStats, type CoverageAreaStats } from "@/lib/coverage-stats"
+import type { Station } from "@/types/map"
+
+interface UseCoverageStatsReturn {
+  stats: Record<string, CoverageAreaStats>
+  loadingIds: Set<string>
+  errors: Record<string, string>
+  computeStats: (stations: Station[]) => Promise<void>
+}
+
+export function useCoverageStats(): UseCoverageStatsReturn {
+  const [stats, setStats] = useState<Record<string, CoverageAreaStats>>({})
+  const [loadingIds, setLoadingIds] = useState<Set<string>>(new Set())
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const computeStats = useCallback(async (stations: Station[]) => {
+    const pending = stations.filter((station) => station.imageUrl)
+    if (pending.length === 0) return
+
+    setLoadingIds((prev) => new Set([...prev, ...pending.map((station) => station.id)]))
+
+    // Decode images one at a time to keep memory use bounded on large selections
+    for (const station of pending) {
+      try {
+        const result = await getStationCoverageStats(station)
+        setStats((prev) => ({ ...prev, [station.id]: result }))
+      } catch (error) {
+        console.error(`❌ Failed to compute coverage stats for ${station.name}:`, error)
+        setErrors((prev) => ({ ...prev, [station.id]: 'Failed to read coverage image' }))
+      } finally {
+        setLoadingIds((prev) => {
+          const next = new Set(prev)
+          next.delete(station.id)
+          return next
+        })
+      }
+    }
+  }, [])
+
+  return { stats, loadingIds, errors, computeStats }
+}
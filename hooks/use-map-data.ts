@@ -1,11 +1,17 @@
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useRef } from "react"
 import { getStationData } from "@/data/stations"
 import { getTechnicalData } from "@/data/technical"
+import { buildDataQueryString, MAX_PAGE_SIZE, type BBox, type DataQuery, type PagedResponse } from "@/lib/data-query"
+import { isGeoTiffUrl } from "@/lib/geotiff-url"
+import { isOffline } from "@/lib/offline-cache"
 import type { Station, TechnicalData } from "@/types/map"
 
 interface UseMapDataReturn {
   stations: Station[]
   technicalData: TechnicalData[]
+  allTechnicalData: TechnicalData[] // empty until loadAllTechnical is called
+  technicalTotal: number | null // sites in the whole dataset, null until known
+  loadAllTechnical: () => Promise<TechnicalData[]>
   isLoading: boolean
   isStationsLoading: boolean
   isTechnicalLoading: boolean
@@ -13,62 +19,219 @@ interface UseMapDataReturn {
   refetch: () => Promise<void>
 }
 
-export function useMapData(): UseMapDataReturn {
+// Fraction of the viewport added on each side so small pans do not refetch
+const VIEWPORT_PADDING = 0.5
+// Loaded area once every technical site is known, so no viewport requests are made
+const WORLD_BBOX: BBox = [-180, -90, 180, 90]
+
+// Fetch every page of an API list endpoint
+async function fetchAllPages<T>(endpoint: string, query: Partial<DataQuery> = {}): Promise<T[]> {
+  const items: T[] = []
+  let page = 1
+  while (true) {
+    const response = await fetch(`${endpoint}?${buildDataQueryString({ ...query, page, pageSize: MAX_PAGE_SIZE })}`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${endpoint}: ${response.status}`)
+    }
+    const result: PagedResponse<T> = await response.json()
+    items.push(...result.data)
+    if (!result.hasMore) return items
+    page++
+  }
+}
+
+function padBBox([west, south, east, north]: BBox): BBox {
+  const padLng = (east - west) * VIEWPORT_PADDING
+  const padLat = (north - south) * VIEWPORT_PADDING
+  return [west - padLng, south - padLat, east + padLng, north + padLat]
+}
+
+function containsBBox(outer: BBox, inner: BBox): boolean {
+  return outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3]
+}
+
+/**
+ * Load stations and technical sites from the data API.
+ * Technical sites for the map markers are fetched for the (padded) viewport and accumulated as
+ * the map moves; the full list is only loaded when search, nearest-site lookups, the antenna
+ * catalogue or SFN analysis call loadAllTechnical, after which the viewport is no longer fetched;
+ * if the API is unavailable both datasets fall back to parsing the CSVs in the browser, which the
+ * service worker serves from its cache when offline.
+ * @param viewport Current map bounds; technical sites wait until it is known
+ */
+export function useMapData(viewport: BBox | null = null): UseMapDataReturn {
   const [stations, setStations] = useState<Station[]>([])
   const [technicalData, setTechnicalData] = useState<TechnicalData[]>([])
+  const [allTechnicalData, setAllTechnicalData] = useState<TechnicalData[]>([])
+  const [technicalTotal, setTechnicalTotal] = useState<number | null>(null)
   const [isStationsLoading, setIsStationsLoading] = useState(true)
   const [isTechnicalLoading, setIsTechnicalLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
-  const loadData = useCallback(async () => {
-    setError(null)
-    
+  // Accumulated technical sites and the areas already fetched
+  const technicalByIdRef = useRef<Map<string, TechnicalData>>(new Map())
+  const loadedAreasRef = useRef<BBox[]>([])
+  // The full technical site list, once requested
+  const allTechnicalRef = useRef<Promise<TechnicalData[]> | null>(null)
+  // Incremented on each station load so GeoTIFFs resolved for an earlier load are discarded
+  const stationsLoadRef = useRef(0)
+
+  const loadStations = useCallback(async () => {
     try {
-      // Load both datasets in parallel for better performance
-      const [stationsData, technicalDataResult] = await Promise.allSettled([
-        getStationData(),
-        getTechnicalData()
-      ])
-
-      // Handle stations data
-      if (stationsData.status === 'fulfilled') {
-        setStations(stationsData.value)
-        console.log(`✅ Loaded ${stationsData.value.length} stations`)
-      } else {
-        console.error('❌ Failed to load stations:', stationsData.reason)
-        setError('Failed to load station data')
+      let stationsData: Station[]
+      try {
+        // Offline, go straight to the cached CSV rather than waiting for the request to fail
+        if (isOffline()) throw new Error('Browser is offline')
+        // The station list is small and the selector shows every station, so it is loaded whole
+        stationsData = await fetchAllPages<Station>('/api/stations')
+      } catch (apiError) {
+        console.warn('Station API unavailable, falling back to CSV:', apiError)
+        stationsData = await getStationData()
+      }
+      // Stations with ordinary images are shown at once; GeoTIFF rows are reprojected in the
+      // background (their bounds come from the file) and merged in, in CSV order, when ready.
+      // The GeoTIFF reader is only downloaded when there are such rows.
+      const loadId = ++stationsLoadRef.current
+      const geoTiffStations = stationsData.filter(station => isGeoTiffUrl(station.imageUrl))
+      setStations(stationsData.filter(station => !isGeoTiffUrl(station.imageUrl)))
+      console.log(`✅ Loaded ${stationsData.length - geoTiffStations.length} stations`)
+
+      if (geoTiffStations.length > 0) {
+        import("@/lib/geotiff-overlay")
+          .then(({ resolveGeoTiffStations }) => resolveGeoTiffStations(geoTiffStations))
+          .then(resolved => {
+            if (loadId !== stationsLoadRef.current) return
+            const resolvedById = new Map(resolved.map(station => [station.id, station]))
+            setStations(stationsData.flatMap(station => (
+              isGeoTiffUrl(station.imageUrl) ? resolvedById.get(station.id) ?? [] : [station]
+            )))
+            console.log(`✅ Loaded ${resolved.length} GeoTIFF stations`)
+          })
+          .catch(geoTiffError => console.error('❌ Failed to load GeoTIFF stations:', geoTiffError))
       }
+    } catch (loadError) {
+      console.error('❌ Failed to load stations:', loadError)
+      setError('Failed to load station data')
+    } finally {
       setIsStationsLoading(false)
+    }
+  }, [])
 
-      // Handle technical data
-      if (technicalDataResult.status === 'fulfilled') {
-        setTechnicalData(technicalDataResult.value)
-        console.log(`✅ Loaded ${technicalDataResult.value.length} technical data points`)
-      } else {
-        console.error('❌ Failed to load technical data:', technicalDataResult.reason)
-        setError('Failed to load technical data')
+  const loadTechnicalForViewport = useCallback(async (bbox: BBox) => {
+    if (loadedAreasRef.current.some(area => containsBBox(area, bbox))) return
+
+    setIsTechnicalLoading(true)
+    try {
+      const area = padBBox(bbox)
+      let sites: TechnicalData[]
+      try {
+        if (isOffline()) throw new Error('Browser is offline')
+        sites = await fetchAllPages<TechnicalData>('/api/technical', { bbox: area })
+        loadedAreasRef.current.push(area)
+      } catch (apiError) {
+        console.warn('Technical API unavailable, falling back to CSV:', apiError)
+        sites = await getTechnicalData()
+        // The CSV holds everything, so no further viewport requests are needed
+        loadedAreasRef.current.push(WORLD_BBOX)
+        setTechnicalTotal(sites.length)
       }
-      setIsTechnicalLoading(false)
 
-    } catch (error) {
-      console.error('❌ Unexpected error loading map data:', error)
-      setError('Failed to load map data')
-      setIsStationsLoading(false)
+      sites.forEach(site => technicalByIdRef.current.set(site.id, site))
+      setTechnicalData(Array.from(technicalByIdRef.current.values()))
+      console.log(`✅ Loaded ${technicalByIdRef.current.size} technical data points`)
+    } catch (loadError) {
+      console.error('❌ Failed to load technical data:', loadError)
+      setError('Failed to load technical data')
+    } finally {
       setIsTechnicalLoading(false)
     }
   }, [])
 
+  // Size of the whole dataset for the site counter, without downloading it
+  const loadTechnicalTotal = useCallback(async () => {
+    if (isOffline()) return
+    try {
+      const response = await fetch(`/api/technical?${buildDataQueryString({ page: 1, pageSize: 1 })}`)
+      if (!response.ok) throw new Error(`Failed to fetch /api/technical: ${response.status}`)
+      const result: PagedResponse<TechnicalData> = await response.json()
+      setTechnicalTotal(result.total)
+    } catch (loadError) {
+      console.warn('Failed to count technical sites:', loadError)
+    }
+  }, [])
+
+  /**
+   * Load every technical site once; later calls share the same request. The sites also become
+   * the map's technical data, so the viewport is no longer fetched.
+   * @returns every site, or those loaded so far when the full list cannot be loaded
+   */
+  const loadAllTechnical = useCallback((): Promise<TechnicalData[]> => {
+    if (!allTechnicalRef.current) {
+      allTechnicalRef.current = (async () => {
+        try {
+          let sites: TechnicalData[]
+          try {
+            if (isOffline()) throw new Error('Browser is offline')
+            sites = await fetchAllPages<TechnicalData>('/api/technical')
+          } catch (apiError) {
+            console.warn('Technical API unavailable, falling back to CSV:', apiError)
+            sites = await getTechnicalData()
+          }
+
+          loadedAreasRef.current = [WORLD_BBOX]
+          sites.forEach(site => technicalByIdRef.current.set(site.id, site))
+          setTechnicalData(Array.from(technicalByIdRef.current.values()))
+          setAllTechnicalData(sites)
+          setTechnicalTotal(sites.length)
+          console.log(`✅ Loaded all ${sites.length} technical sites`)
+          return sites
+        } catch (loadError) {
+          console.error('❌ Failed to load the full technical site list:', loadError)
+          allTechnicalRef.current = null
+          return Array.from(technicalByIdRef.current.values())
+        }
+      })()
+    }
+    return allTechnicalRef.current
+  }, [])
+
+  useEffect(() => {
+    loadStations()
+    loadTechnicalTotal()
+  }, [loadStations, loadTechnicalTotal])
+
   useEffect(() => {
-    loadData()
-  }, [loadData])
+    if (viewport) {
+      loadTechnicalForViewport(viewport)
+    }
+  }, [viewport, loadTechnicalForViewport])
+
+  const refetch = useCallback(async () => {
+    setError(null)
+    setIsStationsLoading(true)
+    technicalByIdRef.current.clear()
+    loadedAreasRef.current = []
+    // Reload the full list only if it was in use; otherwise just the viewport
+    const wantsAllTechnical = allTechnicalRef.current !== null
+    allTechnicalRef.current = null
+
+    await Promise.all([
+      loadStations(),
+      loadTechnicalTotal(),
+      wantsAllTechnical ? loadAllTechnical() : viewport ? loadTechnicalForViewport(viewport) : Promise.resolve(),
+    ])
+  }, [loadStations, loadTechnicalTotal, loadAllTechnical, loadTechnicalForViewport, viewport])
 
   return {
     stations,
     technicalData,
+    allTechnicalData,
+    technicalTotal,
+    loadAllTechnical,
     isLoading: isStationsLoading || isTechnicalLoading,
     isStationsLoading,
     isTechnicalLoading,
     error,
-    refetch: loadData
+    refetch
   }
 }
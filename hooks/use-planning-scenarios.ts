@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from "react"
+import { loadScenarios, saveScenarios, type PlanningScenario } from "@/lib/planning"
+
+interface UsePlanningScenariosReturn {
+  scenarios: PlanningScenario[]
+  saveScenario: (scenario: PlanningScenario) => void
+  deleteScenario: (scenarioId: string) => void
+}
+
+/**
+ * Planning scenarios persisted in localStorage
+ */
+export function usePlanningScenarios(): UsePlanningScenariosReturn {
+  const [scenarios, setScenarios] = useState<PlanningScenario[]>([])
+  const [isLoaded, setIsLoaded] = useState(false)
+
+  // localStorage is only available after mount
+  useEffect(() => {
+    setScenarios(loadScenarios())
+    setIsLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (isLoaded) saveScenarios(scenarios)
+  }, [scenarios, isLoaded])
+
+  const saveScenario = useCallback((scenario: PlanningScenario) => {
+    const saved = { ...scenario, updatedAt: new Date().toISOString() }
+    setScenarios((prev) => {
+      const index = prev.findIndex((item) => item.id === scenario.id)
+      if (index === -1) return [...prev, saved]
+      return prev.map((item) => (item.id === scenario.id ? saved : item))
+    })
+  }, [])
+
+  const deleteScenario = useCallback((scenarioId: string) => {
+    setScenarios((prev) => prev.filter((item) => item.id !== scenarioId))
+  }, [])
+
+  return { scenarios, saveScenario, deleteScenario }
+}
@@ -0,0 +1,78 @@
+// Antenna catalogue: imported pattern files and the links from site antenna types to them
+
+import type { TechnicalData } from "@/types/map"
+import type { AntennaPatternData } from "@/lib/antenna-patterns"
+
+export interface AntennaCatalogue {
+  patterns: AntennaPatternData[]
+  links: Record<string, string> // normalised antenna type -> pattern id
+}
+
+const STORAGE_KEY = "sky-view-antenna-catalogue"
+
+const EMPTY_CATALOGUE: AntennaCatalogue = { patterns: [], links: {} }
+
+// Components holding the catalogue re-read it when another one saves
+const listeners = new Set<(catalogue: AntennaCatalogue) => void>()
+
+/**
+ * Normalise a free-text antenna type so "PHP 48 D", "PHP 48D" and "php48d" link together
+ */
+export function normalizeAntennaKey(value: string): string {
+  return value.toUpperCase().replace(/[\s-]+/g, "")
+}
+
+/**
+ * Antenna types a site can be linked by, most specific first: the model (Ant. Type 2), then the type class (Ant. Type 1)
+ */
+export function getSiteAntennaKeys(site: Pick<TechnicalData, "antType1" | "antType2">): string[] {
+  return [site.antType2, site.antType1]
+    .map((value) => normalizeAntennaKey(value ?? ""))
+    .filter((key, index, keys) => key !== "" && keys.indexOf(key) === index)
+}
+
+/**
+ * Linked pattern for a site, or null when none of its antenna types is linked
+ */
+export function findSitePattern(
+  site: Pick<TechnicalData, "antType1" | "antType2">,
+  catalogue: AntennaCatalogue
+): AntennaPatternData | null {
+  for (const key of getSiteAntennaKeys(site)) {
+    const pattern = catalogue.patterns.find((item) => item.id === catalogue.links[key])
+    if (pattern) return pattern
+  }
+  return null
+}
+
+export function loadAntennaCatalogue(): AntennaCatalogue {
+  if (typeof localStorage === "undefined") return EMPTY_CATALOGUE
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    if (!saved) return EMPTY_CATALOGUE
+    const catalogue = JSON.parse(saved)
+    return {
+      patterns: Array.isArray(catalogue.patterns) ? catalogue.patterns : [],
+      links: catalogue.links && typeof catalogue.links === "object" ? catalogue.links : {},
+    }
+  } catch (error) {
+    console.warn("Failed to load antenna catalogue:", error)
+    return EMPTY_CATALOGUE
+  }
+}
+
+export function saveAntennaCatalogue(catalogue: AntennaCatalogue): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(catalogue))
+  } catch (error) {
+    console.warn("Failed to save antenna catalogue:", error)
+  }
+  listeners.forEach((listener) => listener(catalogue))
+}
+
+export function subscribeAntennaCatalogue(listener: (catalogue: AntennaCatalogue) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
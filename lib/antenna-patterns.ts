@@ -0,0 +1,194 @@
+// Antenna radiation patterns: MSI/Planet and CSV pattern files, HRP parsing and attenuation lookup
+
+export interface AntennaPatternData {
+  id: string
+  name: string
+  make: string
+  frequencyMHz: number | null
+  gainDbi: number
+  electricalTilt: number // ° below the horizon already built into the vertical pattern
+  horizontal: number[] // attenuation (dB ≥ 0) per degree clockwise from the main beam, 360 values
+  vertical: number[] // attenuation per degree below the horizon (270-359 = above), 360 values
+  source: "msi" | "csv"
+  fileName: string
+}
+
+const DBD_TO_DBI = 2.15
+
+/**
+ * Main beam bearings from the register's HRP column: "ND" (non-directional) or blank gives [],
+ * "120" one beam and "10;190" a multi-lobe antenna
+ */
+export function parseHrp(hrp: string): number[] {
+  return hrp
+    .split(/[;,/]/)
+    .map((part) => Number.parseFloat(part))
+    .filter((azimuth) => Number.isFinite(azimuth))
+    .map((azimuth) => ((azimuth % 360) + 360) % 360)
+}
+
+export function formatHrp(azimuths: number[]): string {
+  return azimuths.length === 0 ? "รอบทิศทาง (ND)" : azimuths.map((azimuth) => `${azimuth}°`).join(", ")
+}
+
+/**
+ * Resample (angle, attenuation) points onto whole degrees, interpolating linearly around the circle
+ */
+export function resamplePattern(points: [number, number][]): number[] {
+  if (points.length === 0) return new Array(360).fill(0)
+
+  const sorted = points
+    .map(([angle, loss]): [number, number] => [((angle % 360) + 360) % 360, Math.abs(loss)])
+    .sort((a, b) => a[0] - b[0])
+
+  return Array.from({ length: 360 }, (_, degree) => {
+    // Neighbours on either side, wrapping past 0°/360°
+    let upper = sorted.findIndex(([angle]) => angle >= degree)
+    if (upper === -1) upper = 0
+    const lower = upper === 0 ? sorted.length - 1 : upper - 1
+    const [a0, l0] = sorted[lower]
+    const [a1, l1] = sorted[upper]
+    if (a1 === degree) return l1
+
+    const span = (a1 - a0 + 360) % 360 || 360
+    const offset = (degree - a0 + 360) % 360
+    return l0 + ((l1 - l0) * offset) / span
+  })
+}
+
+/**
+ * Attenuation at a fractional angle, interpolated between whole-degree samples
+ */
+export function sampleAttenuation(pattern: number[], angle: number): number {
+  const wrapped = ((angle % 360) + 360) % 360
+  const index = Math.floor(wrapped)
+  const fraction = wrapped - index
+  return pattern[index] * (1 - fraction) + pattern[(index + 1) % 360] * fraction
+}
+
+function createPatternId(name: string): string {
+  return `${name.toLowerCase().replace(/\s+/g, "-").replace(/[^\w-]/g, "")}-${Date.now().toString(36)}`
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, "")
+}
+
+/**
+ * Parse an MSI/Planet pattern file (.msi or .pat): keyword header lines such as NAME, MAKE,
+ * FREQUENCY, GAIN (dBd unless "dBi" follows) and TILT, then HORIZONTAL n / VERTICAL n blocks
+ * of "angle attenuation" lines
+ */
+export function parseMsiPattern(text: string, fileName: string): AntennaPatternData {
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)
+  const header: Record<string, string> = {}
+  const blocks: Record<"HORIZONTAL" | "VERTICAL", [number, number][]> = { HORIZONTAL: [], VERTICAL: [] }
+
+  let block: "HORIZONTAL" | "VERTICAL" | null = null
+  let remaining = 0
+  for (const line of lines) {
+    const [keyword, ...rest] = line.split(/\s+/)
+    const upper = keyword.toUpperCase()
+
+    if (upper === "HORIZONTAL" || upper === "VERTICAL") {
+      block = upper
+      remaining = Number.parseInt(rest[0], 10) || 360
+      continue
+    }
+
+    if (block && remaining > 0) {
+      const angle = Number.parseFloat(keyword.replace(",", "."))
+      const loss = Number.parseFloat((rest[0] ?? "").replace(",", "."))
+      if (Number.isFinite(angle) && Number.isFinite(loss)) {
+        blocks[block].push([angle, loss])
+        remaining--
+        continue
+      }
+    }
+
+    block = null
+    header[upper] = rest.join(" ")
+  }
+
+  if (blocks.HORIZONTAL.length === 0 && blocks.VERTICAL.length === 0) {
+    throw new Error(`${fileName}: no HORIZONTAL or VERTICAL pattern data`)
+  }
+
+  const gainMatch = (header.GAIN ?? "").match(/(-?[\d.]+)\s*(dBi|dBd)?/i)
+  const gain = gainMatch ? Number.parseFloat(gainMatch[1]) : 0
+  const gainDbi = gainMatch?.[2]?.toLowerCase() === "dbi" ? gain : gain + DBD_TO_DBI
+
+  // "TILT ELECTRICAL 2" or "TILT 2"; mechanical tilt is applied on site, not in the pattern
+  const tiltMatch = (header.TILT ?? "").match(/(MECHANICAL|ELECTRICAL)?\s*(-?[\d.]+)/i)
+  const electricalTilt = tiltMatch && tiltMatch[1]?.toUpperCase() !== "MECHANICAL" ? Number.parseFloat(tiltMatch[2]) : 0
+
+  const name = header.NAME || stripExtension(fileName)
+  return {
+    id: createPatternId(name),
+    name,
+    make: header.MAKE ?? "",
+    frequencyMHz: header.FREQUENCY ? Number.parseFloat(header.FREQUENCY) || null : null,
+    gainDbi,
+    electricalTilt,
+    horizontal: resamplePattern(blocks.HORIZONTAL),
+    vertical: resamplePattern(blocks.VERTICAL),
+    source: "msi",
+    fileName,
+  }
+}
+
+/**
+ * Parse a simple CSV pattern: a header row with "angle" and "horizontal" and/or "vertical"
+ * attenuation columns (dB), plus an optional "gain_dbd" or "gain_dbi" column. Lines starting
+ * with # are ignored and the file name becomes the pattern name.
+ */
+export function parseCsvPattern(text: string, fileName: string): AntennaPatternData {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#"))
+    .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim()))
+
+  const headers = (rows.shift() ?? []).map((cell) => cell.toLowerCase())
+  const column = (name: string) => headers.indexOf(name)
+  const angleColumn = column("angle")
+  if (angleColumn === -1 || (column("horizontal") === -1 && column("vertical") === -1)) {
+    throw new Error(`${fileName}: expected an "angle" column and a "horizontal" or "vertical" column`)
+  }
+
+  const readColumn = (name: string): [number, number][] => {
+    const index = column(name)
+    if (index === -1) return []
+    return rows
+      .map((row): [number, number] => [Number.parseFloat(row[angleColumn]), Number.parseFloat(row[index])])
+      .filter(([angle, loss]) => Number.isFinite(angle) && Number.isFinite(loss))
+  }
+  const firstValue = (name: string) => readColumn(name)[0]?.[1]
+
+  const gainDbd = firstValue("gain_dbd")
+  const gainDbi = firstValue("gain_dbi") ?? (gainDbd !== undefined ? gainDbd + DBD_TO_DBI : DBD_TO_DBI)
+
+  const name = stripExtension(fileName)
+  return {
+    id: createPatternId(name),
+    name,
+    make: "",
+    frequencyMHz: null,
+    gainDbi,
+    electricalTilt: 0,
+    horizontal: resamplePattern(readColumn("horizontal")),
+    vertical: resamplePattern(readColumn("vertical")),
+    source: "csv",
+    fileName,
+  }
+}
+
+/**
+ * Parse a pattern file by extension (.msi, .pat or .csv)
+ */
+export function parseAntennaPatternFile(text: string, fileName: string): AntennaPatternData {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "csv") return parseCsvPattern(text, fileName)
+  if (extension === "msi" || extension === "pat" || extension === "txt") return parseMsiPattern(text, fileName)
+  throw new Error(`${fileName}: unsupported pattern file type`)
+}
@@ -0,0 +1,195 @@
+// Best-server composite: merge station coverage images into a single raster
+
+import type { Station } from "@/types/map"
+import { getCoverageLevel, hexToRgb, loadCoverageGrid, type Bounds, type CoverageGrid } from "@/lib/coverage-raster"
+
+export type CompositeMode = "level" | "station"
+
+export interface BestServerGrid {
+  bounds: Bounds
+  width: number
+  height: number
+  levels: Uint8Array // best coverage level value per pixel, 0 = no coverage
+  winners: Int16Array // index into stations of the best server, -1 = none
+  stations: Station[]
+}
+
+export interface CompositeResult {
+  imageUrl: string // PNG data URL georeferenced by bounds
+  bounds: Bounds
+  stationColors: { station: Station; color: string }[]
+}
+
+// Largest composite dimension in pixels
+const MAX_COMPOSITE_DIMENSION = 2048
+
+/**
+ * Bounding box enclosing every station's bounds
+ */
+export function getUnionBounds(stations: Station[]): Bounds | null {
+  if (stations.length === 0) return null
+
+  let south = Infinity, west = Infinity, north = -Infinity, east = -Infinity
+  stations.forEach((station) => {
+    const [[s, w], [n, e]] = station.bounds
+    south = Math.min(south, s)
+    west = Math.min(west, w)
+    north = Math.max(north, n)
+    east = Math.max(east, e)
+  })
+
+  return [[south, west], [north, east]]
+}
+
+/**
+ * Pick an output size that keeps the lat/lng aspect ratio of the bounds
+ */
+export function getGridSize(bounds: Bounds, maxDimension = MAX_COMPOSITE_DIMENSION): { width: number; height: number } {
+  const [[south, west], [north, east]] = bounds
+  const lngSpan = east - west
+  const latSpan = north - south
+  const scale = maxDimension / Math.max(lngSpan, latSpan)
+  return {
+    width: Math.max(1, Math.round(lngSpan * scale)),
+    height: Math.max(1, Math.round(latSpan * scale)),
+  }
+}
+
+/**
+ * Distinct colour for each station in "which station wins" mode
+ */
+export function getStationColor(index: number): string {
+  // Golden-angle hue steps keep neighbouring indices visually apart
+  const hue = Math.round((index * 137.508) % 360)
+  return `hsl(${hue}, 70%, 50%)`
+}
+
+/**
+ * Resample every station grid onto a common lat/lng grid and keep the strongest level per pixel.
+ * Ties keep the station listed first.
+ */
+export async function buildBestServerGrid(
+  stations: Station[],
+  bounds: Bounds,
+  width: number,
+  height: number
+): Promise<BestServerGrid> {
+  const levels = new Uint8Array(width * height)
+  const winners = new Int16Array(width * height).fill(-1)
+  const [[south, west], [north, east]] = bounds
+  const pixelLng = (east - west) / width
+  const pixelLat = (north - south) / height
+
+  for (let index = 0; index < stations.length; index++) {
+    const station = stations[index]
+    if (!station.imageUrl) continue
+
+    let grid: CoverageGrid
+    try {
+      grid = await loadCoverageGrid(station.imageUrl)
+    } catch (error) {
+      console.warn(`Skipping ${station.name} in composite:`, error)
+      continue
+    }
+
+    const [[sSouth, sWest], [sNorth, sEast]] = station.bounds
+    // Only walk the output pixels this station's image overlaps
+    const x0 = Math.max(0, Math.floor((sWest - west) / pixelLng))
+    const x1 = Math.min(width, Math.ceil((sEast - west) / pixelLng))
+    const y0 = Math.max(0, Math.floor((north - sNorth) / pixelLat))
+    const y1 = Math.min(height, Math.ceil((north - sSouth) / pixelLat))
+
+    for (let y = y0; y < y1; y++) {
+      const lat = north - (y + 0.5) * pixelLat
+      if (lat < sSouth || lat > sNorth) continue
+      const sy = Math.min(grid.height - 1, Math.floor(((sNorth - lat) / (sNorth - sSouth)) * grid.height))
+
+      for (let x = x0; x < x1; x++) {
+        const lng = west + (x + 0.5) * pixelLng
+        if (lng < sWest || lng > sEast) continue
+        const sx = Math.min(grid.width - 1, Math.floor(((lng - sWest) / (sEast - sWest)) * grid.width))
+
+        const value = grid.levels[sy * grid.width + sx]
+        const offset = y * width + x
+        if (value > levels[offset]) {
+          levels[offset] = value
+          winners[offset] = index
+        }
+      }
+    }
+  }
+
+  return { bounds, width, height, levels, winners, stations }
+}
+
+/**
+ * Render a per-pixel colour function into a PNG data URL
+ */
+export function renderGridToDataUrl(
+  width: number,
+  height: number,
+  colorAt: (offset: number) => [number, number, number, number] | null
+): string {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+
+  const image = ctx.createImageData(width, height)
+  for (let offset = 0; offset < width * height; offset++) {
+    const color = colorAt(offset)
+    if (!color) continue
+    image.data.set(color, offset * 4)
+  }
+
+  ctx.putImageData(image, 0, 0)
+  const dataUrl = canvas.toDataURL("image/png")
+  canvas.remove()
+  return dataUrl
+}
+
+/**
+ * Build the best-server composite image for a set of stations
+ * @param stations Stations to merge (callers pass the visible subset)
+ * @param mode "level" colours by best coverage level, "station" by winning station
+ */
+export async function buildCompositeCoverage(
+  stations: Station[],
+  mode: CompositeMode = "level"
+): Promise<CompositeResult | null> {
+  const sources = stations.filter((station) => station.imageUrl)
+  const bounds = getUnionBounds(sources)
+  if (!bounds) return null
+
+  const { width, height } = getGridSize(bounds)
+  const grid = await buildBestServerGrid(sources, bounds, width, height)
+
+  const levelColors = new Map<number, [number, number, number, number]>()
+  for (let value = 1; value <= 5; value++) {
+    const level = getCoverageLevel(value)
+    if (level) levelColors.set(value, [...hexToRgb(level.color), 255])
+  }
+  const stationColors = sources.map((station, index) => ({ station, color: getStationColor(index) }))
+  const stationRgba = stationColors.map(({ color }) => [...hslToRgb(color), 255] as [number, number, number, number])
+
+  const imageUrl = renderGridToDataUrl(width, height, (offset) => {
+    if (grid.levels[offset] === 0) return null
+    return mode === "station" ? stationRgba[grid.winners[offset]] : levelColors.get(grid.levels[offset]) ?? null
+  })
+
+  return { imageUrl, bounds, stationColors }
+}
+
+/**
+ * Convert an "hsl(h, s%, l%)" string to RGB
+ */
+function hslToRgb(hsl: string): [number, number, number] {
+  const [h, s, l] = (hsl.match(/[\d.]+/g) || ["0", "0", "0"]).map(Number)
+  const sat = s / 100
+  const light = l / 100
+  const k = (n: number) => (n + h / 30) % 12
+  const a = sat * Math.min(light, 1 - light)
+  const f = (n: number) => light - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)))
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)]
+}
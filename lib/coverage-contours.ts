@@ -0,0 +1,116 @@
+// Level contours: vectorise station coverage rasters into GeoJSON for GIS use
+
+import type { Station } from "@/types/map"
+import { coverageLevels } from "@/data/coveragelevel"
+import { formatLevelBand, loadCoverageGrid, type CoverageGrid } from "@/lib/coverage-raster"
+import { traceMaskPolygons, pixelPolygonsToLngLat } from "@/lib/raster-vectorize"
+
+export interface LevelContourProperties {
+  stationId: string
+  stationName: string
+  level: number
+  label: string
+  band: string
+  color: string
+  minDbm: number | null
+  maxDbm: number | null
+}
+
+export type LevelContourFeature = GeoJSON.Feature<GeoJSON.MultiPolygon, LevelContourProperties>
+
+export type LevelContourCollection = GeoJSON.FeatureCollection<GeoJSON.MultiPolygon, LevelContourProperties>
+
+// Rasters larger than this are downsampled before tracing to keep vertex counts manageable
+const MAX_CONTOUR_DIMENSION = 1024
+
+const contourCache = new Map<string, Promise<LevelContourCollection>>()
+
+/**
+ * Nearest-neighbour downsample of a level grid
+ */
+function downsampleGrid(grid: CoverageGrid, maxDimension: number): CoverageGrid {
+  const scale = Math.min(1, maxDimension / Math.max(grid.width, grid.height))
+  if (scale === 1) return grid
+
+  const width = Math.max(1, Math.round(grid.width * scale))
+  const height = Math.max(1, Math.round(grid.height * scale))
+  const levels = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(grid.height - 1, Math.floor(((y + 0.5) / height) * grid.height))
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(grid.width - 1, Math.floor(((x + 0.5) / width) * grid.width))
+      levels[y * width + x] = grid.levels[sy * grid.width + sx]
+    }
+  }
+  return { width, height, levels }
+}
+
+/**
+ * Trace one MultiPolygon feature per coverage level, georeferenced by the station bounds.
+ * Levels with no pixels are left out.
+ */
+export function buildLevelContours(station: Station, grid: CoverageGrid): LevelContourCollection {
+  const source = downsampleGrid(grid, MAX_CONTOUR_DIMENSION)
+  const mask = new Uint8Array(source.width * source.height)
+
+  const features = coverageLevels.flatMap((level): LevelContourFeature[] => {
+    let count = 0
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = source.levels[i] === level.value ? 1 : 0
+      count += mask[i]
+    }
+    if (count === 0) return []
+
+    const polygons = traceMaskPolygons(mask, source.width, source.height)
+    return [{
+      type: "Feature",
+      properties: {
+        stationId: station.id,
+        stationName: station.name,
+        level: level.value,
+        label: level.level,
+        band: formatLevelBand(level),
+        color: level.color,
+        minDbm: level.minDbm,
+        maxDbm: level.maxDbm,
+      },
+      geometry: {
+        type: "MultiPolygon",
+        coordinates: pixelPolygonsToLngLat(polygons, station.bounds, source.width, source.height),
+      },
+    }]
+  })
+
+  return { type: "FeatureCollection", features }
+}
+
+/**
+ * Load and vectorise a station's coverage image, cached by station and image
+ */
+export function getStationContours(station: Station): Promise<LevelContourCollection> {
+  const cacheKey = `${station.id}|${station.imageUrl}`
+  const cached = contourCache.get(cacheKey)
+  if (cached) return cached
+
+  const promise = loadCoverageGrid(station.imageUrl).then((grid) => buildLevelContours(station, grid))
+  promise.catch(() => contourCache.delete(cacheKey))
+  contourCache.set(cacheKey, promise)
+  return promise
+}
+
+/**
+ * Save a station's contours as a .geojson file
+ */
+export async function downloadStationContours(station: Station): Promise<void> {
+  const collection = await getStationContours(station)
+  const blob = new Blob([JSON.stringify(collection)], { type: "application/geo+json" })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${station.id}_coverage_contours.geojson`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
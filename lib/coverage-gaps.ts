@@ -0,0 +1,163 @@
+// Coverage gap finder: areas in a region that no station serves at a minimum level
+
+import type { Station } from "@/types/map"
+import type { Coordinates } from "@/lib/geo-utils"
+import type { Bounds } from "@/lib/coverage-raster"
+import { buildBestServerGrid, getGridSize, renderGridToDataUrl } from "@/lib/coverage-composite"
+import { calculateBoundsArea } from "@/lib/coverage-stats"
+import { traceMaskPolygons, pixelPolygonsToLngLat, type LngLatPolygon } from "@/lib/raster-vectorize"
+
+export interface CoverageGap {
+  id: number
+  areaKm2: number
+  centroid: Coordinates
+  bounds: Bounds
+  polygons: LngLatPolygon[] // traced outline, only for the largest gaps
+}
+
+export interface GapAnalysisResult {
+  region: Bounds
+  minLevel: number
+  gaps: CoverageGap[] // sorted largest first
+  gapKm2: number
+  regionKm2: number
+  overlayUrl: string // PNG data URL of every gap pixel, georeferenced by region
+}
+
+interface GapAnalysisOptions {
+  maxDimension?: number // analysis grid resolution
+  maxPolygons?: number // how many of the largest gaps get traced outlines
+  minPixels?: number // ignore specks smaller than this
+}
+
+const DEFAULT_GAP_OPTIONS: Required<GapAnalysisOptions> = {
+  maxDimension: 512,
+  maxPolygons: 10,
+  minPixels: 4,
+}
+
+// Translucent red used to paint gap pixels
+const GAP_COLOR: [number, number, number, number] = [220, 38, 38, 150]
+
+/**
+ * Find connected areas inside a region where no station reaches the minimum level
+ * @param stations Stations that count as serving (callers pass the visible subset)
+ * @param region Region to analyse
+ * @param minLevel Minimum acceptable coverage level value (1-5)
+ */
+export async function findCoverageGaps(
+  stations: Station[],
+  region: Bounds,
+  minLevel: number,
+  options: GapAnalysisOptions = {}
+): Promise<GapAnalysisResult> {
+  const opts = { ...DEFAULT_GAP_OPTIONS, ...options }
+  const { width, height } = getGridSize(region, opts.maxDimension)
+  const grid = await buildBestServerGrid(stations, region, width, height)
+
+  const mask = new Uint8Array(width * height)
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = grid.levels[i] < minLevel ? 1 : 0
+  }
+
+  const [[south, west], [north, east]] = region
+  const pixelLng = (east - west) / width
+  const pixelLat = (north - south) / height
+  const rowAreas = Array.from({ length: height }, (_, y) => {
+    const latTop = north - y * pixelLat
+    return calculateBoundsArea([[latTop - pixelLat, 0], [latTop, pixelLng]])
+  })
+
+  // Label 4-connected gap components with an iterative flood fill
+  const labels = new Int32Array(width * height).fill(-1)
+  const components: { pixels: number[]; areaKm2: number; sumLat: number; sumLng: number; minX: number; maxX: number; minY: number; maxY: number }[] = []
+  const stack: number[] = []
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start] !== -1) continue
+
+    const id = components.length
+    const component = { pixels: [] as number[], areaKm2: 0, sumLat: 0, sumLng: 0, minX: width, maxX: 0, minY: height, maxY: 0 }
+    labels[start] = id
+    stack.push(start)
+
+    while (stack.length > 0) {
+      const offset = stack.pop()!
+      const x = offset % width
+      const y = (offset - x) / width
+      const area = rowAreas[y]
+
+      component.pixels.push(offset)
+      component.areaKm2 += area
+      component.sumLat += (north - (y + 0.5) * pixelLat) * area
+      component.sumLng += (west + (x + 0.5) * pixelLng) * area
+      component.minX = Math.min(component.minX, x)
+      component.maxX = Math.max(component.maxX, x)
+      component.minY = Math.min(component.minY, y)
+      component.maxY = Math.max(component.maxY, y)
+
+      const neighbours = [
+        x > 0 ? offset - 1 : -1,
+        x < width - 1 ? offset + 1 : -1,
+        y > 0 ? offset - width : -1,
+        y < height - 1 ? offset + width : -1,
+      ]
+      for (const next of neighbours) {
+        if (next >= 0 && mask[next] && labels[next] === -1) {
+          labels[next] = id
+          stack.push(next)
+        }
+      }
+    }
+
+    components.push(component)
+  }
+
+  const ranked = components
+    .map((component, id) => ({ component, id }))
+    .filter(({ component }) => component.pixels.length >= opts.minPixels)
+    .sort((a, b) => b.component.areaKm2 - a.component.areaKm2)
+
+  const gaps: CoverageGap[] = ranked.map(({ component, id }, rank) => {
+    const gapBounds: Bounds = [
+      [north - (component.maxY + 1) * pixelLat, west + component.minX * pixelLng],
+      [north - component.minY * pixelLat, west + (component.maxX + 1) * pixelLng],
+    ]
+
+    let polygons: LngLatPolygon[] = []
+    if (rank < opts.maxPolygons) {
+      // Trace only this component, cropped to its bounding box
+      const cropWidth = component.maxX - component.minX + 1
+      const cropHeight = component.maxY - component.minY + 1
+      const cropMask = new Uint8Array(cropWidth * cropHeight)
+      component.pixels.forEach((offset) => {
+        const x = offset % width
+        const y = (offset - x) / width
+        cropMask[(y - component.minY) * cropWidth + (x - component.minX)] = 1
+      })
+      polygons = pixelPolygonsToLngLat(traceMaskPolygons(cropMask, cropWidth, cropHeight), gapBounds, cropWidth, cropHeight)
+    }
+
+    return {
+      id,
+      areaKm2: component.areaKm2,
+      centroid: {
+        latitude: component.sumLat / component.areaKm2,
+        longitude: component.sumLng / component.areaKm2,
+      },
+      bounds: gapBounds,
+      polygons,
+    }
+  })
+
+  const overlayUrl = renderGridToDataUrl(width, height, (offset) => (mask[offset] ? GAP_COLOR : null))
+
+  return {
+    region,
+    minLevel,
+    gaps,
+    gapKm2: gaps.reduce((sum, gap) => sum + gap.areaKm2, 0),
+    regionKm2: calculateBoundsArea(region),
+    overlayUrl,
+  }
+}
@@ -0,0 +1,184 @@
+// Predicted coverage overlays for transmitter sites and SFN risk layers, computed in a web worker
+
+import type { Station, TechnicalData } from "@/types/map"
+import { coverageLevels } from "@/data/coveragelevel"
+import { hexToRgb } from "@/lib/coverage-raster"
+import { getGridSize, renderGridToDataUrl } from "@/lib/coverage-composite"
+import { getElevationGrid } from "@/lib/dem"
+import { findSitePattern, loadAntennaCatalogue } from "@/lib/antenna-catalogue"
+import {
+  estimateCoverageRadiusKm,
+  getPredictionBounds,
+  predictCoverage,
+  siteFromTechnicalData,
+  type PredictionGrid,
+  type PredictionRequest,
+  type PropagationEnvironment,
+  type PropagationSite,
+} from "@/lib/propagation"
+import { computeSfnRiskGrid, renderSfnRiskLayer, type SfnRiskGrid, type SfnRiskLayer, type SfnRiskRequest } from "@/lib/sfn"
+import type { PredictionWorkerRequest, PredictionWorkerResponse } from "@/lib/propagation.worker"
+import { PREDICTION_RASTER, PREDICTION_RECEIVER, PROPAGATION_MODEL } from "@/constants/propagation"
+import { CACHE_SETTINGS } from "@/constants/performance"
+
+export interface PredictedCoverage {
+  station: Station // overlay with a PNG data URL coloured with the coverage levels
+  site: PropagationSite
+  grid: PredictionGrid
+  hasTerrain: boolean
+}
+
+// Predicted overlays are ordinary stations with this id prefix
+export const PREDICTED_STATION_PREFIX = "predicted-"
+
+// Keyed by site id and the parameters the prediction depends on
+const predictionCache = new Map<string, Promise<PredictedCoverage>>()
+
+type PredictionWorkerResult = Exclude<PredictionWorkerResponse, { error: string }>
+
+let worker: Worker | null = null
+let nextRequestId = 1
+const pendingRequests = new Map<number, { resolve: (result: PredictionWorkerResult) => void; reject: (error: Error) => void }>()
+
+export function getPredictedStationId(siteId: string): string {
+  return `${PREDICTED_STATION_PREFIX}${siteId}`
+}
+
+export function isPredictedStation(station: Station): boolean {
+  return station.id.startsWith(PREDICTED_STATION_PREFIX)
+}
+
+/**
+ * Whether a site already has an uploaded coverage image (stations are named after their site)
+ */
+export function hasCoverageImage(site: TechnicalData, stations: Station[]): boolean {
+  const name = site.stationNameThai.trim()
+  return stations.some((station) => !isPredictedStation(station) && station.imageUrl && station.name.trim() === name)
+}
+
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL("./propagation.worker.ts", import.meta.url))
+  worker.onmessage = (event: MessageEvent<PredictionWorkerResponse>) => {
+    const pending = pendingRequests.get(event.data.id)
+    if (!pending) return
+    pendingRequests.delete(event.data.id)
+    if ("error" in event.data) pending.reject(new Error(event.data.error))
+    else pending.resolve(event.data)
+  }
+  worker.onerror = (event) => {
+    // A crashed worker takes every queued request with it
+    pendingRequests.forEach(({ reject }) => reject(new Error(event.message || "Prediction worker failed")))
+    pendingRequests.clear()
+    worker?.terminate()
+    worker = null
+  }
+  return worker
+}
+
+function postToWorker(message: PredictionWorkerRequest, transfer: Transferable[] = []): Promise<PredictionWorkerResult> {
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(message.id, { resolve, reject })
+    getWorker().postMessage(message, transfer)
+  })
+}
+
+function runPrediction(request: PredictionRequest): Promise<PredictionGrid> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(predictCoverage(request))
+  }
+
+  return postToWorker({ id: nextRequestId++, request }, request.terrain ? [request.terrain.buffer as ArrayBuffer] : [])
+    .then((result) => {
+      if (!("grid" in result)) throw new Error("Prediction worker returned no coverage grid")
+      return result.grid
+    })
+}
+
+function runSfnRisk(request: SfnRiskRequest): Promise<SfnRiskGrid> {
+  if (typeof Worker === "undefined") {
+    return Promise.resolve(computeSfnRiskGrid(request))
+  }
+
+  return postToWorker({ id: nextRequestId++, sfnRisk: request }).then((result) => {
+    if (!("sfnGrid" in result)) throw new Error("Prediction worker returned no SFN grid")
+    return result.sfnGrid
+  })
+}
+
+/**
+ * Self-interference risk overlay for an SFN network, analysed in the worker and coloured here
+ */
+export async function buildSfnRiskLayer(request: SfnRiskRequest): Promise<SfnRiskLayer> {
+  return renderSfnRiskLayer(await runSfnRisk(request))
+}
+
+/**
+ * Predict a site's coverage and render it as a station overlay
+ */
+export function predictSiteCoverage(data: TechnicalData): Promise<PredictedCoverage> {
+  const measured = findSitePattern(data, loadAntennaCatalogue())
+  const key = [data.id, data.latitude, data.longitude, data.height, data.maxERP, data.feederLoss, data.hrp, data.beamTilt, measured?.id ?? ""].join("|")
+  const cached = predictionCache.get(key)
+  if (cached) return cached
+
+  const promise = (async () => {
+    const site = siteFromTechnicalData(data, measured)
+    if (!Number.isFinite(site.latitude) || !Number.isFinite(site.longitude) || !Number.isFinite(site.erpDbm)) {
+      throw new Error(`Site ${site.name} has no usable position or ERP`)
+    }
+
+    const environment = PROPAGATION_MODEL.ENVIRONMENT as PropagationEnvironment
+    const radiusKm = estimateCoverageRadiusKm(
+      site,
+      PROPAGATION_MODEL.FREQUENCY_MHZ,
+      environment,
+      PREDICTION_RECEIVER.HEIGHT_M,
+      PREDICTION_RECEIVER.GAIN_DBI,
+      PREDICTION_RASTER.FLOOR_DBM
+    )
+    const bounds = getPredictionBounds(site.latitude, site.longitude, radiusKm)
+    const { width, height } = getGridSize(bounds, PREDICTION_RASTER.MAX_DIMENSION)
+    const terrain = await getElevationGrid(bounds, width, height)
+
+    const grid = await runPrediction({
+      site,
+      bounds,
+      width,
+      height,
+      terrain,
+      frequencyMHz: PROPAGATION_MODEL.FREQUENCY_MHZ,
+      environment,
+      receiverHeight: PREDICTION_RECEIVER.HEIGHT_M,
+      receiverGain: PREDICTION_RECEIVER.GAIN_DBI,
+      thresholds: coverageLevels.map(({ value, minDbm }) => ({ value, minDbm })),
+      floorDbm: PREDICTION_RASTER.FLOOR_DBM,
+      radials: PREDICTION_RASTER.RADIALS,
+    })
+
+    // Exact level colours so the raster decodes like an uploaded coverage image
+    const colors = new Map(coverageLevels.map((level) => [level.value, [...hexToRgb(level.color), 255] as [number, number, number, number]]))
+    const imageUrl = renderGridToDataUrl(width, height, (offset) => colors.get(grid.levels[offset]) ?? null)
+
+    const station: Station = {
+      id: getPredictedStationId(data.id),
+      name: `${site.name} (คาดการณ์)`,
+      bounds,
+      imageUrl,
+      visible: true,
+    }
+    return { station, site, grid, hasTerrain: terrain !== null }
+  })()
+
+  promise.catch(() => predictionCache.delete(key))
+  predictionCache.set(key, promise)
+
+  // Drop the oldest predictions once the cache is full
+  while (predictionCache.size > CACHE_SETTINGS.MAX_CACHED_IMAGES) {
+    const oldest = predictionCache.keys().next().value
+    if (oldest === undefined) break
+    predictionCache.delete(oldest)
+  }
+  return promise
+}
@@ -0,0 +1,229 @@
+// Utilities for decoding station coverage images into signal levels
+
+import { coverageLevels } from "@/data/coveragelevel"
+import type { CoverageLevel, Station } from "@/types/map"
+import type { Coordinates } from "@/lib/geo-utils"
+
+export type Bounds = [[number, number], [number, number]] // [[swLat, swLng], [neLat, neLng]]
+
+export interface CoverageRaster {
+  width: number
+  height: number
+  data: Uint8ClampedArray // RGBA, row-major from the north-west corner
+}
+
+export interface CoverageGrid {
+  width: number
+  height: number
+  levels: Uint8Array // coverage level value per pixel, 0 = no coverage
+}
+
+export interface CoverageSample {
+  station: Station
+  level: CoverageLevel
+}
+
+// Largest image dimension decoded into memory; bigger images are downsampled
+const MAX_RASTER_DIMENSION = 2048
+// Maximum RGB distance for a pixel to be matched to a legend colour
+const COLOR_TOLERANCE = 80
+// Pixels more transparent than this are treated as "no coverage"
+const MIN_ALPHA = 32
+
+const palette = coverageLevels.map((level) => ({ level, rgb: hexToRgb(level.color) }))
+
+// Cache decoded level grids by image URL (shared by all coverage tools)
+const gridCache = new Map<string, Promise<CoverageGrid>>()
+
+/**
+ * Convert a #RRGGBB colour to an RGB tuple
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = Number.parseInt(hex.replace("#", ""), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * Look up a coverage level by its numeric value (1-5)
+ */
+export function getCoverageLevel(value: number): CoverageLevel | undefined {
+  return coverageLevels.find((level) => level.value === value)
+}
+
+/**
+ * Classify a single pixel against the coverage legend colours
+ * @returns Matching coverage level, or null for transparent/unknown colours
+ */
+export function classifyPixel(r: number, g: number, b: number, a = 255): CoverageLevel | null {
+  if (a < MIN_ALPHA) return null
+
+  let best: CoverageLevel | null = null
+  let bestDistance = Infinity
+
+  for (const entry of palette) {
+    const dr = r - entry.rgb[0]
+    const dg = g - entry.rgb[1]
+    const db = b - entry.rgb[2]
+    const distance = Math.sqrt(dr * dr + dg * dg + db * db)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = entry.level
+    }
+  }
+
+  return bestDistance <= COLOR_TOLERANCE ? best : null
+}
+
+/**
+ * Classify every pixel of an RGBA raster into coverage level values
+ */
+export function classifyRaster(raster: CoverageRaster): CoverageGrid {
+  const levels = new Uint8Array(raster.width * raster.height)
+  // Coverage images use few distinct colours, so memoise the classification
+  const colorLookup = new Map<number, number>()
+  const { data } = raster
+
+  for (let i = 0; i < levels.length; i++) {
+    const offset = i * 4
+    const a = data[offset + 3]
+    if (a < MIN_ALPHA) continue
+
+    const key = (data[offset] << 16) | (data[offset + 1] << 8) | data[offset + 2]
+    let value = colorLookup.get(key)
+    if (value === undefined) {
+      value = classifyPixel(data[offset], data[offset + 1], data[offset + 2], a)?.value ?? 0
+      colorLookup.set(key, value)
+    }
+    levels[i] = value
+  }
+
+  return { width: raster.width, height: raster.height, levels }
+}
+
+/**
+ * Load an image URL into an RGBA raster via an offscreen canvas.
+ * The image host must allow CORS, otherwise the canvas is tainted and this rejects.
+ * @param maxDimension - Images larger than this are downsampled (nearest neighbour)
+ */
+export function loadCoverageRaster(imageUrl: string, maxDimension = MAX_RASTER_DIMENSION): Promise<CoverageRaster> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight))
+        const width = Math.max(1, Math.round(img.naturalWidth * scale))
+        const height = Math.max(1, Math.round(img.naturalHeight * scale))
+
+        const canvas = document.createElement("canvas")
+        canvas.width = width
+        canvas.height = height
+        const ctx = canvas.getContext("2d", { willReadFrequently: true })
+        if (!ctx) throw new Error("Could not get canvas context")
+
+        // Nearest-neighbour scaling keeps legend colours intact
+        ctx.imageSmoothingEnabled = false
+        ctx.drawImage(img, 0, 0, width, height)
+        const { data } = ctx.getImageData(0, 0, width, height)
+        canvas.remove()
+
+        resolve({ width, height, data })
+      } catch (error) {
+        reject(error)
+      }
+    }
+    img.onerror = () => reject(new Error(`Failed to load coverage image: ${imageUrl}`))
+
+    img.src = imageUrl
+  })
+}
+
+/**
+ * Load and classify a coverage image, cached by URL
+ */
+export function loadCoverageGrid(imageUrl: string): Promise<CoverageGrid> {
+  const cached = gridCache.get(imageUrl)
+  if (cached) return cached
+
+  const promise = loadCoverageRaster(imageUrl).then(classifyRaster)
+  // Drop failed loads so they can be retried later
+  promise.catch(() => gridCache.delete(imageUrl))
+  gridCache.set(imageUrl, promise)
+  return promise
+}
+
+/**
+ * Clear decoded coverage grids
+ */
+export function clearCoverageGridCache(): void {
+  gridCache.clear()
+}
+
+/**
+ * Check whether a point lies inside a [[swLat, swLng], [neLat, neLng]] box
+ */
+export function isPointInBounds(bounds: Bounds, point: Coordinates): boolean {
+  const [[south, west], [north, east]] = bounds
+  return (
+    point.latitude >= south &&
+    point.latitude <= north &&
+    point.longitude >= west &&
+    point.longitude <= east
+  )
+}
+
+/**
+ * Read the coverage level value of a grid at a geographic point.
+ * Images are treated as a linear lat/lng grid spanning the bounds.
+ * @returns Level value 1-5, or 0 when outside the image or uncovered
+ */
+export function sampleGrid(grid: CoverageGrid, bounds: Bounds, point: Coordinates): number {
+  if (!isPointInBounds(bounds, point)) return 0
+
+  const [[south, west], [north, east]] = bounds
+  const x = Math.min(grid.width - 1, Math.floor(((point.longitude - west) / (east - west)) * grid.width))
+  const y = Math.min(grid.height - 1, Math.floor(((north - point.latitude) / (north - south)) * grid.height))
+
+  return grid.levels[y * grid.width + x]
+}
+
+/**
+ * Decode the coverage level every station delivers at a point.
+ * Stations whose bounds do not contain the point are skipped without loading their image.
+ * @returns Covering stations sorted from strongest to weakest level
+ */
+export async function sampleCoverageAt(stations: Station[], point: Coordinates): Promise<CoverageSample[]> {
+  const candidates = stations.filter((station) => station.imageUrl && isPointInBounds(station.bounds, point))
+
+  const results = await Promise.all(
+    candidates.map(async (station) => {
+      try {
+        const grid = await loadCoverageGrid(station.imageUrl)
+        const level = getCoverageLevel(sampleGrid(grid, station.bounds, point))
+        return level ? { station, level } : null
+      } catch (error) {
+        console.warn(`Failed to decode coverage for ${station.name}:`, error)
+        return null
+      }
+    })
+  )
+
+  return (results.filter(Boolean) as CoverageSample[]).sort((a, b) => b.level.value - a.level.value)
+}
+
+/**
+ * Format the dBm band of a coverage level, e.g. "-70 to -80 dBm"
+ */
+export function formatLevelBand(level: CoverageLevel): string {
+  if (level.maxDbm === null) return `> ${level.minDbm} dBm`
+  if (level.minDbm === null) return `< ${level.maxDbm} dBm`
+  return `${level.maxDbm} to ${level.minDbm} dBm`
+}
+
+/**
+ * Format a coverage level for display, e.g. "Level 4 (-70 to -80 dBm)"
+ */
+export function formatCoverageLevel(level: CoverageLevel): string {
+  return `Level ${level.value} (${formatLevelBand(level)})`
+}
@@ -0,0 +1,102 @@
+// Coverage area statistics computed from decoded coverage images
+
+import { coverageLevels } from "@/data/coveragelevel"
+import type { Station } from "@/types/map"
+import { loadCoverageGrid, type Bounds, type CoverageGrid } from "@/lib/coverage-raster"
+
+export interface CoverageAreaStats {
+  stationId: string
+  levelAreas: Record<number, number> // km² per coverage level value (1-5)
+  coveredKm2: number // km² with any coverage level
+  boundsKm2: number // km² of the whole bounds box
+}
+
+const EARTH_RADIUS_KM = 6371
+
+// Cache computed statistics by station id and image URL
+const statsCache = new Map<string, Promise<CoverageAreaStats>>()
+
+/**
+ * Area of the spherical band between two latitudes, per radian of longitude.
+ * Using sin(lat) differences corrects for meridian convergence at higher latitudes.
+ */
+function bandAreaPerRadian(latTop: number, latBottom: number): number {
+  const toRad = Math.PI / 180
+  return EARTH_RADIUS_KM * EARTH_RADIUS_KM * Math.abs(Math.sin(latTop * toRad) - Math.sin(latBottom * toRad))
+}
+
+/**
+ * Real-world area in km² of a [[swLat, swLng], [neLat, neLng]] box
+ */
+export function calculateBoundsArea(bounds: Bounds): number {
+  const [[south, west], [north, east]] = bounds
+  return bandAreaPerRadian(north, south) * Math.abs(east - west) * (Math.PI / 180)
+}
+
+/**
+ * Sum the area of each coverage level in a grid georeferenced by bounds.
+ * Each pixel row gets the true area of its latitude band, so rows near the pole count less.
+ */
+export function calculateLevelAreas(grid: CoverageGrid, bounds: Bounds): Record<number, number> {
+  const [[south, west], [north, east]] = bounds
+  const pixelWidthRad = (Math.abs(east - west) / grid.width) * (Math.PI / 180)
+  const rowHeightDeg = (north - south) / grid.height
+
+  const levelAreas: Record<number, number> = {}
+  coverageLevels.forEach((level) => {
+    levelAreas[level.value] = 0
+  })
+
+  for (let y = 0; y < grid.height; y++) {
+    const latTop = north - y * rowHeightDeg
+    const pixelArea = bandAreaPerRadian(latTop, latTop - rowHeightDeg) * pixelWidthRad
+    const rowOffset = y * grid.width
+
+    for (let x = 0; x < grid.width; x++) {
+      const value = grid.levels[rowOffset + x]
+      if (value > 0) levelAreas[value] += pixelArea
+    }
+  }
+
+  return levelAreas
+}
+
+/**
+ * Sum the area served at or above a minimum coverage level
+ */
+export function getAreaAtOrAbove(stats: CoverageAreaStats, minLevel: number): number {
+  return Object.entries(stats.levelAreas)
+    .filter(([value]) => Number(value) >= minLevel)
+    .reduce((sum, [, area]) => sum + area, 0)
+}
+
+/**
+ * Compute per-level coverage area for a station, cached by station and image
+ */
+export function getStationCoverageStats(station: Station): Promise<CoverageAreaStats> {
+  const cacheKey = `${station.id}|${station.imageUrl}`
+  const cached = statsCache.get(cacheKey)
+  if (cached) return cached
+
+  const promise = loadCoverageGrid(station.imageUrl).then((grid) => {
+    const levelAreas = calculateLevelAreas(grid, station.bounds)
+    return {
+      stationId: station.id,
+      levelAreas,
+      coveredKm2: Object.values(levelAreas).reduce((sum, area) => sum + area, 0),
+      boundsKm2: calculateBoundsArea(station.bounds),
+    }
+  })
+  promise.catch(() => statsCache.delete(cacheKey))
+  statsCache.set(cacheKey, promise)
+  return promise
+}
+
+/**
+ * Format an area in km² for display
+ */
+export function formatArea(km2: number): string {
+  if (km2 < 10) return `${km2.toFixed(2)} km²`
+  if (km2 < 1000) return `${km2.toFixed(1)} km²`
+  return `${Math.round(km2).toLocaleString()} km²`
+}
@@ -0,0 +1,169 @@
+// Server-side tile pyramids of station coverage images, warped to Web Mercator and cached on disk
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "fs/promises"
+import { createHash } from "crypto"
+import path from "path"
+import sharp from "sharp"
+import type { Bounds } from "@/lib/coverage-raster"
+import { tileIntersectsBounds, tileXToLng, tileYToLat, type TileCoordinates } from "@/lib/coverage-tiles"
+import type { Station } from "@/types/map"
+import { COVERAGE_TILES } from "@/constants/performance"
+
+interface SourceImage {
+  width: number
+  height: number
+  data: Buffer // RGBA
+}
+
+const CACHE_DIR = path.resolve(process.cwd(), process.env.COVERAGE_TILES_PATH || COVERAGE_TILES.CACHE_DIR)
+
+// Decoded station images by URL, so neighbouring tiles do not download and decode them again
+const sourceCache = new Map<string, Promise<SourceImage>>()
+// Tiles being rendered by cache path, so concurrent requests for a tile render it once
+const pendingTiles = new Map<string, Promise<Buffer>>()
+// Version whose siblings have been pruned, by station cache directory
+const prunedStations = new Map<string, string>()
+
+/**
+ * Version of a station's tile pyramid: a hash of its image URL and bounds, so editing a station
+ * starts a new pyramid under a new URL
+ */
+export function getTileVersion(station: Pick<Station, "imageUrl" | "bounds">): string {
+  return createHash("sha1").update(`${station.imageUrl}|${station.bounds.flat().join(",")}`).digest("hex").slice(0, 12)
+}
+
+// Delete a station's tiles from earlier versions, once per version and process
+async function pruneOldVersions(stationDir: string, version: string): Promise<void> {
+  if (prunedStations.get(stationDir) === version) return
+  prunedStations.set(stationDir, version)
+
+  const entries = await readdir(stationDir).catch(() => [])
+  await Promise.all(
+    entries
+      .filter((entry) => entry !== version)
+      .map((entry) => rm(path.join(stationDir, entry), { recursive: true, force: true }))
+  )
+}
+
+/**
+ * Download and decode a station image to RGBA, scaled down to COVERAGE_TILES.MAX_SOURCE_DIMENSION
+ * so that each cached image stays bounded in memory. Nearest-neighbour scaling keeps legend colours exact.
+ */
+async function decodeSourceImage(imageUrl: string): Promise<SourceImage> {
+  const response = await fetch(imageUrl)
+  if (!response.ok) throw new Error(`Failed to fetch ${imageUrl}: ${response.status} ${response.statusText}`)
+
+  const { data, info } = await sharp(Buffer.from(await response.arrayBuffer()), {
+    limitInputPixels: COVERAGE_TILES.MAX_INPUT_PIXELS,
+  })
+    .resize({
+      width: COVERAGE_TILES.MAX_SOURCE_DIMENSION,
+      height: COVERAGE_TILES.MAX_SOURCE_DIMENSION,
+      fit: "inside",
+      withoutEnlargement: true,
+      kernel: "nearest",
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+  return { width: info.width, height: info.height, data }
+}
+
+function loadSourceImage(imageUrl: string): Promise<SourceImage> {
+  const cached = sourceCache.get(imageUrl)
+  if (cached) return cached
+
+  const promise = decodeSourceImage(imageUrl)
+  promise.catch(() => sourceCache.delete(imageUrl))
+  sourceCache.set(imageUrl, promise)
+
+  // Drop the oldest images once the cache is full
+  while (sourceCache.size > COVERAGE_TILES.MAX_SOURCE_IMAGES) {
+    const oldest = sourceCache.keys().next().value
+    if (oldest === undefined) break
+    sourceCache.delete(oldest)
+  }
+  return promise
+}
+
+/**
+ * Cut one tile out of an image whose rows are evenly spaced in latitude. Each tile pixel
+ * takes the nearest source pixel at its lat/lng, which applies the Mercator warp and keeps
+ * legend colours exact.
+ */
+function renderTile(source: SourceImage, bounds: Bounds, { z, x, y }: TileCoordinates): Buffer {
+  const size = COVERAGE_TILES.TILE_SIZE
+  const [[south, west], [north, east]] = bounds
+  const tile = Buffer.alloc(size * size * 4)
+
+  // Longitude depends only on the column and latitude only on the row
+  const sourceCols = new Int32Array(size)
+  for (let col = 0; col < size; col++) {
+    const lng = tileXToLng(x + (col + 0.5) / size, z)
+    sourceCols[col] = lng < west || lng >= east ? -1 : Math.floor(((lng - west) / (east - west)) * source.width)
+  }
+
+  for (let row = 0; row < size; row++) {
+    const lat = tileYToLat(y + (row + 0.5) / size, z)
+    if (lat <= south || lat > north) continue
+    const sourceRow = Math.min(source.height - 1, Math.floor(((north - lat) / (north - south)) * source.height))
+
+    for (let col = 0; col < size; col++) {
+      if (sourceCols[col] < 0) continue
+      const from = (sourceRow * source.width + Math.min(source.width - 1, sourceCols[col])) * 4
+      source.data.copy(tile, (row * size + col) * 4, from, from + 4)
+    }
+  }
+  return tile
+}
+
+async function renderTilePng(station: Station, coordinates: TileCoordinates, cachePath: string): Promise<Buffer> {
+  const source = await loadSourceImage(station.imageUrl)
+  const size = COVERAGE_TILES.TILE_SIZE
+  const png = await sharp(renderTile(source, station.bounds, coordinates), {
+    raw: { width: size, height: size, channels: 4 },
+  })
+    .png({ compressionLevel: 9, adaptiveFiltering: true })
+    .toBuffer()
+
+  // Write to a temporary file first so a crash never leaves half a tile behind
+  await mkdir(path.dirname(cachePath), { recursive: true })
+  const temporaryPath = `${cachePath}.${process.pid}.tmp`
+  await writeFile(temporaryPath, png)
+  await rename(temporaryPath, cachePath)
+  return png
+}
+
+/**
+ * PNG tile of a station's coverage image, rendered on first request and then read from the
+ * disk cache. Tiles are stored by getTileVersion, and earlier versions are deleted once a
+ * station's current version is requested.
+ * @returns null when the tile lies outside the station's bounds or zoom range
+ */
+export async function getStationTile(station: Station, coordinates: TileCoordinates): Promise<Buffer | null> {
+  if (!tileIntersectsBounds(coordinates, station.bounds)) return null
+
+  const version = getTileVersion(station)
+  const stationDir = path.join(CACHE_DIR, station.id.replace(/[^\w-]/g, "_"))
+  await pruneOldVersions(stationDir, version)
+
+  const { z, x, y } = coordinates
+  const cachePath = path.join(stationDir, version, `${z}`, `${x}`, `${y}.png`)
+
+  try {
+    return await readFile(cachePath)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+  }
+
+  const pending = pendingTiles.get(cachePath)
+  if (pending) return pending
+
+  const promise = renderTilePng(station, coordinates, cachePath)
+  pendingTiles.set(cachePath, promise)
+  try {
+    return await promise
+  } finally {
+    pendingTiles.delete(cachePath)
+  }
+}
@@ -0,0 +1,118 @@
+// XYZ tile pyramids of station coverage images: shared tile maths and the manifest client
+
+import type { Bounds } from "@/lib/coverage-raster"
+import { isGeoTiffUrl } from "@/lib/geotiff-url"
+import { latToMercatorY, mercatorYToLat } from "@/lib/mercator-warp"
+import type { Station } from "@/types/map"
+import { COVERAGE_TILES } from "@/constants/performance"
+
+export interface TiledStation {
+  imageUrl: string
+  bounds: Bounds
+  version: string // of the image and bounds, part of tile URLs so edits are never served stale
+}
+
+export interface TileManifest {
+  tileSize: number
+  minZoom: number
+  maxNativeZoom: number
+  stations: Record<string, TiledStation> // by station id
+}
+
+export interface TileCoordinates {
+  z: number
+  x: number
+  y: number
+}
+
+const EMPTY_MANIFEST: TileManifest = {
+  tileSize: COVERAGE_TILES.TILE_SIZE,
+  minZoom: COVERAGE_TILES.MIN_ZOOM,
+  maxNativeZoom: COVERAGE_TILES.MAX_NATIVE_ZOOM,
+  stations: {},
+}
+
+let manifestPromise: Promise<TileManifest> | null = null
+
+/**
+ * Whether the server can cut a station's image into tiles: remote raster images only, as GeoTIFFs
+ * are reprojected in the browser and imported files never reach the server
+ */
+export function canTileStation(station: Pick<Station, "imageUrl">): boolean {
+  return /^https?:\/\//i.test(station.imageUrl) && !isGeoTiffUrl(station.imageUrl)
+}
+
+/**
+ * Longitude of the west edge of tile column x (x may be fractional)
+ */
+export function tileXToLng(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180
+}
+
+/**
+ * Latitude of the north edge of tile row y (y may be fractional)
+ */
+export function tileYToLat(y: number, z: number): number {
+  return mercatorYToLat(Math.PI * (1 - (2 * y) / 2 ** z))
+}
+
+/**
+ * Tile column containing a longitude, clamped to the world
+ */
+export function lngToTileX(lng: number, z: number): number {
+  return Math.min(2 ** z - 1, Math.max(0, Math.floor(((lng + 180) / 360) * 2 ** z)))
+}
+
+/**
+ * Tile row containing a latitude, clamped to the Web Mercator range
+ */
+export function latToTileY(lat: number, z: number): number {
+  return Math.min(2 ** z - 1, Math.max(0, Math.floor(((1 - latToMercatorY(lat) / Math.PI) / 2) * 2 ** z)))
+}
+
+/**
+ * Whether a tile is a valid tile of the pyramid that overlaps the bounds
+ */
+export function tileIntersectsBounds({ z, x, y }: TileCoordinates, bounds: Bounds): boolean {
+  if (z < COVERAGE_TILES.MIN_ZOOM || z > COVERAGE_TILES.MAX_NATIVE_ZOOM) return false
+  if (x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) return false
+
+  const [[south, west], [north, east]] = bounds
+  return (
+    tileXToLng(x, z) < east &&
+    tileXToLng(x + 1, z) > west &&
+    tileYToLat(y, z) > south &&
+    tileYToLat(y + 1, z) < north
+  )
+}
+
+/**
+ * Stations the server serves as tile pyramids. Resolves to an empty manifest when the
+ * tile service is unavailable, so callers fall back to single image overlays.
+ */
+export function loadTileManifest(): Promise<TileManifest> {
+  if (!manifestPromise) {
+    manifestPromise = fetch("/api/tiles")
+      .then((response) => {
+        if (!response.ok) throw new Error(`Tile manifest request failed: ${response.status}`)
+        return response.json() as Promise<TileManifest>
+      })
+      .catch((error) => {
+        console.warn("Coverage tiles unavailable, using single image overlays:", error)
+        manifestPromise = null
+        return EMPTY_MANIFEST
+      })
+  }
+  return manifestPromise
+}
+
+/**
+ * L.tileLayer URL template for a station, or null when the server has no tiles for its
+ * current image and bounds (e.g. an imported or edited station)
+ */
+export function getStationTileUrl(manifest: TileManifest, station: Station): string | null {
+  const tiled = manifest.stations[station.id]
+  if (!tiled || tiled.imageUrl !== station.imageUrl) return null
+  if (tiled.bounds.flat().join(",") !== station.bounds.flat().join(",")) return null
+  return `/api/tiles/${encodeURIComponent(station.id)}/${tiled.version}/{z}/{x}/{y}.png`
+}
@@ -0,0 +1,195 @@
+// Coordinate reference systems used by georeferenced rasters: WGS84, UTM and Web Mercator
+
+import type { Coordinates } from "@/lib/geo-utils"
+
+export interface Crs {
+  code: number // EPSG code
+  name: string
+  isGeographic: boolean
+  toLatLng: (x: number, y: number) => Coordinates // WGS84
+  fromLatLng: (latitude: number, longitude: number) => [number, number] // [x, y]
+}
+
+interface Ellipsoid {
+  a: number // semi-major axis (m)
+  f: number // flattening
+}
+
+// Shift from a local datum to WGS84 (m), applied to geocentric coordinates
+type DatumShift = [number, number, number]
+
+const WGS84: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 }
+// Everest 1830 (1937 adjustment), the ellipsoid of Indian 1975
+const EVEREST_1830: Ellipsoid = { a: 6377276.345, f: 1 / 300.8017 }
+// Indian 1975 to WGS84 for Thailand (EPSG:1304)
+const INDIAN_1975_SHIFT: DatumShift = [210, 814, 289]
+
+const UTM_SCALE = 0.9996
+const UTM_FALSE_EASTING = 500000
+const UTM_FALSE_NORTHING_SOUTH = 10000000
+const WEB_MERCATOR_RADIUS = 6378137
+
+const toRad = Math.PI / 180
+const toDeg = 180 / Math.PI
+
+/**
+ * Transverse Mercator on an ellipsoid using the Krüger series to third order (sub-millimetre
+ * within a UTM zone)
+ */
+function createTransverseMercator(ellipsoid: Ellipsoid, centralMeridian: number, falseNorthing: number) {
+  const { a, f } = ellipsoid
+  const n = f / (2 - f)
+  const n2 = n * n
+  const n3 = n2 * n
+  const e = (2 * Math.sqrt(n)) / (1 + n)
+  const radius = (a / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64)
+  const alpha = [n / 2 - (2 * n2) / 3 + (5 * n3) / 16, (13 * n2) / 48 - (3 * n3) / 5, (61 * n3) / 240]
+  const beta = [n / 2 - (2 * n2) / 3 + (37 * n3) / 96, n2 / 48 + n3 / 15, (17 * n3) / 480]
+  const delta = [2 * n - (2 * n2) / 3 - 2 * n3, (7 * n2) / 3 - (8 * n3) / 5, (56 * n3) / 15]
+  const scale = UTM_SCALE * radius
+
+  const forward = (latitude: number, longitude: number): [number, number] => {
+    const phi = latitude * toRad
+    const lambda = (longitude - centralMeridian) * toRad
+    const sinPhi = Math.sin(phi)
+    const t = Math.sinh(Math.atanh(sinPhi) - e * Math.atanh(e * sinPhi))
+    const xiPrime = Math.atan2(t, Math.cos(lambda))
+    const etaPrime = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t))
+
+    let xi = xiPrime
+    let eta = etaPrime
+    for (let j = 1; j <= 3; j++) {
+      xi += alpha[j - 1] * Math.sin(2 * j * xiPrime) * Math.cosh(2 * j * etaPrime)
+      eta += alpha[j - 1] * Math.cos(2 * j * xiPrime) * Math.sinh(2 * j * etaPrime)
+    }
+    return [UTM_FALSE_EASTING + scale * eta, falseNorthing + scale * xi]
+  }
+
+  const inverse = (easting: number, northing: number): Coordinates => {
+    const xi = (northing - falseNorthing) / scale
+    const eta = (easting - UTM_FALSE_EASTING) / scale
+
+    let xiPrime = xi
+    let etaPrime = eta
+    for (let j = 1; j <= 3; j++) {
+      xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta)
+      etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta)
+    }
+
+    const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime))
+    let phi = chi
+    for (let j = 1; j <= 3; j++) phi += delta[j - 1] * Math.sin(2 * j * chi)
+
+    return {
+      latitude: phi * toDeg,
+      longitude: centralMeridian + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)) * toDeg,
+    }
+  }
+
+  return { forward, inverse }
+}
+
+function toGeocentric({ a, f }: Ellipsoid, latitude: number, longitude: number): [number, number, number] {
+  const e2 = f * (2 - f)
+  const phi = latitude * toRad
+  const lambda = longitude * toRad
+  const nu = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2)
+  return [nu * Math.cos(phi) * Math.cos(lambda), nu * Math.cos(phi) * Math.sin(lambda), nu * (1 - e2) * Math.sin(phi)]
+}
+
+function fromGeocentric({ a, f }: Ellipsoid, x: number, y: number, z: number): Coordinates {
+  const e2 = f * (2 - f)
+  const p = Math.hypot(x, y)
+  // A few fixed-point steps converge far below a millimetre at ground level
+  let phi = Math.atan2(z, p * (1 - e2))
+  for (let i = 0; i < 4; i++) {
+    const nu = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2)
+    phi = Math.atan2(z + e2 * nu * Math.sin(phi), p)
+  }
+  return { latitude: phi * toDeg, longitude: Math.atan2(y, x) * toDeg }
+}
+
+/**
+ * Move a lat/lng between a local datum and WGS84 with a three-parameter shift
+ */
+function shiftDatum(
+  from: Ellipsoid,
+  to: Ellipsoid,
+  shift: DatumShift,
+  sign: 1 | -1,
+  latitude: number,
+  longitude: number
+): Coordinates {
+  const [x, y, z] = toGeocentric(from, latitude, longitude)
+  return fromGeocentric(to, x + sign * shift[0], y + sign * shift[1], z + sign * shift[2])
+}
+
+function createUtm(code: number, zone: number, south: boolean, datum?: { ellipsoid: Ellipsoid; shift: DatumShift; name: string }): Crs {
+  const ellipsoid = datum?.ellipsoid ?? WGS84
+  const projection = createTransverseMercator(ellipsoid, zone * 6 - 183, south ? UTM_FALSE_NORTHING_SOUTH : 0)
+
+  return {
+    code,
+    name: `${datum?.name ?? "WGS 84"} / UTM zone ${zone}${south ? "S" : "N"}`,
+    isGeographic: false,
+    toLatLng: (x, y) => {
+      const local = projection.inverse(x, y)
+      return datum ? shiftDatum(datum.ellipsoid, WGS84, datum.shift, 1, local.latitude, local.longitude) : local
+    },
+    fromLatLng: (latitude, longitude) => {
+      if (!datum) return projection.forward(latitude, longitude)
+      const local = shiftDatum(WGS84, datum.ellipsoid, datum.shift, -1, latitude, longitude)
+      return projection.forward(local.latitude, local.longitude)
+    },
+  }
+}
+
+const WGS84_GEOGRAPHIC: Crs = {
+  code: 4326,
+  name: "WGS 84",
+  isGeographic: true,
+  toLatLng: (x, y) => ({ latitude: y, longitude: x }),
+  fromLatLng: (latitude, longitude) => [longitude, latitude],
+}
+
+const WEB_MERCATOR: Crs = {
+  code: 3857,
+  name: "WGS 84 / Pseudo-Mercator",
+  isGeographic: false,
+  toLatLng: (x, y) => ({
+    latitude: (2 * Math.atan(Math.exp(y / WEB_MERCATOR_RADIUS)) - Math.PI / 2) * toDeg,
+    longitude: (x / WEB_MERCATOR_RADIUS) * toDeg,
+  }),
+  fromLatLng: (latitude, longitude) => [
+    WEB_MERCATOR_RADIUS * longitude * toRad,
+    WEB_MERCATOR_RADIUS * Math.log(Math.tan(Math.PI / 4 + (latitude * toRad) / 2)),
+  ],
+}
+
+const INDIAN_1975 = { ellipsoid: EVEREST_1830, shift: INDIAN_1975_SHIFT, name: "Indian 1975" }
+
+/**
+ * Look up a supported CRS by EPSG code: WGS84 (4326), Web Mercator (3857), WGS84 UTM
+ * (326xx north, 327xx south) and Indian 1975 (4240, UTM 47N/48N as 24047/24048)
+ * @returns null when the code is not supported
+ */
+export function getCrs(code: number): Crs | null {
+  if (code === 4326) return WGS84_GEOGRAPHIC
+  if (code === 3857 || code === 3785 || code === 900913) return WEB_MERCATOR
+  if (code > 32600 && code <= 32660) return createUtm(code, code - 32600, false)
+  if (code > 32700 && code <= 32760) return createUtm(code, code - 32700, true)
+  if (code === 24047 || code === 24048) return createUtm(code, code - 24000, false, INDIAN_1975)
+  if (code === 4240) {
+    return {
+      code,
+      name: INDIAN_1975.name,
+      isGeographic: true,
+      toLatLng: (x, y) => shiftDatum(EVEREST_1830, WGS84, INDIAN_1975_SHIFT, 1, y, x),
+      fromLatLng: (latitude, longitude) => {
+        const local = shiftDatum(WGS84, EVEREST_1830, INDIAN_1975_SHIFT, -1, latitude, longitude)
+        return [local.longitude, local.latitude]
+      },
+    }
+  }
+  return null
+}
@@ -0,0 +1,135 @@
+// Query parameters shared by the data API routes and their client
+
+import type { Station, TechnicalData } from "@/types/map"
+import { hasPendingBounds } from "@/lib/geotiff-url"
+
+export type BBox = [number, number, number, number] // [west, south, east, north]
+
+export interface DataQuery {
+  bbox?: BBox
+  types?: string[] // stationType values
+  engineeringCenters?: string[]
+  minErp?: number // kW
+  maxErp?: number // kW
+  page: number // 1-based
+  pageSize: number
+}
+
+export interface PagedResponse<T> {
+  data: T[]
+  total: number
+  page: number
+  pageSize: number
+  hasMore: boolean
+}
+
+export const DEFAULT_PAGE_SIZE = 500
+export const MAX_PAGE_SIZE = 5000
+
+/**
+ * Parse query parameters:
+ * bbox=west,south,east,north  type=a,b  engineeringCenter=a,b  minErp=  maxErp=  page=  pageSize=
+ * @throws Error with a user-facing message when a parameter is malformed
+ */
+export function parseDataQuery(params: URLSearchParams): DataQuery {
+  const query: DataQuery = { page: 1, pageSize: DEFAULT_PAGE_SIZE }
+
+  const bbox = params.get("bbox")
+  if (bbox) {
+    const values = bbox.split(",").map(Number)
+    if (values.length !== 4 || values.some((value) => !Number.isFinite(value))) {
+      throw new Error("bbox must be west,south,east,north")
+    }
+    const [west, south, east, north] = values
+    if (south > north || west > east) {
+      throw new Error("bbox must have west <= east and south <= north")
+    }
+    query.bbox = [west, south, east, north]
+  }
+
+  const list = (name: string) => {
+    const values = params.getAll(name).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean)
+    return values.length > 0 ? values : undefined
+  }
+  query.types = list("type")
+  query.engineeringCenters = list("engineeringCenter")
+
+  const number = (name: string, min = -Infinity) => {
+    const raw = params.get(name)
+    if (raw === null || raw === "") return undefined
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < min) {
+      throw new Error(`${name} must be a number${min > -Infinity ? ` >= ${min}` : ""}`)
+    }
+    return value
+  }
+  query.minErp = number("minErp", 0)
+  query.maxErp = number("maxErp", 0)
+  query.page = Math.floor(number("page", 1) ?? 1)
+  query.pageSize = Math.min(MAX_PAGE_SIZE, Math.floor(number("pageSize", 1) ?? DEFAULT_PAGE_SIZE))
+
+  return query
+}
+
+/**
+ * Serialise a query back to a query string (without the leading "?")
+ */
+export function buildDataQueryString(query: Partial<DataQuery>): string {
+  const params = new URLSearchParams()
+  if (query.bbox) params.set("bbox", query.bbox.map((value) => value.toFixed(5)).join(","))
+  if (query.types?.length) params.set("type", query.types.join(","))
+  if (query.engineeringCenters?.length) params.set("engineeringCenter", query.engineeringCenters.join(","))
+  if (query.minErp !== undefined) params.set("minErp", String(query.minErp))
+  if (query.maxErp !== undefined) params.set("maxErp", String(query.maxErp))
+  if (query.page !== undefined) params.set("page", String(query.page))
+  if (query.pageSize !== undefined) params.set("pageSize", String(query.pageSize))
+  return params.toString()
+}
+
+/**
+ * Stations whose overlay bounds intersect the bbox. GeoTIFF stations without a LatLonBox are
+ * always kept, since their bounds are only known once the client reads the file.
+ */
+export function filterStations(stations: Station[], query: DataQuery): Station[] {
+  if (!query.bbox) return stations
+  const [west, south, east, north] = query.bbox
+  return stations.filter((station) => {
+    if (hasPendingBounds(station)) return true
+    const [[sSouth, sWest], [sNorth, sEast]] = station.bounds
+    return sSouth <= north && sNorth >= south && sWest <= east && sEast >= west
+  })
+}
+
+/**
+ * Technical sites matching every given filter
+ */
+export function filterTechnicalData(sites: TechnicalData[], query: DataQuery): TechnicalData[] {
+  const types = query.types?.map((type) => type.toLowerCase())
+  const centers = query.engineeringCenters?.map((center) => center.toLowerCase())
+
+  return sites.filter((site) => {
+    if (query.bbox) {
+      const [west, south, east, north] = query.bbox
+      if (site.longitude < west || site.longitude > east || site.latitude < south || site.latitude > north) return false
+    }
+    if (types && !types.includes(site.stationType.trim().toLowerCase())) return false
+    if (centers && !centers.includes(site.engineeringCenter.trim().toLowerCase())) return false
+    if (query.minErp !== undefined && site.maxERP < query.minErp) return false
+    if (query.maxErp !== undefined && site.maxERP > query.maxErp) return false
+    return true
+  })
+}
+
+/**
+ * Slice one page out of a filtered list
+ */
+export function paginate<T>(items: T[], page: number, pageSize: number): PagedResponse<T> {
+  const start = (page - 1) * pageSize
+  return {
+    data: items.slice(start, start + pageSize),
+    total: items.length,
+    page,
+    pageSize,
+    hasMore: start + pageSize < items.length,
+  }
+}
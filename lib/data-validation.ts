@@ -0,0 +1,304 @@
+// Row-level validation for station_cord.csv and technical_data.csv
+
+import { z } from "zod"
+import type { Station, TechnicalData } from "@/types/map"
+import type { Bounds } from "@/lib/coverage-raster"
+import { channelToFrequencyMHz } from "@/lib/sfn"
+import { isGeoTiffUrl, PENDING_GEOTIFF_BOUNDS } from "@/lib/geotiff-url"
+
+export type IssueSeverity = "error" | "warning"
+
+export interface ValidationIssue {
+  row: number // 1-based data row, header excluded
+  field?: string
+  label?: string // station name of the row, for display
+  severity: IssueSeverity // errors drop the row, warnings keep it
+  message: string
+}
+
+export interface ValidationReport<T> {
+  source: string
+  totalRows: number
+  valid: T[]
+  invalidRows: number
+  issues: ValidationIssue[]
+}
+
+type CsvRow = Record<string, string | undefined>
+
+// Generous box around Thailand, used to catch typos and swapped coordinates
+export const THAILAND_BOUNDS = {
+  south: 5.3,
+  north: 20.8,
+  west: 97.0,
+  east: 106.0,
+}
+
+const latitude = z.number({ invalid_type_error: "ไม่ใช่ตัวเลข" }).min(-90, "เกินช่วง -90 ถึง 90").max(90, "เกินช่วง -90 ถึง 90")
+const longitude = z.number({ invalid_type_error: "ไม่ใช่ตัวเลข" }).min(-180, "เกินช่วง -180 ถึง 180").max(180, "เกินช่วง -180 ถึง 180")
+
+const stationRowSchema = z.object({
+  id: z.string().trim().min(1, "ไม่มีรหัสสถานี"),
+  name: z.string().trim().min(1, "ไม่มีชื่อสถานี"),
+  imageUrl: z.string().trim(),
+})
+
+const stationBoundsSchema = z.object({
+  north: latitude,
+  south: latitude,
+  east: longitude,
+  west: longitude,
+}).superRefine((box, ctx) => {
+  if (box.south >= box.north) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["south"], message: `south (${box.south}) ต้องน้อยกว่า north (${box.north})` })
+  }
+  if (box.west >= box.east) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["west"], message: `west (${box.west}) ต้องน้อยกว่า east (${box.east})` })
+  }
+})
+
+const technicalRowSchema = z.object({
+  id: z.string().trim().min(1, "ไม่มีลำดับ"),
+  stationNameThai: z.string().trim().min(1, "ไม่มีชื่อสถานี"),
+  longitude,
+  latitude,
+}).superRefine((row, ctx) => {
+  if (row.latitude === 0 || row.longitude === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["latitude"], message: "พิกัดเป็น 0" })
+    return
+  }
+  if (!isInThailand(row.latitude, row.longitude)) {
+    const message = isInThailand(row.longitude, row.latitude)
+      ? `Long/Lat สลับกัน (Long ${row.longitude}, Lat ${row.latitude})`
+      : `พิกัดอยู่นอกประเทศไทย (${row.latitude}, ${row.longitude})`
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["longitude"], message })
+  }
+})
+
+/**
+ * Whether a point falls inside the generous Thailand box
+ */
+export function isInThailand(lat: number, lng: number): boolean {
+  return lat >= THAILAND_BOUNDS.south && lat <= THAILAND_BOUNDS.north &&
+    lng >= THAILAND_BOUNDS.west && lng <= THAILAND_BOUNDS.east
+}
+
+/**
+ * Parse a KML LatLonBox fragment ("<north>..</north>...") into bounds.
+ * Returns null instead of throwing so one bad cell cannot break the whole load.
+ */
+export function parseCoordinates(coordStr: string): Bounds | null {
+  const read = (tag: string) => {
+    const match = coordStr.match(new RegExp(`<${tag}>([^<]+)</${tag}>`))
+    return match ? Number.parseFloat(match[1]) : NaN
+  }
+
+  const north = read("north")
+  const south = read("south")
+  const east = read("east")
+  const west = read("west")
+  if ([north, south, east, west].some(isNaN)) return null
+
+  return [
+    [south, west], // Southwest
+    [north, east], // Northeast
+  ]
+}
+
+/**
+ * Read a numeric CSV cell; blank cells give null, unreadable cells NaN
+ */
+export function parseNumber(value: string | undefined): number | null {
+  const text = (value ?? "").replace(/,/g, "").trim()
+  if (text === "") return null
+  const number = Number(text)
+  return Number.isFinite(number) ? number : NaN
+}
+
+// Create station ID from the station name when the CSV has no id column
+function createStationId(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-').replace(/[^\w-]/g, '')
+}
+
+/**
+ * Validate station_cord.csv rows (id, staion, coord, url)
+ */
+export function validateStationRows(rows: CsvRow[], source = "station_cord.csv"): ValidationReport<Station> {
+  const issues: ValidationIssue[] = []
+  const valid: Station[] = []
+  const seenIds = new Map<string, number>()
+  let invalidRows = 0
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1
+    const name = row.staion || row.station || ""
+    const coord = row.coord || ""
+    const rowIssues: ValidationIssue[] = []
+
+    const id = row.id?.trim() ? String(row.id).trim() : createStationId(name)
+    const parsed = stationRowSchema.safeParse({ id, name, imageUrl: row.url ?? "" })
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        rowIssues.push({ row: rowNumber, field: String(issue.path[0] ?? ""), severity: "error", message: issue.message })
+      })
+    }
+
+    // A GeoTIFF carries its own georeferencing, so its LatLonBox may be left empty
+    const isGeoTiff = isGeoTiffUrl(row.url ?? "")
+    const bounds = coord.trim() ? parseCoordinates(coord) : isGeoTiff ? PENDING_GEOTIFF_BOUNDS : null
+    if (!coord.trim()) {
+      if (!isGeoTiff) rowIssues.push({ row: rowNumber, field: "coord", severity: "error", message: "ไม่มีพิกัด (coord)" })
+    } else if (!bounds) {
+      rowIssues.push({ row: rowNumber, field: "coord", severity: "error", message: "อ่านค่า <north>/<south>/<east>/<west> ไม่ได้" })
+    } else {
+      const [[south, west], [north, east]] = bounds
+      const box = stationBoundsSchema.safeParse({ north, south, east, west })
+      if (!box.success) {
+        box.error.issues.forEach((issue) => {
+          rowIssues.push({ row: rowNumber, field: String(issue.path[0] ?? "coord"), severity: "error", message: issue.message })
+        })
+      }
+    }
+
+    const firstRow = seenIds.get(id)
+    if (id && firstRow !== undefined) {
+      rowIssues.push({ row: rowNumber, field: "id", severity: "error", message: `รหัสสถานี "${id}" ซ้ำกับแถว ${firstRow}` })
+    }
+    if (id && firstRow === undefined) seenIds.set(id, rowNumber)
+
+    if (bounds && coord.trim()) {
+      const centerLat = (bounds[0][0] + bounds[1][0]) / 2
+      const centerLng = (bounds[0][1] + bounds[1][1]) / 2
+      if (!isInThailand(centerLat, centerLng)) {
+        rowIssues.push({ row: rowNumber, field: "coord", severity: "warning", message: `กึ่งกลางภาพอยู่นอกประเทศไทย (${centerLat.toFixed(3)}, ${centerLng.toFixed(3)})` })
+      }
+    }
+    if (!row.url?.trim()) {
+      rowIssues.push({ row: rowNumber, field: "url", severity: "warning", message: "ไม่มี URL ของภาพพื้นที่ครอบคลุม" })
+    }
+
+    issues.push(...rowIssues.map((issue) => ({ ...issue, label: name })))
+    if (!parsed.success || !bounds || rowIssues.some((issue) => issue.severity === "error")) {
+      invalidRows++
+      return
+    }
+
+    valid.push({
+      id,
+      name: parsed.data.name,
+      bounds,
+      imageUrl: parsed.data.imageUrl,
+      visible: false,
+    })
+  })
+
+  return { source, totalRows: rows.length, valid, invalidRows, issues }
+}
+
+/**
+ * Validate technical_data.csv rows (Thai headers, see data/technical.ts)
+ */
+export function validateTechnicalRows(rows: CsvRow[], source = "technical_data.csv"): ValidationReport<TechnicalData> {
+  const issues: ValidationIssue[] = []
+  const valid: TechnicalData[] = []
+  const seenIds = new Map<string, number>()
+  let invalidRows = 0
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 1
+    const rowIssues: ValidationIssue[] = []
+
+    const lng = parseNumber(row['Long'] ?? row.longitude)
+    const lat = parseNumber(row['Lat'] ?? row.latitude)
+    const id = (row['ลำดับ'] || row.id || '').trim()
+
+    const parsed = technicalRowSchema.safeParse({
+      id,
+      stationNameThai: row['ชื่อสถานี'] || row.stationNameThai || '',
+      longitude: lng ?? NaN,
+      latitude: lat ?? NaN,
+    })
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        const field = String(issue.path[0] ?? "")
+        const message = issue.code === z.ZodIssueCode.invalid_type
+          ? `${field === "longitude" ? "Long" : "Lat"} ${(field === "longitude" ? lng : lat) === null ? "ว่าง" : "อ่านไม่ได้"}`
+          : issue.message
+        rowIssues.push({ row: rowNumber, field, severity: "error", message })
+      })
+    }
+
+    const firstRow = seenIds.get(id)
+    if (id && firstRow !== undefined) {
+      rowIssues.push({ row: rowNumber, field: "id", severity: "error", message: `ลำดับ "${id}" ซ้ำกับแถว ${firstRow}` })
+    }
+    if (id && firstRow === undefined) seenIds.set(id, rowNumber)
+
+    // Optional numeric fields: unreadable values keep the first number in them (1.08 from "- 1.08",
+    // 0.25 from "0.25 0.25"), or 0 when there is none, and are reported
+    const readOptional = (value: string | undefined, field: string, label: string) => {
+      const number = parseNumber(value)
+      if (number !== null && isNaN(number)) {
+        const first = (value ?? "").replace(/,/g, "").match(/\d+(?:\.\d+)?/)
+        const used = first ? Number(first[0]) : 0
+        rowIssues.push({ row: rowNumber, field, severity: "warning", message: `${label} อ่านไม่ได้ ("${value?.trim()}") ใช้ค่า ${used}` })
+        return used
+      }
+      return number ?? 0
+    }
+    const maxERP = readOptional(row[' Max ERP (kW)'] ?? row.maxERP, "maxERP", "Max ERP")
+    const height = readOptional(row['ht(m)'] ?? row.height, "height", "ความสูงเสา")
+    const feederLoss = readOptional(row['Main Feeder Loss\n(dB)'] ?? row.feederLoss, "feederLoss", "Feeder loss")
+    if (parseNumber(row[' Max ERP (kW)'] ?? row.maxERP) === null) {
+      rowIssues.push({ row: rowNumber, field: "maxERP", severity: "warning", message: "ไม่มีค่า Max ERP" })
+    }
+
+    // SFN columns are optional; a channel alone is enough to place the site on a frequency
+    const channel = parseNumber(row['Channel'] ?? row.channel)
+    const frequency = parseNumber(row['Frequency (MHz)'] ?? row.frequencyMHz)
+    if (channel !== null && (isNaN(channel) || channelToFrequencyMHz(channel) === null)) {
+      rowIssues.push({ row: rowNumber, field: "channel", severity: "warning", message: `ช่องสัญญาณ ${row['Channel'] ?? row.channel} ไม่ถูกต้อง` })
+    }
+    if (frequency !== null && !(frequency > 0)) {
+      rowIssues.push({ row: rowNumber, field: "frequencyMHz", severity: "warning", message: `ความถี่ "${row['Frequency (MHz)'] ?? row.frequencyMHz}" อ่านไม่ได้` })
+    }
+    const validChannel = channel !== null && channelToFrequencyMHz(channel) !== null ? channel : null
+    const frequencyMHz = frequency !== null && frequency > 0
+      ? frequency
+      : validChannel !== null ? channelToFrequencyMHz(validChannel) : null
+
+    const label = row['ชื่อสถานี'] || row.stationNameThai || row['ชื่อสถานี (ENG)'] || undefined
+    issues.push(...rowIssues.map((issue) => ({ ...issue, label })))
+    if (!parsed.success || rowIssues.some((issue) => issue.severity === "error")) {
+      invalidRows++
+      return
+    }
+
+    valid.push({
+      id,
+      responsibleEntity: row['ผู้รับผิดชอบ Facility'] || row.responsibleEntity || '',
+      stationNameEng: row['ชื่อสถานี (ENG)'] || row.stationNameEng || '',
+      stationNameThai: parsed.data.stationNameThai,
+      address: row['ที่อยู่'] || row.address || '',
+      owner: row['เจ้าของสถานที่'] || row.owner || '',
+      engineeringCenter: row['ศูนย์วิศวกรรม'] || row.engineeringCenter || '',
+      stationType: row['ประเภทสถานี'] || row.stationType || '',
+      longitude: parsed.data.longitude,
+      latitude: parsed.data.latitude,
+      height,
+      hrp: row['HRP'] || row.hrp || '',
+      location: row['ที่ตั้งสถานี'] || row.location || '',
+      antType1: row['Ant. Type 1'] || row.antType1 || '',
+      antType2: row['Ant. Type 2'] || row.antType2 || '',
+      beamTilt: row['Beam Tilt'] || row['Beam Tilt '] || row.beamTilt || '',
+      feederLoss,
+      antBrand: row['Ant. Brand'] || row.antBrand || '',
+      maxERP,
+      channel: validChannel,
+      frequencyMHz,
+      sfnGroup: (row['SFN Group'] || row.sfnGroup || '').trim(),
+    })
+  })
+
+  return { source, totalRows: rows.length, valid, invalidRows, issues }
+}
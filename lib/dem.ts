@@ -0,0 +1,198 @@
+// Digital elevation model: local SRTM .hgt and GeoTIFF tiles
+
+import { fromArrayBuffer } from "geotiff"
+import { DEM_SETTINGS } from "@/constants/terrain"
+import type { Bounds } from "@/lib/coverage-raster"
+
+export interface DemTile {
+  west: number
+  south: number
+  east: number
+  north: number
+  width: number
+  height: number
+  data: ArrayLike<number> // row-major from the north-west corner
+  noData: number | null
+  pixelIsPoint: boolean // values sit on the grid edges (SRTM posts) rather than pixel centres
+}
+
+// SRTM void marker
+const HGT_VOID = -32768
+
+// Keyed by SRTM tile name; null records a tile that does not exist locally
+const tileCache = new Map<string, Promise<DemTile | null>>()
+
+/**
+ * SRTM-style name of the 1° cell containing a point, e.g. N13E100
+ */
+export function getTileName(lat: number, lng: number): string {
+  const latFloor = Math.floor(lat)
+  const lngFloor = Math.floor(lng)
+  const ns = latFloor >= 0 ? "N" : "S"
+  const ew = lngFloor >= 0 ? "E" : "W"
+  return `${ns}${String(Math.abs(latFloor)).padStart(2, "0")}${ew}${String(Math.abs(lngFloor)).padStart(3, "0")}`
+}
+
+/**
+ * Decode an SRTM .hgt file (big-endian int16, square, 1201 or 3601 posts per side)
+ */
+export function parseHgt(buffer: ArrayBuffer, lat: number, lng: number): DemTile {
+  const size = Math.round(Math.sqrt(buffer.byteLength / 2))
+  if (size * size * 2 !== buffer.byteLength) {
+    throw new Error(`Unexpected .hgt size: ${buffer.byteLength} bytes`)
+  }
+
+  const view = new DataView(buffer)
+  const data = new Int16Array(size * size)
+  for (let i = 0; i < data.length; i++) {
+    data[i] = view.getInt16(i * 2, false)
+  }
+
+  // Posts sit on the cell edges, so the tile spans exactly one degree
+  const south = Math.floor(lat)
+  const west = Math.floor(lng)
+  return { west, south, east: west + 1, north: south + 1, width: size, height: size, data, noData: HGT_VOID, pixelIsPoint: true }
+}
+
+/**
+ * Decode the first band of a GeoTIFF DEM in geographic (lat/lng) coordinates
+ */
+export async function parseGeoTiffDem(buffer: ArrayBuffer): Promise<DemTile> {
+  const tiff = await fromArrayBuffer(buffer)
+  const image = await tiff.getImage()
+  const [west, south, east, north] = image.getBoundingBox()
+  const data = await image.readRasters({ samples: [0], interleave: true })
+
+  return {
+    west,
+    south,
+    east,
+    north,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    data: data as ArrayLike<number>,
+    noData: image.getGDALNoData(),
+    pixelIsPoint: false,
+  }
+}
+
+/**
+ * Load the DEM tile covering a point, trying each configured format
+ */
+export function loadDemTile(lat: number, lng: number): Promise<DemTile | null> {
+  const name = getTileName(lat, lng)
+  const cached = tileCache.get(name)
+  if (cached) return cached
+
+  const promise = (async () => {
+    for (const format of DEM_SETTINGS.FORMATS) {
+      const response = await fetch(`${DEM_SETTINGS.BASE_URL}/${name}.${format}`)
+      if (!response.ok) continue
+      const buffer = await response.arrayBuffer()
+      return format === "hgt" ? parseHgt(buffer, lat, lng) : parseGeoTiffDem(buffer)
+    }
+    return null
+  })()
+
+  promise.catch(() => tileCache.delete(name))
+  tileCache.set(name, promise)
+
+  // Drop the oldest tiles once the cache is full
+  while (tileCache.size > DEM_SETTINGS.MAX_CACHED_TILES) {
+    const oldest = tileCache.keys().next().value
+    if (oldest === undefined) break
+    tileCache.delete(oldest)
+  }
+
+  return promise
+}
+
+/**
+ * Bilinear elevation from a tile, or null outside the tile or on voids
+ */
+export function sampleTile(tile: DemTile, lat: number, lng: number): number | null {
+  if (lat < tile.south || lat > tile.north || lng < tile.west || lng > tile.east) return null
+
+  // Posts span size - 1 intervals; area pixels are sampled at their centres
+  const x = tile.pixelIsPoint
+    ? ((lng - tile.west) / (tile.east - tile.west)) * (tile.width - 1)
+    : ((lng - tile.west) / (tile.east - tile.west)) * tile.width - 0.5
+  const y = tile.pixelIsPoint
+    ? ((tile.north - lat) / (tile.north - tile.south)) * (tile.height - 1)
+    : ((tile.north - lat) / (tile.north - tile.south)) * tile.height - 0.5
+
+  const x0 = Math.max(0, Math.min(tile.width - 1, Math.floor(x)))
+  const y0 = Math.max(0, Math.min(tile.height - 1, Math.floor(y)))
+  const x1 = Math.min(tile.width - 1, x0 + 1)
+  const y1 = Math.min(tile.height - 1, y0 + 1)
+  const fx = Math.max(0, Math.min(1, x - x0))
+  const fy = Math.max(0, Math.min(1, y - y0))
+
+  const values = [
+    tile.data[y0 * tile.width + x0],
+    tile.data[y0 * tile.width + x1],
+    tile.data[y1 * tile.width + x0],
+    tile.data[y1 * tile.width + x1],
+  ]
+  if (values.some((value) => value === tile.noData || Number.isNaN(value))) return null
+
+  const top = values[0] * (1 - fx) + values[1] * fx
+  const bottom = values[2] * (1 - fx) + values[3] * fx
+  return top * (1 - fy) + bottom * fy
+}
+
+/**
+ * Elevations (m) for a list of points; null where no local DEM covers the point
+ */
+export async function getElevations(points: { latitude: number; longitude: number }[]): Promise<(number | null)[]> {
+  const tiles = await Promise.all(
+    points.map((point) => loadDemTile(point.latitude, point.longitude).catch((error) => {
+      console.warn("Failed to load DEM tile:", error)
+      return null
+    }))
+  )
+  return points.map((point, index) => {
+    const tile = tiles[index]
+    return tile ? sampleTile(tile, point.latitude, point.longitude) : null
+  })
+}
+
+/**
+ * Ground elevation for every pixel centre of a lat/lng grid (row-major from the north-west corner).
+ * Pixels without DEM data are NaN; returns null when no tile covers the bounds at all.
+ */
+export async function getElevationGrid(bounds: Bounds, width: number, height: number): Promise<Float32Array | null> {
+  const [[south, west], [north, east]] = bounds
+
+  const cells: { lat: number; lng: number }[] = []
+  for (let lat = Math.floor(south); lat <= Math.floor(north); lat++) {
+    for (let lng = Math.floor(west); lng <= Math.floor(east); lng++) {
+      cells.push({ lat, lng })
+    }
+  }
+
+  const tiles = new Map<string, DemTile>()
+  await Promise.all(cells.map(async ({ lat, lng }) => {
+    try {
+      const tile = await loadDemTile(lat + 0.5, lng + 0.5)
+      if (tile) tiles.set(getTileName(lat, lng), tile)
+    } catch (error) {
+      console.warn("Failed to load DEM tile:", error)
+    }
+  }))
+  if (tiles.size === 0) return null
+
+  const grid = new Float32Array(width * height).fill(Number.NaN)
+  const pixelLat = (north - south) / height
+  const pixelLng = (east - west) / width
+  for (let y = 0; y < height; y++) {
+    const lat = north - (y + 0.5) * pixelLat
+    for (let x = 0; x < width; x++) {
+      const lng = west + (x + 0.5) * pixelLng
+      const tile = tiles.get(getTileName(lat, lng))
+      const elevation = tile ? sampleTile(tile, lat, lng) : null
+      if (elevation !== null) grid[y * width + x] = elevation
+    }
+  }
+  return grid
+}
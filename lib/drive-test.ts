@@ -0,0 +1,261 @@
+// Drive-test measurements: CSV/GPX import and comparison with the levels decoded from coverage images
+
+import Papa from "papaparse"
+import type { Station } from "@/types/map"
+import { coverageLevels } from "@/data/coveragelevel"
+import { getCoverageLevel, isPointInBounds, loadCoverageGrid, sampleGrid } from "@/lib/coverage-raster"
+import { fieldStrengthToPower } from "@/lib/link-budget"
+import { levelForPower } from "@/lib/propagation"
+import { PROPAGATION_MODEL } from "@/constants/propagation"
+
+export type DriveTestUnit = "dbm" | "dbuvm"
+
+export interface DriveTestPoint {
+  timestamp: string | null
+  latitude: number
+  longitude: number
+  dbm: number // measured level, converted from dBµV/m when needed
+  level: number // coverage level value of the measurement
+}
+
+export interface DriveTestRun {
+  id: string
+  name: string
+  fileName: string
+  unit: DriveTestUnit // unit of the source file
+  points: DriveTestPoint[]
+  skippedRows: number
+}
+
+export interface StationComparison {
+  station: Station
+  count: number // measurements inside the station's image bounds
+  comparedCount: number // of those, where the image shows coverage
+  meanErrorDb: number | null // measured minus the predicted level's band, 0 inside the band
+  stdDevDb: number | null
+  agreement: number // fraction with the same predicted and measured level
+  matrix: number[][] // [predicted level 0-5][measured level 0-5]
+}
+
+// Header aliases, compared after lowercasing and dropping everything but letters and digits
+const TIME_COLUMNS = ["timestamp", "time", "datetime", "date", "utc"]
+const LATITUDE_COLUMNS = ["lat", "latitude", "y"]
+const LONGITUDE_COLUMNS = ["lng", "lon", "long", "longitude", "x"]
+const FREQUENCY_COLUMNS = ["frequency", "frequencymhz", "freq", "freqmhz"]
+// "Level" or "signal" columns carry no unit, so it is read from the values
+const GENERIC_LEVEL_COLUMNS = ["level", "signal", "value", "measurement"]
+
+let runCounter = 0
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/µ/g, "u").replace(/[^a-z0-9]/g, "")
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+/**
+ * Unit of a level column from its header; null when the header does not say
+ */
+function detectUnit(header: string): DriveTestUnit | null {
+  const key = normalizeHeader(header)
+  if (key.includes("dbuv") || key.includes("fieldstrength")) return "dbuvm"
+  if (key.includes("dbm") || key === "rssi" || key === "rsl" || key === "rxlev" || key === "power") return "dbm"
+  return null
+}
+
+/**
+ * Measured levels are received power below 0 dBm, field strengths are positive
+ */
+function guessUnit(values: number[]): DriveTestUnit {
+  return median(values) > 0 ? "dbuvm" : "dbm"
+}
+
+function toPoint(
+  timestamp: string | null,
+  latitude: number,
+  longitude: number,
+  value: number,
+  unit: DriveTestUnit,
+  frequencyMHz: number
+): DriveTestPoint {
+  const dbm = unit === "dbuvm" ? fieldStrengthToPower(value, frequencyMHz) : value
+  return { timestamp, latitude, longitude, dbm, level: levelForPower(dbm, coverageLevels, Number.NEGATIVE_INFINITY) }
+}
+
+function isValidPosition(latitude: number, longitude: number): boolean {
+  return Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 && !(latitude === 0 && longitude === 0)
+}
+
+function createRun(fileName: string, unit: DriveTestUnit, points: DriveTestPoint[], skippedRows: number): DriveTestRun {
+  return {
+    id: `drive-${Date.now().toString(36)}-${++runCounter}`,
+    name: fileName.replace(/\.[^.]+$/, ""),
+    fileName,
+    unit,
+    points,
+    skippedRows,
+  }
+}
+
+/**
+ * Parse a drive-test CSV with latitude, longitude and a level column in dBm or dBµV/m.
+ * Field strengths are converted at the row's frequency column, or the model frequency.
+ */
+export function parseDriveTestCsv(text: string, fileName: string): DriveTestRun {
+  const { data, meta } = Papa.parse<Record<string, string>>(text, { header: true, skipEmptyLines: true })
+  const headers = meta.fields ?? []
+  const findColumn = (aliases: string[]) => headers.find((header) => aliases.includes(normalizeHeader(header)))
+
+  const latColumn = findColumn(LATITUDE_COLUMNS)
+  const lngColumn = findColumn(LONGITUDE_COLUMNS)
+  const timeColumn = findColumn(TIME_COLUMNS)
+  const frequencyColumn = findColumn(FREQUENCY_COLUMNS)
+  const levelColumn = headers.find((header) => detectUnit(header) !== null) ?? findColumn(GENERIC_LEVEL_COLUMNS)
+  if (!latColumn || !lngColumn || !levelColumn) {
+    throw new Error(`${fileName}: expected latitude, longitude and a dBm or dBµV/m column`)
+  }
+
+  const readNumber = (value: string | undefined) => Number.parseFloat((value ?? "").replace(",", "."))
+  const unit = detectUnit(levelColumn) ?? guessUnit(data.map((row) => readNumber(row[levelColumn])).filter(Number.isFinite))
+
+  const points: DriveTestPoint[] = []
+  data.forEach((row) => {
+    const latitude = readNumber(row[latColumn])
+    const longitude = readNumber(row[lngColumn])
+    const value = readNumber(row[levelColumn])
+    if (!isValidPosition(latitude, longitude) || !Number.isFinite(value)) return
+    const frequency = frequencyColumn ? readNumber(row[frequencyColumn]) : NaN
+    points.push(toPoint(
+      timeColumn ? row[timeColumn]?.trim() || null : null,
+      latitude,
+      longitude,
+      value,
+      unit,
+      frequency > 0 ? frequency : PROPAGATION_MODEL.FREQUENCY_MHZ
+    ))
+  })
+
+  return createRun(fileName, unit, points, data.length - points.length)
+}
+
+/**
+ * Parse a GPX track or waypoint file. The level is read from an element inside each point's
+ * <extensions> whose name carries the unit (e.g. <dbm>, <rssi>, <dbuvm>) or a generic <level>/<signal>.
+ */
+export function parseDriveTestGpx(text: string, fileName: string): DriveTestRun {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`${fileName}: the document is not well-formed XML`)
+  }
+
+  const elements = [
+    ...Array.from(doc.getElementsByTagNameNS("*", "trkpt")),
+    ...Array.from(doc.getElementsByTagNameNS("*", "wpt")),
+  ]
+
+  const readings = elements.map((element) => {
+    const extensions = Array.from(element.getElementsByTagNameNS("*", "extensions")[0]?.getElementsByTagName("*") ?? [])
+    const levelElement = extensions.find((child) => detectUnit(child.localName) !== null)
+      ?? extensions.find((child) => GENERIC_LEVEL_COLUMNS.includes(normalizeHeader(child.localName)))
+    return {
+      latitude: Number.parseFloat(element.getAttribute("lat") ?? ""),
+      longitude: Number.parseFloat(element.getAttribute("lon") ?? ""),
+      timestamp: element.getElementsByTagNameNS("*", "time")[0]?.textContent?.trim() || null,
+      value: Number.parseFloat(levelElement?.textContent ?? ""),
+      unit: levelElement ? detectUnit(levelElement.localName) : null,
+    }
+  })
+
+  const valid = readings.filter((reading) => isValidPosition(reading.latitude, reading.longitude) && Number.isFinite(reading.value))
+  if (readings.length > 0 && valid.length === 0) {
+    throw new Error(`${fileName}: no track points carry a signal level in <extensions>`)
+  }
+
+  const unit = valid.find((reading) => reading.unit !== null)?.unit ?? guessUnit(valid.map((reading) => reading.value))
+  const points = valid.map((reading) => toPoint(
+    reading.timestamp,
+    reading.latitude,
+    reading.longitude,
+    reading.value,
+    reading.unit ?? unit,
+    PROPAGATION_MODEL.FREQUENCY_MHZ
+  ))
+
+  return createRun(fileName, unit, points, readings.length - points.length)
+}
+
+/**
+ * Import a drive-test .csv or .gpx file
+ */
+export async function importDriveTestFile(file: File): Promise<DriveTestRun> {
+  const text = await file.text()
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  if (extension === "gpx") return parseDriveTestGpx(text, file.name)
+  if (extension === "csv" || extension === "txt") return parseDriveTestCsv(text, file.name)
+  throw new Error(`${file.name}: unsupported file type, expected .csv or .gpx`)
+}
+
+/**
+ * Signed distance (dB) from the predicted level's band to a measurement, 0 inside the band
+ */
+export function bandError(dbm: number, predictedLevel: number): number {
+  const level = getCoverageLevel(predictedLevel)
+  if (!level) return 0
+  if (level.minDbm !== null && dbm < level.minDbm) return dbm - level.minDbm
+  if (level.maxDbm !== null && dbm > level.maxDbm) return dbm - level.maxDbm
+  return 0
+}
+
+/**
+ * Compare measurements with every station image they fall inside. Points where an image shows
+ * no coverage count in the confusion matrix as predicted level 0 but not in the dB error.
+ */
+export async function compareDriveTest(points: DriveTestPoint[], stations: Station[]): Promise<StationComparison[]> {
+  const candidates = stations.filter((station) =>
+    station.imageUrl && points.some((point) => isPointInBounds(station.bounds, point))
+  )
+
+  const comparisons = await Promise.all(candidates.map(async (station): Promise<StationComparison | null> => {
+    let grid
+    try {
+      grid = await loadCoverageGrid(station.imageUrl)
+    } catch (error) {
+      console.warn(`Failed to decode coverage for ${station.name}:`, error)
+      return null
+    }
+
+    const matrix = Array.from({ length: 6 }, () => new Array<number>(6).fill(0))
+    const errors: number[] = []
+    let count = 0
+    let matches = 0
+    points.forEach((point) => {
+      if (!isPointInBounds(station.bounds, point)) return
+      const predicted = sampleGrid(grid, station.bounds, point)
+      matrix[predicted][point.level]++
+      count++
+      if (predicted === point.level) matches++
+      if (predicted > 0) errors.push(bandError(point.dbm, predicted))
+    })
+
+    const mean = errors.length > 0 ? errors.reduce((sum, error) => sum + error, 0) / errors.length : null
+    const stdDev = mean !== null && errors.length > 1
+      ? Math.sqrt(errors.reduce((sum, error) => sum + (error - mean) ** 2, 0) / (errors.length - 1))
+      : null
+
+    return {
+      station,
+      count,
+      comparedCount: errors.length,
+      meanErrorDb: mean,
+      stdDevDb: stdDev,
+      agreement: count > 0 ? matches / count : 0,
+      matrix,
+    }
+  }))
+
+  return (comparisons.filter(Boolean) as StationComparison[]).sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,440 @@
+// GeoTIFF / Cloud Optimized GeoTIFF coverage rasters, reprojected into lat/lng image overlays
+
+import { fromBlob, fromUrl, type GeoTIFF, type GeoTIFFImage } from "geotiff"
+import type { Station } from "@/types/map"
+import { coverageLevels } from "@/data/coveragelevel"
+import { hexToRgb, type Bounds } from "@/lib/coverage-raster"
+import { getCrs, type Crs } from "@/lib/crs"
+import { isGeoTiffUrl } from "@/lib/geotiff-url"
+import { fieldStrengthToPower } from "@/lib/link-budget"
+import { levelForPower } from "@/lib/propagation"
+import type { KmlImportResult } from "@/lib/kml-import"
+import { PREDICTION_RASTER, PROPAGATION_MODEL } from "@/constants/propagation"
+
+export interface GeoTiffOverlay {
+  imageUrl: string // blob URL of the reprojected PNG
+  bounds: Bounds
+  crs: string // e.g. "EPSG:32647 (WGS 84 / UTM zone 47N)"
+  width: number
+  height: number
+  warnings: string[]
+}
+
+export interface GeoTiffOverlayOptions {
+  frequencyMHz?: number // converts single-band field strength (dBµV/m) to received power
+}
+
+// GDAL order: x = t[0] + col * t[1] + row * t[2], y = t[3] + col * t[4] + row * t[5]
+type GeoTransform = [number, number, number, number, number, number]
+
+// Largest side of a reprojected overlay, as for rotated KML overlays
+const MAX_OVERLAY_DIMENSION = 4096
+// Points per edge projected to find the lat/lng bounds of a projected raster
+const EDGE_SAMPLES = 32
+// Output pixels between exactly projected points; positions in between are interpolated
+const PROJECTION_STEP = 16
+// Values inspected to decide how a single-band raster is encoded
+const VALUE_SAMPLE_SIZE = 10000
+
+const PHOTOMETRIC_RGB = 2
+const PHOTOMETRIC_PALETTE = 3
+const RASTER_PIXEL_IS_POINT = 2
+const USER_DEFINED = 32767
+const SUBFILE_MASK = 4
+
+// Reprojected overlays by source URL (stations from station_cord.csv)
+const overlayCache = new Map<string, Promise<GeoTiffOverlay>>()
+
+let importCounter = 0
+
+function applyTransform(t: GeoTransform, col: number, row: number): [number, number] {
+  return [t[0] + col * t[1] + row * t[2], t[3] + col * t[4] + row * t[5]]
+}
+
+function invertTransform(t: GeoTransform): (x: number, y: number) => [number, number] {
+  const det = t[1] * t[5] - t[2] * t[4]
+  if (det === 0) throw new Error("The GeoTIFF geotransform is degenerate")
+  return (x, y) => {
+    const dx = x - t[0]
+    const dy = y - t[3]
+    return [(t[5] * dx - t[2] * dy) / det, (t[1] * dy - t[4] * dx) / det]
+  }
+}
+
+/**
+ * Pixel-to-CRS transform from ModelTransformation (which may rotate) or ModelTiepoint + ModelPixelScale
+ */
+function readGeoTransform(image: GeoTIFFImage): GeoTransform {
+  const directory = image.getFileDirectory()
+  const matrix = directory.getValue("ModelTransformation") as number[] | undefined
+  const tiepoint = directory.getValue("ModelTiepoint") as number[] | undefined
+  const pixelScale = directory.getValue("ModelPixelScale") as number[] | undefined
+
+  let transform: GeoTransform
+  if (matrix && matrix.length >= 8) {
+    transform = [matrix[3], matrix[0], matrix[1], matrix[7], matrix[4], matrix[5]]
+  } else if (tiepoint && tiepoint.length >= 6 && pixelScale && pixelScale.length >= 2) {
+    const [i, j, , x, y] = tiepoint
+    transform = [x - i * pixelScale[0], pixelScale[0], 0, y + j * pixelScale[1], 0, -pixelScale[1]]
+  } else {
+    throw new Error("The GeoTIFF has no geotransform (ModelTransformation or ModelTiepoint/ModelPixelScale)")
+  }
+
+  // PixelIsPoint tiepoints refer to pixel centres; move the origin to the corner as GDAL does
+  if (image.getGeoKeys()?.GTRasterTypeGeoKey === RASTER_PIXEL_IS_POINT) {
+    const [x, y] = applyTransform(transform, -0.5, -0.5)
+    transform[0] = x
+    transform[3] = y
+  }
+  return transform
+}
+
+function readCrs(image: GeoTIFFImage, warnings: string[]): Crs {
+  const keys = image.getGeoKeys()
+  const projected = keys?.ProjectedCSTypeGeoKey as number | undefined
+  const geographic = keys?.GeographicTypeGeoKey as number | undefined
+
+  if (projected !== undefined) {
+    const crs = projected === USER_DEFINED ? null : getCrs(projected)
+    if (!crs) {
+      throw new Error(
+        projected === USER_DEFINED
+          ? "User-defined projections are not supported; export with an EPSG code (e.g. UTM 47N = EPSG:32647)"
+          : `Unsupported projection EPSG:${projected}; export in WGS 84 (EPSG:4326) or UTM (EPSG:326xx)`
+      )
+    }
+    return crs
+  }
+
+  if (geographic !== undefined || keys?.GTModelTypeGeoKey === 2) {
+    const crs = geographic !== undefined && geographic !== USER_DEFINED ? getCrs(geographic) : null
+    if (crs) return crs
+    warnings.push(`Geographic CRS ${geographic === undefined ? "(unspecified)" : `EPSG:${geographic}`} is treated as WGS 84`)
+    return getCrs(4326)!
+  }
+
+  throw new Error("The GeoTIFF has no coordinate reference system (GeoKeyDirectory)")
+}
+
+/**
+ * Lat/lng box enclosing the raster, found by projecting points along its edges so that UTM
+ * curvature and rotation are included
+ */
+function getLatLngBounds(transform: GeoTransform, crs: Crs, width: number, height: number): Bounds {
+  let south = Infinity
+  let west = Infinity
+  let north = -Infinity
+  let east = -Infinity
+  for (let i = 0; i <= EDGE_SAMPLES; i++) {
+    const t = i / EDGE_SAMPLES
+    const edges: [number, number][] = [[t * width, 0], [t * width, height], [0, t * height], [width, t * height]]
+    edges.forEach(([col, row]) => {
+      const { latitude, longitude } = crs.toLatLng(...applyTransform(transform, col, row))
+      south = Math.min(south, latitude)
+      north = Math.max(north, latitude)
+      west = Math.min(west, longitude)
+      east = Math.max(east, longitude)
+    })
+  }
+  return [[south, west], [north, east]]
+}
+
+/**
+ * Output size that keeps the source pixel area, with pixels square on the ground
+ */
+function getOutputSize(transform: GeoTransform, crs: Crs, width: number, height: number, bounds: Bounds) {
+  const [[south, west], [north, east]] = bounds
+  const centre = crs.toLatLng(...applyTransform(transform, width / 2, height / 2))
+  const alongCol = crs.toLatLng(...applyTransform(transform, width / 2 + 1, height / 2))
+  const alongRow = crs.toLatLng(...applyTransform(transform, width / 2, height / 2 + 1))
+  // Area of one source pixel in square degrees
+  const pixelArea = Math.abs(
+    (alongCol.longitude - centre.longitude) * (alongRow.latitude - centre.latitude) -
+    (alongRow.longitude - centre.longitude) * (alongCol.latitude - centre.latitude)
+  )
+  const cosLat = Math.max(0.01, Math.cos((centre.latitude * Math.PI) / 180))
+  const latResolution = Math.sqrt(pixelArea * cosLat)
+  const lngResolution = latResolution / cosLat
+
+  const fullWidth = Math.max(1, Math.ceil((east - west) / lngResolution))
+  const fullHeight = Math.max(1, Math.ceil((north - south) / latResolution))
+  const scale = Math.min(1, MAX_OVERLAY_DIMENSION / Math.max(fullWidth, fullHeight))
+  return {
+    width: Math.max(1, Math.round(fullWidth * scale)),
+    height: Math.max(1, Math.round(fullHeight * scale)),
+    scale, // fraction of the source resolution that is needed
+  }
+}
+
+/**
+ * The smallest COG overview that still has the needed resolution; masks are skipped
+ */
+async function selectImage(tiff: GeoTIFF, fullImage: GeoTIFFImage, neededWidth: number): Promise<GeoTIFFImage> {
+  let best = fullImage
+  const count = await tiff.getImageCount()
+  for (let index = 1; index < count; index++) {
+    const image = await tiff.getImage(index)
+    const subfileType = (image.getFileDirectory().getValue("NewSubfileType") as number | undefined) ?? 0
+    if (subfileType & SUBFILE_MASK) continue
+    if (image.getWidth() >= neededWidth && image.getWidth() < best.getWidth()) best = image
+  }
+  return best
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+/**
+ * Colours for a single-band raster: coverage level values (integers 0-5), received power in dBm,
+ * or field strength in dBµV/m. The encoding is read from the values, as for drive-test files.
+ */
+function colorSignalBand(
+  values: ArrayLike<number>,
+  noData: number | null,
+  frequencyMHz: number,
+  warnings: string[]
+): Uint8ClampedArray {
+  const isValid = (value: number) => Number.isFinite(value) && value !== noData
+  const sample: number[] = []
+  const stride = Math.max(1, Math.floor(values.length / VALUE_SAMPLE_SIZE))
+  for (let i = 0; i < values.length; i += stride) {
+    if (isValid(values[i])) sample.push(values[i])
+  }
+
+  const isLevelRaster = sample.every((value) => Number.isInteger(value) && value >= 0 && value <= 5)
+  const isFieldStrength = !isLevelRaster && median(sample) > 0
+  if (isLevelRaster) {
+    warnings.push("Single-band values read as coverage levels (0-5)")
+  } else {
+    warnings.push(`Single-band values read as ${isFieldStrength ? `field strength (dBµV/m) at ${frequencyMHz} MHz` : "received power (dBm)"}`)
+  }
+
+  const colorByLevel = new Map(coverageLevels.map((level) => [level.value, [...hexToRgb(level.color), 255]]))
+  const rgba = new Uint8ClampedArray(values.length * 4)
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (!isValid(value)) continue
+    let level: number
+    if (isLevelRaster) {
+      level = value
+    } else {
+      const dbm = isFieldStrength ? fieldStrengthToPower(value, frequencyMHz) : value
+      level = levelForPower(dbm, coverageLevels, PREDICTION_RASTER.FLOOR_DBM)
+    }
+    const color = colorByLevel.get(level)
+    if (color) rgba.set(color, i * 4)
+  }
+  return rgba
+}
+
+/**
+ * Decode the raster into RGBA at the requested size; nodata pixels are transparent
+ */
+async function readRgba(
+  image: GeoTIFFImage,
+  width: number,
+  height: number,
+  options: GeoTiffOverlayOptions,
+  warnings: string[]
+): Promise<Uint8ClampedArray> {
+  const directory = image.getFileDirectory()
+  const photometric = directory.getValue("PhotometricInterpretation") as number | undefined
+  const samples = image.getSamplesPerPixel()
+  const noData = image.getGDALNoData()
+  const size = width * height
+  const rgba = new Uint8ClampedArray(size * 4)
+
+  if (photometric === PHOTOMETRIC_PALETTE) {
+    const indices = await image.readRasters({ samples: [0], interleave: true, width, height })
+    const colorMap = (await directory.loadValue("ColorMap")) as ArrayLike<number> | undefined
+    if (!colorMap) throw new Error("Palette GeoTIFF without a ColorMap")
+    const entries = colorMap.length / 3
+    for (let i = 0; i < size; i++) {
+      const index = indices[i]
+      if (index === noData) continue
+      // ColorMap entries are 16-bit
+      rgba[i * 4] = colorMap[index] >> 8
+      rgba[i * 4 + 1] = colorMap[entries + index] >> 8
+      rgba[i * 4 + 2] = colorMap[2 * entries + index] >> 8
+      rgba[i * 4 + 3] = 255
+    }
+    return rgba
+  }
+
+  if (samples >= 3 && photometric === PHOTOMETRIC_RGB) {
+    const data = await image.readRasters({ interleave: true, width, height })
+    const bits = image.getBitsPerSample(0)
+    const scale = bits > 8 ? 255 / (2 ** bits - 1) : 1
+    for (let i = 0; i < size; i++) {
+      const r = data[i * samples]
+      const g = data[i * samples + 1]
+      const b = data[i * samples + 2]
+      if (noData !== null && r === noData && g === noData && b === noData) continue
+      rgba[i * 4] = r * scale
+      rgba[i * 4 + 1] = g * scale
+      rgba[i * 4 + 2] = b * scale
+      rgba[i * 4 + 3] = samples >= 4 ? data[i * samples + 3] * scale : 255
+    }
+    return rgba
+  }
+
+  if (samples >= 3) {
+    // YCbCr (JPEG-compressed COGs), CMYK and CIELab are converted by geotiff itself
+    const data = await image.readRGB({ interleave: true, enableAlpha: true, width, height })
+    const channels = data.length / size
+    for (let i = 0; i < size; i++) {
+      rgba[i * 4] = data[i * channels]
+      rgba[i * 4 + 1] = data[i * channels + 1]
+      rgba[i * 4 + 2] = data[i * channels + 2]
+      rgba[i * 4 + 3] = channels >= 4 ? data[i * channels + 3] : 255
+    }
+    return rgba
+  }
+
+  const values = await image.readRasters({ samples: [0], interleave: true, width, height })
+  return colorSignalBand(values, noData, options.frequencyMHz ?? PROPAGATION_MODEL.FREQUENCY_MHZ, warnings)
+}
+
+async function rgbaToBlobUrl(width: number, height: number, data: Uint8ClampedArray): Promise<string> {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+
+  ctx.putImageData(new ImageData(data, width, height), 0, 0)
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"))
+  canvas.remove()
+  if (!blob) throw new Error("Could not encode the reprojected overlay")
+  return URL.createObjectURL(blob)
+}
+
+/**
+ * Read a GeoTIFF or COG (URL or file) and render it as an overlay on a regular lat/lng grid.
+ * Projected rasters (UTM) and rotated geotransforms are resampled with nearest neighbour, so
+ * legend colours are kept exactly. Remote COGs are read with range requests from the smallest
+ * overview that covers the output resolution.
+ */
+export async function loadGeoTiffOverlay(
+  source: string | Blob,
+  options: GeoTiffOverlayOptions = {}
+): Promise<GeoTiffOverlay> {
+  const tiff = typeof source === "string" ? await fromUrl(source) : await fromBlob(source)
+  const fullImage = await tiff.getImage(0)
+  const warnings: string[] = []
+
+  const transform = readGeoTransform(fullImage)
+  const crs = readCrs(fullImage, warnings)
+  const fullWidth = fullImage.getWidth()
+  const fullHeight = fullImage.getHeight()
+  const bounds = getLatLngBounds(transform, crs, fullWidth, fullHeight)
+  const output = getOutputSize(transform, crs, fullWidth, fullHeight, bounds)
+
+  // Read at the resolution the output needs, from an overview when the file has them
+  const readWidth = Math.max(1, Math.min(fullWidth, Math.ceil(fullWidth * output.scale)))
+  const readHeight = Math.max(1, Math.min(fullHeight, Math.ceil(fullHeight * output.scale)))
+  const image = await selectImage(tiff, fullImage, readWidth)
+  const sourcePixels = await readRgba(image, readWidth, readHeight, options, warnings)
+  const readTransform: GeoTransform = [
+    transform[0],
+    (transform[1] * fullWidth) / readWidth,
+    (transform[2] * fullHeight) / readHeight,
+    transform[3],
+    (transform[4] * fullWidth) / readWidth,
+    (transform[5] * fullHeight) / readHeight,
+  ]
+  const toPixel = invertTransform(readTransform)
+
+  const [[south, west], [north, east]] = bounds
+  const { width, height } = output
+  const latStep = (north - south) / height
+  const lngStep = (east - west) / width
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  const nodeCount = Math.ceil((width - 1) / PROJECTION_STEP) + 1
+  const nodeCols = new Float64Array(nodeCount)
+  const nodeRows = new Float64Array(nodeCount)
+
+  for (let y = 0; y < height; y++) {
+    const latitude = north - (y + 0.5) * latStep
+    for (let node = 0; node < nodeCount; node++) {
+      const x = Math.min(width - 1, node * PROJECTION_STEP)
+      const [col, row] = toPixel(...crs.fromLatLng(latitude, west + (x + 0.5) * lngStep))
+      nodeCols[node] = col
+      nodeRows[node] = row
+    }
+
+    for (let x = 0; x < width; x++) {
+      const node = Math.min(nodeCount - 2, Math.floor(x / PROJECTION_STEP))
+      let col = nodeCols[0]
+      let row = nodeRows[0]
+      if (nodeCount > 1) {
+        const start = node * PROJECTION_STEP
+        const end = Math.min(width - 1, start + PROJECTION_STEP)
+        const t = (x - start) / (end - start)
+        col = nodeCols[node] + (nodeCols[node + 1] - nodeCols[node]) * t
+        row = nodeRows[node] + (nodeRows[node + 1] - nodeRows[node]) * t
+      }
+
+      const sourceCol = Math.floor(col)
+      const sourceRow = Math.floor(row)
+      if (sourceCol < 0 || sourceRow < 0 || sourceCol >= readWidth || sourceRow >= readHeight) continue
+      const from = (sourceRow * readWidth + sourceCol) * 4
+      pixels.set(sourcePixels.subarray(from, from + 4), (y * width + x) * 4)
+    }
+  }
+
+  return {
+    imageUrl: await rgbaToBlobUrl(width, height, pixels),
+    bounds,
+    crs: `EPSG:${crs.code} (${crs.name})`,
+    width,
+    height,
+    warnings,
+  }
+}
+
+/**
+ * Import a .tif/.tiff file as a single overlay station, in the same shape as a KML import
+ */
+export async function importGeoTiffFile(file: File): Promise<KmlImportResult> {
+  const overlay = await loadGeoTiffOverlay(file)
+  const id = `tif-${Date.now().toString(36)}-${++importCounter}`
+  const name = file.name.replace(/\.[^.]+$/, "")
+  return {
+    id,
+    fileName: file.name,
+    name,
+    stations: [{ id: `${id}-1`, name, bounds: overlay.bounds, imageUrl: overlay.imageUrl, visible: true }],
+    features: [],
+    warnings: overlay.warnings,
+  }
+}
+
+/**
+ * Replace GeoTIFF image URLs with reprojected overlays and the bounds read from the file.
+ * Stations whose GeoTIFF cannot be read are left out, as invalid CSV rows are.
+ */
+export async function resolveGeoTiffStations(stations: Station[]): Promise<Station[]> {
+  const resolved = await Promise.all(stations.map(async (station) => {
+    if (!isGeoTiffUrl(station.imageUrl)) return station
+
+    let promise = overlayCache.get(station.imageUrl)
+    if (!promise) {
+      promise = loadGeoTiffOverlay(station.imageUrl)
+      promise.catch(() => overlayCache.delete(station.imageUrl))
+      overlayCache.set(station.imageUrl, promise)
+    }
+
+    try {
+      const overlay = await promise
+      overlay.warnings.forEach((warning) => console.warn(`${station.name}: ${warning}`))
+      return { ...station, bounds: overlay.bounds, imageUrl: overlay.imageUrl }
+    } catch (error) {
+      console.error(`Failed to load GeoTIFF for ${station.name}:`, error)
+      return null
+    }
+  }))
+  return resolved.filter((station): station is Station => station !== null)
+}
@@ -0,0 +1,23 @@
+// GeoTIFF station helpers without the geotiff reader, for the CSV parser, the data API and tiles
+
+import type { Bounds } from "@/lib/coverage-raster"
+import type { Station } from "@/types/map"
+
+// Placeholder for station_cord.csv rows that point at a GeoTIFF without a LatLonBox;
+// resolveGeoTiffStations replaces it with the bounds read from the file
+export const PENDING_GEOTIFF_BOUNDS: Bounds = [[0, 0], [0, 0]]
+
+/**
+ * Whether a station still has PENDING_GEOTIFF_BOUNDS (compared by value, as stations also
+ * arrive as JSON from the API)
+ */
+export function hasPendingBounds(station: Station): boolean {
+  return station.bounds.every(([lat, lng]) => lat === 0 && lng === 0)
+}
+
+/**
+ * Whether an image URL or file name points at a GeoTIFF (.tif / .tiff)
+ */
+export function isGeoTiffUrl(url: string): boolean {
+  return /\.tiff?($|[?#])/i.test(url.trim())
+}
@@ -1,4 +1,14 @@
 import imageCompression from "browser-image-compression"
+import { classifyPixel, classifyRaster, hexToRgb, loadCoverageRaster, type CoverageRaster } from "@/lib/coverage-raster"
+import { encodeIndexedPng, type PaletteColor } from "@/lib/png-encoder"
+import {
+  canPersistOverlay,
+  clearCachedOverlays,
+  getCachedOverlay,
+  getOverlayCacheStats,
+  getSourceVersion,
+  putCachedOverlay,
+} from "@/lib/overlay-cache"
 
 // Default compression options optimized for map overlays
 export const DEFAULT_COMPRESSION_OPTIONS = {
@@ -22,6 +32,27 @@ export const HIGH_QUALITY_COMPRESSION_OPTIONS = {
   alwaysKeepResolution: true, // P
 }
 
+// Palette-safe mode for coverage overlays: colours are snapped to the coverageLevels legend and
+// written as an indexed PNG, so decoding pixels back to signal levels gives the same result
+export const PALETTE_SAFE_COMPRESSION_OPTIONS = {
+  maxWidthOrHeight: 1920,
+  paletteSafe: true,
+}
+
+export type CompressionOptions =
+  | typeof DEFAULT_COMPRESSION_OPTIONS
+  | typeof HIGH_QUALITY_COMPRESSION_OPTIONS
+  | typeof PALETTE_SAFE_COMPRESSION_OPTIONS
+
+export interface LevelFidelity {
+  comparedPixels: number // pixels with coverage in the original or the compressed image
+  changedPixels: number // of those, pixels whose decoded level differs
+  changedPercent: number
+}
+
+// Alpha is kept in 16 steps so that 5 levels x 16 alphas + transparent fit a 256-colour palette
+const ALPHA_STEP = 17
+
 // Cache for compressed images to avoid re-compression
 export const compressedImageCache = new Map<string, string>()
 
@@ -33,7 +64,7 @@ export const compressedImageCache = new Map<string, string>()
  */
 export async function compressImage(
   file: File, 
-  options = DEFAULT_COMPRESSION_OPTIONS
+  options: CompressionOptions = DEFAULT_COMPRESSION_OPTIONS
 ): Promise<File> {
   try {
     // Validate file type
@@ -41,7 +72,9 @@ export async function compressImage(
       throw new Error('File is not an image')
     }
 
-    const compressedFile = await imageCompression(file, options)
+    const compressedFile = 'paletteSafe' in options
+      ? await compressImagePaletteSafe(file, options.maxWidthOrHeight)
+      : await imageCompression(file, options)
     
     console.log(`Image compressed: ${(file.size / 1024 / 1024).toFixed(2)}MB → ${(compressedFile.size / 1024 / 1024).toFixed(2)}MB`)
     
@@ -60,14 +93,27 @@ export async function compressImage(
  */
 export async function compressImageFromUrl(
   imageUrl: string,
-  options = DEFAULT_COMPRESSION_OPTIONS
+  options: CompressionOptions = DEFAULT_COMPRESSION_OPTIONS
 ): Promise<string> {
   // Check cache first
   if (compressedImageCache.has(imageUrl)) {
     return compressedImageCache.get(imageUrl)!
   }
 
+  // Blobs compressed with different options are stored separately
+  const variant = JSON.stringify(options)
+  const persist = canPersistOverlay(imageUrl)
+
   try {
+    // Reuse the blob compressed on an earlier visit
+    const cached = persist ? await getCachedOverlay(imageUrl, variant) : null
+    if (cached) {
+      const cachedBlobUrl = URL.createObjectURL(cached.blob)
+      compressedImageCache.set(imageUrl, cachedBlobUrl)
+      console.log(`Image restored from persistent cache: ${imageUrl}`)
+      return cachedBlobUrl
+    }
+
     // Fetch the image
     const response = await fetch(imageUrl)
     if (!response.ok) {
@@ -83,13 +129,18 @@ export async function compressImageFromUrl(
     }
 
     // Compress the image
-    const compressedBlob = await imageCompression(blob as File, options)
+    const compressedBlob = 'paletteSafe' in options
+      ? await compressImagePaletteSafe(blob, options.maxWidthOrHeight)
+      : await imageCompression(blob as File, options)
     
     // Create blob URL for the compressed image
     const compressedBlobUrl = URL.createObjectURL(compressedBlob)
     
-    // Cache the result
+    // Cache the result, and keep it for later visits
     compressedImageCache.set(imageUrl, compressedBlobUrl)
+    if (persist) {
+      putCachedOverlay({ sourceUrl: imageUrl, variant, etag: getSourceVersion(response), blob: compressedBlob })
+    }
     
     console.log(`Image compressed from URL: ${(blob.size / 1024 / 1024).toFixed(2)}MB → ${(compressedBlob.size / 1024 / 1024).toFixed(2)}MB`)
     
@@ -101,6 +152,93 @@ export async function compressImageFromUrl(
   }
 }
 
+// Decode an image blob to RGBA through a temporary blob URL
+async function loadBlobRaster(blob: Blob, maxDimension?: number): Promise<CoverageRaster> {
+  const url = URL.createObjectURL(blob)
+  try {
+    return await loadCoverageRaster(url, maxDimension)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Re-encode a coverage overlay without changing its legend colours. Every pixel is snapped to
+ * the exact coverageLevels colour it decodes to (unknown colours become transparent) and the
+ * result is written as an indexed PNG, which is lossless.
+ * @param file - The overlay image
+ * @param maxWidthOrHeight - Larger images are downsampled with nearest-neighbour scaling
+ * @returns Promise<File> - The palette PNG
+ */
+export async function compressImagePaletteSafe(
+  file: Blob,
+  maxWidthOrHeight = PALETTE_SAFE_COMPRESSION_OPTIONS.maxWidthOrHeight
+): Promise<File> {
+  const { width, height, data } = await loadBlobRaster(file, maxWidthOrHeight)
+  const indices = new Uint8Array(width * height)
+  const palette: PaletteColor[] = [[0, 0, 0, 0]]
+  const paletteIndex = new Map<number, number>()
+  // Overlays use few distinct colours, so memoise per RGBA value
+  const pixelLookup = new Map<number, number>()
+
+  for (let i = 0; i < indices.length; i++) {
+    const offset = i * 4
+    const key = ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0
+    let index = pixelLookup.get(key)
+    if (index === undefined) {
+      const level = classifyPixel(data[offset], data[offset + 1], data[offset + 2], data[offset + 3])
+      if (!level) {
+        index = 0
+      } else {
+        const alpha = Math.round(data[offset + 3] / ALPHA_STEP) * ALPHA_STEP
+        const colorKey = level.value * 256 + alpha
+        index = paletteIndex.get(colorKey)
+        if (index === undefined) {
+          index = palette.length
+          palette.push([...hexToRgb(level.color), alpha])
+          paletteIndex.set(colorKey, index)
+        }
+      }
+      pixelLookup.set(key, index)
+    }
+    indices[i] = index
+  }
+
+  const png = await encodeIndexedPng(width, height, indices, palette)
+  const name = file instanceof File ? file.name.replace(/\.[^.]+$/, '') : 'overlay'
+  console.log(`Image palette-compressed: ${(file.size / 1024 / 1024).toFixed(2)}MB → ${(png.size / 1024 / 1024).toFixed(2)}MB (${palette.length} colours)`)
+  return new File([png], `${name}.png`, { type: 'image/png' })
+}
+
+/**
+ * Compare the coverage levels decoded from an overlay before and after compression.
+ * The compressed image may be smaller; each original pixel is compared with the compressed
+ * pixel at the same relative position.
+ */
+export async function measureLevelFidelity(original: Blob, compressed: Blob): Promise<LevelFidelity> {
+  const before = classifyRaster(await loadBlobRaster(original))
+  const after = classifyRaster(await loadBlobRaster(compressed))
+
+  let comparedPixels = 0
+  let changedPixels = 0
+  for (let y = 0; y < before.height; y++) {
+    const afterRow = Math.min(after.height - 1, Math.floor((y * after.height) / before.height)) * after.width
+    for (let x = 0; x < before.width; x++) {
+      const levelBefore = before.levels[y * before.width + x]
+      const levelAfter = after.levels[afterRow + Math.min(after.width - 1, Math.floor((x * after.width) / before.width))]
+      if (levelBefore === 0 && levelAfter === 0) continue
+      comparedPixels++
+      if (levelBefore !== levelAfter) changedPixels++
+    }
+  }
+
+  return {
+    comparedPixels,
+    changedPixels,
+    changedPercent: comparedPixels > 0 ? (changedPixels / comparedPixels) * 100 : 0,
+  }
+}
+
 /**
  * Clear all cached compressed images and revoke blob URLs
  */
@@ -125,3 +263,25 @@ export function getCompressionCacheStats(): {
     cacheSize: `${compressedImageCache.size} URLs cached`
   }
 }
+
+/**
+ * Clear the compressed images kept across visits (clearCompressedImageCache only frees this
+ * page's blob URLs)
+ */
+export async function clearPersistentCompressionCache(): Promise<void> {
+  await clearCachedOverlays()
+}
+
+/**
+ * Get statistics of the compressed images kept across visits
+ */
+export async function getPersistentCompressionCacheStats(): Promise<{
+  totalCached: number
+  cacheSize: string
+}> {
+  const { count, totalBytes } = await getOverlayCacheStats()
+  return {
+    totalCached: count,
+    cacheSize: `${count} images stored (${(totalBytes / 1024 / 1024).toFixed(2)}MB)`
+  }
+}
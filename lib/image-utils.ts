@@ -1,5 +1,7 @@
 // Image optimization utilities for map overlays
 
+import { canPersistOverlay, fetchSourceVersion, getCachedOverlay, putCachedOverlay } from "@/lib/overlay-cache";
+
 export interface OptimizedImage {
   url: string;
   originalUrl: string;
@@ -82,6 +84,25 @@ export async function optimizeImage(
   
   try {
     const opts = { ...DEFAULT_OPTIONS, ...options };
+    const variant = `optimize:${JSON.stringify(opts)}`;
+    const persist = canPersistOverlay(imageUrl);
+    
+    // Reuse the image optimized on an earlier visit
+    const cached = persist ? await getCachedOverlay(imageUrl, variant) : null;
+    if (cached) {
+      const restoredImage: OptimizedImage = {
+        url: URL.createObjectURL(cached.blob),
+        originalUrl: imageUrl,
+        width: cached.width ?? 0,
+        height: cached.height ?? 0,
+        size: cached.size,
+      };
+      imageCache.set(cacheKey, restoredImage);
+      return restoredImage;
+    }
+    
+    // Read the version first, so a change during optimization is noticed on the next visit
+    const version = persist ? await fetchSourceVersion(imageUrl) : null;
     
     // Load original image
     const img = await loadImage(imageUrl);
@@ -125,8 +146,12 @@ export async function optimizeImage(
       size,
     };
     
-    // Cache the result
+    // Cache the result, and keep it for later visits
     imageCache.set(cacheKey, optimizedImage);
+    if (persist) {
+      const blob = await (await fetch(optimizedDataUrl)).blob();
+      putCachedOverlay({ sourceUrl: imageUrl, variant, etag: version, blob, width, height });
+    }
     
     // Clean up
     canvas.remove();
@@ -0,0 +1,289 @@
+// KML/KMZ importer: ground overlays become stations, placemarks become vector features
+
+import JSZip from "jszip"
+import type { KMZData, Station } from "@/types/map"
+import type { Bounds } from "@/lib/coverage-raster"
+
+export interface KmlImportResult {
+  id: string
+  fileName: string
+  name: string
+  stations: Station[]
+  features: KMZData[]
+  warnings: string[]
+}
+
+interface LatLonBox {
+  north: number
+  south: number
+  east: number
+  west: number
+  rotation: number // degrees, counterclockwise
+}
+
+// Resolves an href inside the document (KMZ entries become blob URLs)
+type HrefResolver = (href: string) => Promise<string | null>
+
+// Largest side of a re-rendered rotated overlay
+const MAX_ROTATED_DIMENSION = 4096
+
+let importCounter = 0
+
+/**
+ * Import a .kml or .kmz file
+ */
+export async function importKmlFile(file: File): Promise<KmlImportResult> {
+  const buffer = await file.arrayBuffer()
+  const bytes = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength))
+  // KMZ is a zip archive: "PK\x03\x04"
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04
+
+  if (!isZip) {
+    const text = new TextDecoder().decode(buffer)
+    return parseKml(text, file.name, async (href) => (isRemoteHref(href) ? href : null))
+  }
+
+  const zip = await JSZip.loadAsync(buffer)
+  const kmlEntries = Object.values(zip.files).filter((entry) => !entry.dir && /\.kml$/i.test(entry.name))
+  // By convention the root document is doc.kml, otherwise the first .kml in the archive
+  const rootEntry = kmlEntries.find((entry) => /(^|\/)doc\.kml$/i.test(entry.name)) ?? kmlEntries[0]
+  if (!rootEntry) {
+    throw new Error("KMZ archive does not contain a KML document")
+  }
+
+  const rootDir = rootEntry.name.includes("/") ? rootEntry.name.slice(0, rootEntry.name.lastIndexOf("/") + 1) : ""
+  const text = await rootEntry.async("string")
+
+  return parseKml(text, file.name, async (href) => {
+    if (isRemoteHref(href)) return href
+    const path = normalizeZipPath(rootDir + href)
+    const entry = zip.file(path) ?? zip.file(normalizeZipPath(href))
+    if (!entry) return null
+    const blob = await entry.async("blob")
+    return URL.createObjectURL(new Blob([blob], { type: guessImageType(path) }))
+  })
+}
+
+/**
+ * Parse a KML document
+ * @param resolveHref Turns an Icon href into a loadable URL, or null when missing
+ */
+export async function parseKml(text: string, fileName: string, resolveHref: HrefResolver): Promise<KmlImportResult> {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid KML: the document is not well-formed XML")
+  }
+
+  const importId = `kml-${Date.now().toString(36)}-${++importCounter}`
+  const documentName = childText(findFirst(doc, "Document"), "name") || fileName
+  const warnings: string[] = []
+
+  const stations: Station[] = []
+  const overlays = Array.from(doc.getElementsByTagNameNS("*", "GroundOverlay"))
+  for (const [index, overlay] of overlays.entries()) {
+    const name = childText(overlay, "name") || `${documentName} overlay ${index + 1}`
+    const href = childText(findFirst(overlay, "Icon"), "href")
+    const box = readLatLonBox(findFirst(overlay, "LatLonBox"))
+
+    if (!box) {
+      const hasQuad = findFirst(overlay, "LatLonQuad") !== null
+      warnings.push(`${name}: ${hasQuad ? "gx:LatLonQuad is not supported" : "missing LatLonBox"}`)
+      continue
+    }
+    if (!href) {
+      warnings.push(`${name}: missing image href`)
+      continue
+    }
+
+    const imageUrl = await resolveHref(href)
+    if (!imageUrl) {
+      warnings.push(`${name}: image "${href}" not found`)
+      continue
+    }
+
+    let overlayImage = { imageUrl, bounds: boxToBounds(box) }
+    if (box.rotation !== 0) {
+      try {
+        overlayImage = await renderRotatedOverlay(imageUrl, box)
+      } catch (error) {
+        console.warn(`Could not apply rotation to ${name}:`, error)
+        warnings.push(`${name}: rotation of ${box.rotation}° could not be applied, shown unrotated`)
+      }
+    }
+
+    stations.push({
+      id: `${importId}-${index + 1}`,
+      name,
+      bounds: overlayImage.bounds,
+      imageUrl: overlayImage.imageUrl,
+      visible: true,
+    })
+  }
+
+  const features: KMZData[] = []
+  Array.from(doc.getElementsByTagNameNS("*", "Placemark")).forEach((placemark) => {
+    const name = childText(placemark, "name") || undefined
+    const description = childText(placemark, "description") || undefined
+
+    const points = Array.from(placemark.getElementsByTagNameNS("*", "Point"))
+    const lines = Array.from(placemark.getElementsByTagNameNS("*", "LineString"))
+    const polygons = Array.from(placemark.getElementsByTagNameNS("*", "Polygon"))
+
+    points.forEach((point) => {
+      const [coordinates] = parseCoordinateList(childText(point, "coordinates"))
+      if (coordinates) features.push({ name, description, type: "Point", coordinates })
+    })
+    lines.forEach((line) => {
+      const coordinates = parseCoordinateList(childText(line, "coordinates"))
+      if (coordinates.length >= 2) features.push({ name, description, type: "LineString", coordinates })
+    })
+    polygons.forEach((polygon) => {
+      // Only the outer ring fits KMZData; inner boundaries are dropped
+      const outer = findFirst(findFirst(polygon, "outerBoundaryIs"), "coordinates")
+      const coordinates = parseCoordinateList(outer?.textContent ?? "")
+      if (coordinates.length >= 3) features.push({ name, description, type: "Polygon", coordinates })
+      if (findFirst(polygon, "innerBoundaryIs")) {
+        warnings.push(`${name ?? "Polygon"}: holes are not shown`)
+      }
+    })
+
+    if (points.length + lines.length + polygons.length === 0) {
+      warnings.push(`${name ?? "Placemark"}: unsupported geometry`)
+    }
+  })
+
+  return { id: importId, fileName, name: documentName, stations, features, warnings }
+}
+
+/**
+ * Parse a KML coordinates string ("lng,lat[,alt] ...") into [lng, lat] pairs
+ */
+export function parseCoordinateList(text: string): number[][] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .map((tuple) => tuple.split(",").map(Number))
+    .filter((values) => values.length >= 2 && !isNaN(values[0]) && !isNaN(values[1]))
+    .map(([lng, lat]) => [lng, lat])
+}
+
+/**
+ * Release blob URLs created for images inside a KMZ
+ */
+export function revokeImportedImages(result: KmlImportResult): void {
+  result.stations.forEach((station) => {
+    if (station.imageUrl.startsWith("blob:")) URL.revokeObjectURL(station.imageUrl)
+  })
+}
+
+function readLatLonBox(element: Element | null): LatLonBox | null {
+  if (!element) return null
+  const read = (tag: string) => Number.parseFloat(childText(element, tag))
+  const box = {
+    north: read("north"),
+    south: read("south"),
+    east: read("east"),
+    west: read("west"),
+    rotation: read("rotation") || 0,
+  }
+  if ([box.north, box.south, box.east, box.west].some(isNaN)) return null
+  return box
+}
+
+function boxToBounds({ north, south, east, west }: LatLonBox): Bounds {
+  return [
+    [Math.min(north, south), Math.min(east, west)],
+    [Math.max(north, south), Math.max(east, west)],
+  ]
+}
+
+/**
+ * Bake a LatLonBox rotation into a new image whose axis-aligned bounds enclose the rotated overlay.
+ * Rotation is applied in lat/lng degree space, as Google Earth does.
+ */
+async function renderRotatedOverlay(imageUrl: string, box: LatLonBox): Promise<{ imageUrl: string; bounds: Bounds }> {
+  const img = await loadImage(imageUrl)
+  const lngSpan = Math.abs(box.east - box.west)
+  const latSpan = Math.abs(box.north - box.south)
+  const theta = (box.rotation * Math.PI) / 180
+  const cos = Math.abs(Math.cos(theta))
+  const sin = Math.abs(Math.sin(theta))
+
+  const rotatedLngSpan = lngSpan * cos + latSpan * sin
+  const rotatedLatSpan = lngSpan * sin + latSpan * cos
+
+  // Keep the source pixel density (pixels per degree) on both axes
+  let scaleX = img.naturalWidth / lngSpan
+  let scaleY = img.naturalHeight / latSpan
+  const shrink = Math.min(1, MAX_ROTATED_DIMENSION / Math.max(rotatedLngSpan * scaleX, rotatedLatSpan * scaleY))
+  scaleX *= shrink
+  scaleY *= shrink
+
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(rotatedLngSpan * scaleX))
+  canvas.height = Math.max(1, Math.round(rotatedLatSpan * scaleY))
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+
+  // Work in degrees around the centre; canvas y runs down so a counterclockwise turn is negative
+  ctx.imageSmoothingEnabled = false
+  ctx.translate(canvas.width / 2, canvas.height / 2)
+  ctx.scale(scaleX, scaleY)
+  ctx.rotate(-theta)
+  ctx.drawImage(img, -lngSpan / 2, -latSpan / 2, lngSpan, latSpan)
+
+  const rotatedUrl = canvas.toDataURL("image/png")
+  canvas.remove()
+
+  const centerLat = (box.north + box.south) / 2
+  const centerLng = (box.east + box.west) / 2
+  return {
+    imageUrl: rotatedUrl,
+    bounds: [
+      [centerLat - rotatedLatSpan / 2, centerLng - rotatedLngSpan / 2],
+      [centerLat + rotatedLatSpan / 2, centerLng + rotatedLngSpan / 2],
+    ],
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load image: ${url}`))
+    img.src = url
+  })
+}
+
+function findFirst(parent: Document | Element | null, localName: string): Element | null {
+  return parent?.getElementsByTagNameNS("*", localName)[0] ?? null
+}
+
+function childText(parent: Element | null, localName: string): string {
+  if (!parent) return ""
+  // Direct children only, so a Folder's name is not picked up from a nested Placemark
+  const child = Array.from(parent.children).find((element) => element.localName === localName)
+  return child?.textContent?.trim() ?? ""
+}
+
+function isRemoteHref(href: string): boolean {
+  return /^(https?:|data:)/i.test(href)
+}
+
+function normalizeZipPath(path: string): string {
+  const parts: string[] = []
+  path.replace(/\\/g, "/").split("/").forEach((part) => {
+    if (part === "..") parts.pop()
+    else if (part && part !== ".") parts.push(part)
+  })
+  return parts.join("/")
+}
+
+function guessImageType(path: string): string {
+  const extension = path.split(".").pop()?.toLowerCase()
+  if (extension === "jpg" || extension === "jpeg") return "image/jpeg"
+  if (extension === "gif") return "image/gif"
+  if (extension === "webp") return "image/webp"
+  return "image/png"
+}
@@ -0,0 +1,156 @@
+// KMZ export: stations as GroundOverlays with embedded images, technical sites as placemarks
+
+import JSZip from "jszip"
+import type { Station, TechnicalData } from "@/types/map"
+
+export interface KmzExportOptions {
+  name: string
+  stations?: Station[]
+  technicalSites?: TechnicalData[]
+}
+
+export interface KmzExportResult {
+  blob: Blob
+  warnings: string[] // images that could not be embedded and are linked instead
+}
+
+// Overlay opacity as KML colour (aabbggrr); matches the 0.6 opacity used on the map
+const OVERLAY_COLOR = "99ffffff"
+
+// Specs shown in each technical site's balloon
+const TECHNICAL_FIELDS: { label: string; value: (site: TechnicalData) => string | number }[] = [
+  { label: "ชื่อสถานี (Eng)", value: (site) => site.stationNameEng },
+  { label: "ประเภทสถานี", value: (site) => site.stationType },
+  { label: "หน่วยงานที่รับผิดชอบ", value: (site) => site.responsibleEntity },
+  { label: "เจ้าของ", value: (site) => site.owner },
+  { label: "ศูนย์วิศวกรรม", value: (site) => site.engineeringCenter },
+  { label: "ที่อยู่", value: (site) => site.address },
+  { label: "ความสูงเสา", value: (site) => `${site.height} m` },
+  { label: "Max ERP", value: (site) => `${site.maxERP} kW` },
+  { label: "ช่องสัญญาณ", value: (site) => site.channel ?? "" },
+  { label: "ความถี่", value: (site) => (site.frequencyMHz ? `${site.frequencyMHz} MHz` : "") },
+  { label: "SFN", value: (site) => site.sfnGroup },
+  { label: "HRP", value: (site) => site.hrp },
+  { label: "Beam tilt", value: (site) => site.beamTilt },
+  { label: "สายอากาศ", value: (site) => [site.antType1, site.antType2].filter(Boolean).join(" / ") },
+  { label: "ยี่ห้อสายอากาศ", value: (site) => site.antBrand },
+  { label: "Feeder loss", value: (site) => `${site.feederLoss} dB` },
+  { label: "พิกัด", value: (site) => `${site.latitude.toFixed(6)}, ${site.longitude.toFixed(6)}` },
+]
+
+/**
+ * Build a KMZ archive for Google Earth
+ */
+export async function buildKmz({ name, stations = [], technicalSites = [] }: KmzExportOptions): Promise<KmzExportResult> {
+  const zip = new JSZip()
+  const warnings: string[] = []
+  const overlays: string[] = []
+
+  for (const [index, station] of stations.entries()) {
+    if (!station.imageUrl) continue
+
+    let href = station.imageUrl
+    try {
+      const response = await fetch(station.imageUrl)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const blob = await response.blob()
+      href = `files/${index + 1}_${safeFileName(station.id)}.${extensionForType(blob.type)}`
+      zip.file(href, blob)
+    } catch (error) {
+      console.warn(`Could not embed image for ${station.name}:`, error)
+      warnings.push(`${station.name}: image linked instead of embedded`)
+    }
+
+    overlays.push(buildGroundOverlay(station, href))
+  }
+
+  const placemarks = technicalSites
+    .filter((site) => site.latitude && site.longitude)
+    .map(buildTechnicalPlacemark)
+
+  const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(name)}</name>
+${overlays.length > 0 ? `    <Folder>\n      <name>Coverage</name>\n${overlays.join("\n")}\n    </Folder>` : ""}
+${placemarks.length > 0 ? `    <Folder>\n      <name>Sites</name>\n${placemarks.join("\n")}\n    </Folder>` : ""}
+  </Document>
+</kml>
+`
+  zip.file("doc.kml", kml)
+
+  const blob = await zip.generateAsync({ type: "blob", mimeType: "application/vnd.google-earth.kmz" })
+  return { blob, warnings }
+}
+
+/**
+ * Build and download a KMZ file
+ * @returns Warnings about images that were linked rather than embedded
+ */
+export async function downloadKmz(options: KmzExportOptions, fileName: string): Promise<string[]> {
+  const { blob, warnings } = await buildKmz(options)
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName.endsWith(".kmz") ? fileName : `${fileName}.kmz`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+
+  return warnings
+}
+
+function buildGroundOverlay(station: Station, href: string): string {
+  const [[south, west], [north, east]] = station.bounds
+  return `      <GroundOverlay>
+        <name>${escapeXml(station.name)}</name>
+        <color>${OVERLAY_COLOR}</color>
+        <Icon>
+          <href>${escapeXml(href)}</href>
+        </Icon>
+        <LatLonBox>
+          <north>${north}</north>
+          <south>${south}</south>
+          <east>${east}</east>
+          <west>${west}</west>
+        </LatLonBox>
+      </GroundOverlay>`
+}
+
+function buildTechnicalPlacemark(site: TechnicalData): string {
+  const rows = TECHNICAL_FIELDS
+    .map(({ label, value }) => ({ label, value: String(value(site) ?? "").trim() }))
+    .filter(({ value }) => value !== "")
+    .map(({ label, value }) => `<tr><td><b>${escapeXml(label)}</b></td><td>${escapeXml(value)}</td></tr>`)
+    .join("")
+
+  return `      <Placemark>
+        <name>${escapeXml(site.stationNameThai || site.stationNameEng)}</name>
+        <description><![CDATA[<table>${rows.replace(/]]>/g, "]]&gt;")}</table>]]></description>
+        <Point>
+          <coordinates>${site.longitude},${site.latitude},${site.height || 0}</coordinates>
+        </Point>
+      </Placemark>`
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+function safeFileName(text: string): string {
+  return text.replace(/[^\w.-]+/g, "_").slice(0, 60) || "overlay"
+}
+
+function extensionForType(mimeType: string): string {
+  if (mimeType === "image/jpeg") return "jpg"
+  if (mimeType === "image/webp") return "webp"
+  if (mimeType === "image/gif") return "gif"
+  return "png"
+}
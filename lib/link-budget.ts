@@ -0,0 +1,120 @@
+// Link budget from a transmitter site to a receive location, step by step
+
+import type { CoverageLevel, TechnicalData } from "@/types/map"
+import { coverageLevels } from "@/data/coveragelevel"
+import { calculateBearing, calculateDistance, type Coordinates } from "@/lib/geo-utils"
+import { erpKwToDbm, hataPathLoss, levelForPower, patternLoss, type AntennaPattern, type PropagationEnvironment } from "@/lib/propagation"
+import { PREDICTION_RASTER, PREDICTION_RECEIVER, PROPAGATION_MODEL } from "@/constants/propagation"
+
+export type PathLossModel = "free-space" | "hata"
+
+export interface ReceiverSettings {
+  heightM: number // receive antenna height above ground
+  gainDbi: number
+  cableLossDb: number
+  model: PathLossModel
+}
+
+export interface LinkBudget {
+  distanceKm: number
+  bearingFromSite: number // ° true, site towards the receiver
+  depression: number // ° below the site's horizon
+  frequencyMHz: number
+  erpKw: number
+  erpDbw: number
+  feederLossDb: number
+  patternLossDb: number // attenuation off the main beam towards the receiver
+  eirpDbw: number
+  pathLossDb: number
+  model: PathLossModel
+  fieldStrengthDbuvm: number
+  isotropicDbm: number // power into a 0 dBi antenna
+  receiverGainDbi: number
+  cableLossDb: number
+  receivedDbm: number // power at the receiver input
+  level: CoverageLevel | null
+}
+
+export const DEFAULT_RECEIVER_SETTINGS: ReceiverSettings = {
+  heightM: PREDICTION_RECEIVER.HEIGHT_M,
+  gainDbi: PREDICTION_RECEIVER.GAIN_DBI,
+  cableLossDb: 0,
+  model: "hata",
+}
+
+// ERP is referenced to a half-wave dipole
+const DIPOLE_GAIN_DBI = 2.15
+// Closest distance the free-space formula is evaluated at
+const MIN_FREE_SPACE_KM = 0.01
+
+/**
+ * Free-space basic transmission loss (dB) between isotropic antennas
+ */
+export function freeSpacePathLoss(distanceKm: number, frequencyMHz: number): number {
+  return 32.45 + 20 * Math.log10(Math.max(MIN_FREE_SPACE_KM, distanceKm)) + 20 * Math.log10(frequencyMHz)
+}
+
+/**
+ * Field strength (dBµV/m) that delivers the given power into an isotropic antenna
+ */
+export function powerToFieldStrength(isotropicDbm: number, frequencyMHz: number): number {
+  return isotropicDbm + 20 * Math.log10(frequencyMHz) + 77.2
+}
+
+/**
+ * Power into an isotropic antenna (dBm) for a field strength in dBµV/m
+ */
+export function fieldStrengthToPower(fieldStrengthDbuvm: number, frequencyMHz: number): number {
+  return fieldStrengthDbuvm - 20 * Math.log10(frequencyMHz) - 77.2
+}
+
+/**
+ * Link budget from a site to a receive location. Heights are above local ground, so the
+ * depression angle ignores terrain; the terrain profile covers obstruction separately.
+ */
+export function calculateLinkBudget(
+  site: TechnicalData,
+  pattern: AntennaPattern,
+  receiver: Coordinates,
+  settings: ReceiverSettings,
+  frequencyMHz: number = PROPAGATION_MODEL.FREQUENCY_MHZ
+): LinkBudget {
+  const distanceKm = calculateDistance(site, receiver)
+  const bearingFromSite = calculateBearing(site, receiver)
+  const siteHeight = site.height || 0
+  const depression = (Math.atan2(siteHeight - settings.heightM, Math.max(1, distanceKm * 1000)) * 180) / Math.PI
+
+  // Max ERP in the register is rated before the main feeder, as in the coverage prediction
+  const erpDbw = erpKwToDbm(site.maxERP) - 30
+  const feederLossDb = Number.isFinite(site.feederLoss) ? Math.max(0, site.feederLoss) : 0
+  const patternLossDb = patternLoss(pattern, bearingFromSite, depression)
+  const eirpDbw = erpDbw - feederLossDb - patternLossDb + DIPOLE_GAIN_DBI
+
+  const pathLossDb = settings.model === "free-space"
+    ? freeSpacePathLoss(distanceKm, frequencyMHz)
+    : hataPathLoss(distanceKm, siteHeight, settings.heightM, frequencyMHz, PROPAGATION_MODEL.ENVIRONMENT as PropagationEnvironment)
+
+  const isotropicDbm = eirpDbw + 30 - pathLossDb
+  const receivedDbm = isotropicDbm + settings.gainDbi - settings.cableLossDb
+  const levelValue = levelForPower(receivedDbm, coverageLevels, PREDICTION_RASTER.FLOOR_DBM)
+
+  return {
+    distanceKm,
+    bearingFromSite,
+    depression,
+    frequencyMHz,
+    erpKw: site.maxERP,
+    erpDbw,
+    feederLossDb,
+    patternLossDb,
+    eirpDbw,
+    pathLossDb,
+    model: settings.model,
+    fieldStrengthDbuvm: powerToFieldStrength(isotropicDbm, frequencyMHz),
+    isotropicDbm,
+    receiverGainDbi: settings.gainDbi,
+    cableLossDb: settings.cableLossDb,
+    receivedDbm,
+    level: coverageLevels.find((level) => level.value === levelValue) ?? null,
+  }
+}
@@ -0,0 +1,132 @@
+// Resample lat/lng-gridded overlay images so their rows line up with the Web Mercator basemap
+
+import type { ImageOverlay } from "leaflet"
+import type { Bounds } from "@/lib/coverage-raster"
+import { CACHE_SETTINGS } from "@/constants/performance"
+
+// Tallest warped image; very tall sources are resampled to this height
+const MAX_WARP_HEIGHT = 4096
+// Below this many pixels of north/south shift an image is used as it is
+const MIN_SHIFT_PX = 0.5
+// Latitudes checked when estimating the shift
+const SHIFT_SAMPLES = 64
+
+const toRad = Math.PI / 180
+
+// Warped images by source URL and bounds; data: URLs are generated per render and not cached
+const warpCache = new Map<string, Promise<string>>()
+
+/**
+ * Web Mercator y (radians) of a latitude
+ */
+export function latToMercatorY(latitude: number): number {
+  return Math.log(Math.tan(Math.PI / 4 + (latitude * toRad) / 2))
+}
+
+/**
+ * Latitude of a Web Mercator y (radians)
+ */
+export function mercatorYToLat(y: number): number {
+  return (2 * Math.atan(Math.exp(y)) - Math.PI / 2) / toRad
+}
+
+/**
+ * Largest north/south displacement (in source rows) of stretching an image of this height
+ * linearly between its bounds instead of projecting each row
+ */
+export function getMercatorShiftPx(bounds: Bounds, height: number): number {
+  const [[south], [north]] = bounds
+  const yNorth = latToMercatorY(north)
+  const ySpan = yNorth - latToMercatorY(south)
+  if (!(ySpan > 0)) return 0
+
+  let shift = 0
+  for (let i = 1; i < SHIFT_SAMPLES; i++) {
+    const t = i / SHIFT_SAMPLES
+    const mercatorT = (yNorth - latToMercatorY(north - t * (north - south))) / ySpan
+    shift = Math.max(shift, Math.abs(mercatorT - t))
+  }
+  return shift * height
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous"
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load overlay image: ${url}`))
+    img.src = url
+  })
+}
+
+async function renderWarpedImage(imageUrl: string, bounds: Bounds): Promise<string> {
+  const img = await loadImage(imageUrl)
+  const width = img.naturalWidth
+  const height = img.naturalHeight
+  if (getMercatorShiftPx(bounds, height) < MIN_SHIFT_PX) return imageUrl
+
+  const [[south], [north]] = bounds
+  const yNorth = latToMercatorY(north)
+  const ySpan = yNorth - latToMercatorY(south)
+  // Mercator stretches most at the poleward edge; give that edge at least one output row per source row
+  const maxScale = 1 / Math.cos(Math.max(Math.abs(north), Math.abs(south)) * toRad)
+  const meanScale = ySpan / ((north - south) * toRad)
+  const outputHeight = Math.min(MAX_WARP_HEIGHT, Math.max(height, Math.ceil((height * maxScale) / meanScale)))
+
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = outputHeight
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+
+  // Copy whole source rows; nearest-neighbour keeps legend colours exact
+  ctx.imageSmoothingEnabled = false
+  for (let row = 0; row < outputHeight; row++) {
+    const latitude = mercatorYToLat(yNorth - ((row + 0.5) / outputHeight) * ySpan)
+    const sourceRow = Math.min(height - 1, Math.max(0, Math.floor(((north - latitude) / (north - south)) * height)))
+    ctx.drawImage(img, 0, sourceRow, width, 1, 0, row, width, 1)
+  }
+
+  // Throws for images from hosts without CORS, as the canvas is then tainted
+  const warpedUrl = canvas.toDataURL("image/png")
+  canvas.remove()
+  return warpedUrl
+}
+
+/**
+ * Resample an image whose rows are evenly spaced in latitude so that they are evenly spaced in
+ * Web Mercator, which is what L.imageOverlay assumes. Returns the original URL when the
+ * difference is under half a pixel.
+ */
+export function warpImageToMercator(imageUrl: string, bounds: Bounds): Promise<string> {
+  if (imageUrl.startsWith("data:")) return renderWarpedImage(imageUrl, bounds)
+
+  const key = `${imageUrl}|${bounds.flat().join(",")}`
+  const cached = warpCache.get(key)
+  if (cached) return cached
+
+  const promise = renderWarpedImage(imageUrl, bounds)
+  promise.catch(() => warpCache.delete(key))
+  warpCache.set(key, promise)
+
+  // Drop the oldest images once the cache is full
+  while (warpCache.size > CACHE_SETTINGS.MAX_CACHED_IMAGES) {
+    const oldest = warpCache.keys().next().value
+    if (oldest === undefined) break
+    warpCache.delete(oldest)
+  }
+  return promise
+}
+
+/**
+ * Swap an image overlay's picture for its Mercator-warped version once that is ready.
+ * The overlay shows the unwarped image meanwhile, and keeps it if warping fails.
+ */
+export function warpImageOverlay<T extends ImageOverlay>(overlay: T, imageUrl: string, bounds: Bounds): T {
+  warpImageToMercator(imageUrl, bounds)
+    .then((warpedUrl) => {
+      if (warpedUrl !== imageUrl) overlay.setUrl(warpedUrl)
+    })
+    .catch((error) => console.warn("Overlay shown without Mercator warping:", error))
+  return overlay
+}
@@ -0,0 +1,253 @@
+// Offline use: service worker registration and the Cache Storage that public/sw.js serves from
+
+import type { BBox } from "@/lib/data-query"
+import { latToTileY, lngToTileX, type TileCoordinates } from "@/lib/coverage-tiles"
+import type { Station } from "@/types/map"
+import { BASEMAP_DOWNLOAD, BASEMAP_LAYERS, OFFLINE_CACHES } from "@/constants/offline"
+
+export type BasemapType = keyof typeof BASEMAP_LAYERS
+
+export interface BasemapLayer {
+  url: string
+  attribution: string
+  maxZoom: number
+}
+
+export interface CacheUsage {
+  name: string
+  label: string
+  entries: number
+}
+
+export interface StorageUsage {
+  usedBytes: number | null // whole origin, as estimated by the browser
+  quotaBytes: number | null
+  persisted: boolean // storage the browser will not evict under pressure
+  caches: CacheUsage[]
+}
+
+export interface DownloadProgress {
+  done: number
+  failed: number
+  total: number
+}
+
+// Tile source for region downloads, set at build time. The public OpenStreetMap and Esri servers
+// forbid bulk and offline prefetching, so regions cannot be downloaded without one.
+export const DOWNLOAD_BASEMAP: BasemapLayer | null = process.env.NEXT_PUBLIC_BASEMAP_DOWNLOAD_URL
+  ? {
+      url: process.env.NEXT_PUBLIC_BASEMAP_DOWNLOAD_URL,
+      attribution: process.env.NEXT_PUBLIC_BASEMAP_DOWNLOAD_ATTRIBUTION || "",
+      maxZoom: BASEMAP_LAYERS.street.maxZoom,
+    }
+  : null
+
+export const OFFLINE_CACHE_LABELS: Record<string, string> = {
+  [OFFLINE_CACHES.SHELL]: "App",
+  [OFFLINE_CACHES.DATA]: "Station data",
+  [OFFLINE_CACHES.OVERLAYS]: "Coverage overlays",
+  [OFFLINE_CACHES.BASEMAP]: "Basemap tiles",
+}
+
+/**
+ * Tile layer for a basemap type. The street map comes from DOWNLOAD_BASEMAP when one is set, so
+ * that downloaded regions are what the map shows offline.
+ */
+export function getBasemapLayer(type: BasemapType): BasemapLayer {
+  return type === "street" && DOWNLOAD_BASEMAP ? DOWNLOAD_BASEMAP : BASEMAP_LAYERS[type]
+}
+
+/**
+ * Whether the browser reports no network connection
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== "undefined" && navigator.onLine === false
+}
+
+/**
+ * Whether this browser can keep the app and its data for offline use
+ */
+export function isOfflineSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "caches" in window
+}
+
+/**
+ * Register public/sw.js (production builds only, as it would cache development bundles) and
+ * hand it the scripts and styles this page has already loaded, which it cannot see itself
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!isOfflineSupported() || process.env.NODE_ENV !== "production") return
+
+  try {
+    await navigator.serviceWorker.register("/sw.js")
+    const registration = await navigator.serviceWorker.ready
+    const urls = performance
+      .getEntriesByType("resource")
+      .map((entry) => entry.name)
+      .filter((url) => url.startsWith(`${location.origin}/_next/static/`))
+    registration.active?.postMessage({ type: "CACHE_URLS", urls: [location.pathname, ...urls] })
+  } catch (error) {
+    console.warn("Service worker registration failed:", error)
+  }
+}
+
+/**
+ * Coverage images that can be saved for offline use (GeoTIFF and imported overlays are
+ * generated in the browser and are not)
+ */
+export function getDownloadableStations(stations: Station[]): Station[] {
+  return stations.filter((station) => /^https?:\/\//i.test(station.imageUrl))
+}
+
+/**
+ * URLs of the coverage images already saved
+ */
+export async function getCachedOverlayUrls(): Promise<Set<string>> {
+  if (!isOfflineSupported()) return new Set()
+  const cache = await caches.open(OFFLINE_CACHES.OVERLAYS)
+  return new Set((await cache.keys()).map((request) => request.url))
+}
+
+/**
+ * Fetch URLs into a cache a few at a time, skipping those already there
+ */
+async function cacheUrls(
+  cacheName: string,
+  urls: string[],
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<DownloadProgress> {
+  const cache = await caches.open(cacheName)
+  const progress: DownloadProgress = { done: 0, failed: 0, total: urls.length }
+  let next = 0
+
+  const worker = async () => {
+    while (next < urls.length && !signal?.aborted) {
+      const url = urls[next++]
+      try {
+        if (!(await cache.match(url))) {
+          // CORS responses are needed so that overlays can be read back into canvases
+          const response = await fetch(url, { mode: "cors", signal })
+          if (!response.ok) throw new Error(`${response.status} ${response.statusText}`)
+          await cache.put(url, response)
+        }
+        progress.done++
+      } catch (error) {
+        if (signal?.aborted) break
+        console.warn(`Failed to save ${url} for offline use:`, error)
+        progress.failed++
+      }
+      onProgress?.({ ...progress })
+    }
+  }
+
+  // Ask the browser not to evict what the user saved deliberately
+  await navigator.storage?.persist?.().catch(() => false)
+  await Promise.all(Array.from({ length: Math.min(BASEMAP_DOWNLOAD.CONCURRENCY, urls.length) }, worker))
+  return progress
+}
+
+/**
+ * Save stations' coverage images for offline use
+ */
+export function downloadStationOverlays(
+  stations: Station[],
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<DownloadProgress> {
+  const urls = Array.from(new Set(getDownloadableStations(stations).map((station) => station.imageUrl)))
+  return cacheUrls(OFFLINE_CACHES.OVERLAYS, urls, onProgress, signal)
+}
+
+/**
+ * Basemap tiles covering a region from BASEMAP_DOWNLOAD.MIN_ZOOM up to maxZoom
+ */
+export function getRegionTiles(bbox: BBox, maxZoom: number): TileCoordinates[] {
+  const [west, south, east, north] = bbox
+  const tiles: TileCoordinates[] = []
+  for (let z = BASEMAP_DOWNLOAD.MIN_ZOOM; z <= maxZoom; z++) {
+    for (let x = lngToTileX(west, z); x <= lngToTileX(east, z); x++) {
+      for (let y = latToTileY(north, z); y <= latToTileY(south, z); y++) {
+        tiles.push({ z, x, y })
+      }
+    }
+  }
+  return tiles
+}
+
+/**
+ * Number of basemap tiles in a region, without listing them
+ */
+export function countRegionTiles(bbox: BBox, maxZoom: number): number {
+  const [west, south, east, north] = bbox
+  let count = 0
+  for (let z = BASEMAP_DOWNLOAD.MIN_ZOOM; z <= maxZoom; z++) {
+    count += (lngToTileX(east, z) - lngToTileX(west, z) + 1) * (latToTileY(south, z) - latToTileY(north, z) + 1)
+  }
+  return count
+}
+
+/**
+ * URL of a basemap tile as public/sw.js looks it up; {s} subdomains are dropped so that
+ * every subdomain Leaflet picks finds the same cached tile
+ */
+export function getBasemapTileUrl(template: string, { z, x, y }: TileCoordinates): string {
+  return template
+    .replace("{s}.", "")
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+}
+
+/**
+ * Save the basemap tiles of a region from DOWNLOAD_BASEMAP for offline use
+ * @throws when no download source is set or the region needs more than BASEMAP_DOWNLOAD.MAX_TILES tiles
+ */
+export async function downloadBasemapRegion(
+  bbox: BBox,
+  maxZoom: number,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<DownloadProgress> {
+  if (!DOWNLOAD_BASEMAP) {
+    throw new Error("No basemap tile source allows offline downloads; set NEXT_PUBLIC_BASEMAP_DOWNLOAD_URL")
+  }
+  const count = countRegionTiles(bbox, maxZoom)
+  if (count > BASEMAP_DOWNLOAD.MAX_TILES) {
+    throw new Error(`${count} tiles needed; choose a smaller area or zoom (limit ${BASEMAP_DOWNLOAD.MAX_TILES})`)
+  }
+  const urls = getRegionTiles(bbox, maxZoom).map((tile) => getBasemapTileUrl(DOWNLOAD_BASEMAP.url, tile))
+  return cacheUrls(OFFLINE_CACHES.BASEMAP, urls, onProgress, signal)
+}
+
+/**
+ * Storage used by the app and the number of entries in each offline cache
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null)
+  const persisted = (await navigator.storage?.persisted?.().catch(() => false)) ?? false
+
+  const usage: CacheUsage[] = []
+  if (isOfflineSupported()) {
+    for (const name of Object.values(OFFLINE_CACHES)) {
+      const cache = await caches.open(name)
+      usage.push({ name, label: OFFLINE_CACHE_LABELS[name], entries: (await cache.keys()).length })
+    }
+  }
+
+  return {
+    usedBytes: estimate?.usage ?? null,
+    quotaBytes: estimate?.quota ?? null,
+    persisted,
+    caches: usage,
+  }
+}
+
+/**
+ * Delete offline caches; all of them when no names are given. The service worker refills the
+ * app and station data caches on the next visit while online.
+ */
+export async function clearOfflineCache(names: string[] = Object.values(OFFLINE_CACHES)): Promise<void> {
+  if (!isOfflineSupported()) return
+  await Promise.all(names.map((name) => caches.delete(name)))
+}
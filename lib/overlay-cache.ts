@@ -0,0 +1,217 @@
+// Persistent IndexedDB cache of compressed overlay images, evicted least recently used first
+
+import { CACHE_SETTINGS } from "@/constants/performance"
+
+export interface CachedOverlay {
+  key: string // `${variant}|${sourceUrl}`
+  sourceUrl: string
+  variant: string // settings the blob was made with, e.g. the compression options
+  etag: string | null // ETag (or Last-Modified) of the source the blob was made from
+  blob: Blob
+  size: number // bytes
+  width?: number
+  height?: number
+  lastUsed: number
+  validatedAt: number // when the source was last confirmed unchanged
+}
+
+export type CachedOverlayInput = Pick<CachedOverlay, "sourceUrl" | "variant" | "etag" | "blob" | "width" | "height">
+
+export interface OverlayCacheStats {
+  count: number
+  totalBytes: number
+}
+
+const DB_NAME = "skyview-overlay-cache"
+const DB_VERSION = 1
+const STORE_NAME = "overlays"
+const LAST_USED_INDEX = "lastUsed"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" })
+        store.createIndex(LAST_USED_INDEX, "lastUsed")
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+function getKey(sourceUrl: string, variant: string): string {
+  return `${variant}|${sourceUrl}`
+}
+
+/**
+ * Whether an overlay can be kept across visits: remote images only, as blob: and data: URLs
+ * do not outlive the page
+ */
+export function canPersistOverlay(sourceUrl: string): boolean {
+  return typeof indexedDB !== "undefined" && /^https?:\/\//i.test(sourceUrl)
+}
+
+/**
+ * Version of a source from its response headers: the ETag, or Last-Modified when a cross-origin
+ * server does not expose its ETag
+ */
+export function getSourceVersion(response: Response): string | null {
+  return response.headers.get("ETag") ?? response.headers.get("Last-Modified")
+}
+
+// HEAD needs no CORS preflight and downloads nothing; null when the source is unreachable
+async function headSource(sourceUrl: string): Promise<Response | null> {
+  try {
+    const response = await fetch(sourceUrl, { method: "HEAD", cache: "no-cache" })
+    return response.ok ? response : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Current version of a source without downloading it
+ */
+export async function fetchSourceVersion(sourceUrl: string): Promise<string | null> {
+  const response = await headSource(sourceUrl)
+  return response ? getSourceVersion(response) : null
+}
+
+/**
+ * A stored overlay for a source and variant. Entries checked within CACHE_SETTINGS.CACHE_EXPIRY_MS
+ * are returned without a request; older ones are revalidated with a HEAD request and dropped when
+ * the source's version has changed, but kept when it is unreachable, e.g. offline. Sources that
+ * expose no version cannot be revalidated, so their entries are kept until
+ * CACHE_SETTINGS.UNVERSIONED_CACHE_EXPIRY_MS and then fetched again.
+ * @returns null when nothing usable is stored
+ */
+export async function getCachedOverlay(sourceUrl: string, variant: string): Promise<CachedOverlay | null> {
+  try {
+    const database = await openDatabase()
+    const key = getKey(sourceUrl, variant)
+    const entry: CachedOverlay | undefined = await requestResult(
+      database.transaction(STORE_NAME).objectStore(STORE_NAME).get(key)
+    )
+    if (!entry) return null
+
+    const now = Date.now()
+    const expiry = entry.etag ? CACHE_SETTINGS.CACHE_EXPIRY_MS : CACHE_SETTINGS.UNVERSIONED_CACHE_EXPIRY_MS
+    if (now - entry.validatedAt >= expiry) {
+      const response = await headSource(sourceUrl)
+      if (response) {
+        const version = getSourceVersion(response)
+        if (!entry.etag || (version && version !== entry.etag)) {
+          const transaction = database.transaction(STORE_NAME, "readwrite")
+          transaction.objectStore(STORE_NAME).delete(key)
+          await transactionDone(transaction)
+          return null
+        }
+        if (version) {
+          entry.validatedAt = now
+        } else {
+          // The source no longer exposes its version: keep the entry until the unversioned expiry
+          entry.etag = null
+        }
+      }
+    }
+
+    // Mark as recently used for eviction
+    entry.lastUsed = now
+    const transaction = database.transaction(STORE_NAME, "readwrite")
+    transaction.objectStore(STORE_NAME).put(entry)
+    await transactionDone(transaction)
+    return entry
+  } catch (error) {
+    console.warn(`Persistent overlay cache unavailable for ${sourceUrl}:`, error)
+    return null
+  }
+}
+
+/**
+ * Drop the least recently used overlays until the cache is within CACHE_SETTINGS
+ */
+async function evictOverlays(database: IDBDatabase): Promise<void> {
+  const transaction = database.transaction(STORE_NAME, "readwrite")
+  const store = transaction.objectStore(STORE_NAME)
+  const entries: CachedOverlay[] = await requestResult(store.index(LAST_USED_INDEX).getAll())
+
+  const maxBytes = CACHE_SETTINGS.MAX_CACHE_SIZE_MB * 1024 * 1024
+  let count = entries.length
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0)
+  for (const entry of entries) {
+    if (count <= CACHE_SETTINGS.MAX_CACHED_IMAGES && totalBytes <= maxBytes) break
+    store.delete(entry.key)
+    count--
+    totalBytes -= entry.size
+  }
+  await transactionDone(transaction)
+}
+
+/**
+ * Store an overlay, replacing any earlier one for the same source and variant.
+ * Failures (e.g. storage quota or private browsing) are logged and otherwise ignored.
+ */
+export async function putCachedOverlay(input: CachedOverlayInput): Promise<void> {
+  try {
+    const database = await openDatabase()
+    const now = Date.now()
+    const entry: CachedOverlay = {
+      ...input,
+      key: getKey(input.sourceUrl, input.variant),
+      size: input.blob.size,
+      lastUsed: now,
+      validatedAt: now,
+    }
+
+    const transaction = database.transaction(STORE_NAME, "readwrite")
+    transaction.objectStore(STORE_NAME).put(entry)
+    await transactionDone(transaction)
+    await evictOverlays(database)
+  } catch (error) {
+    console.warn(`Failed to store ${input.sourceUrl} in the persistent overlay cache:`, error)
+  }
+}
+
+/**
+ * Number and total size of stored overlays
+ */
+export async function getOverlayCacheStats(): Promise<OverlayCacheStats> {
+  if (typeof indexedDB === "undefined") return { count: 0, totalBytes: 0 }
+  const database = await openDatabase()
+  const entries: CachedOverlay[] = await requestResult(database.transaction(STORE_NAME).objectStore(STORE_NAME).getAll())
+  return { count: entries.length, totalBytes: entries.reduce((sum, entry) => sum + entry.size, 0) }
+}
+
+/**
+ * Delete every stored overlay
+ */
+export async function clearCachedOverlays(): Promise<void> {
+  if (typeof indexedDB === "undefined") return
+  const database = await openDatabase()
+  const transaction = database.transaction(STORE_NAME, "readwrite")
+  transaction.objectStore(STORE_NAME).clear()
+  await transactionDone(transaction)
+}
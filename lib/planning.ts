@@ -0,0 +1,219 @@
+// What-if transmitter planning: hypothetical sites, saved scenarios and their effect on coverage
+
+import type { Station, TechnicalData } from "@/types/map"
+import type { Bounds } from "@/lib/coverage-raster"
+import { buildBestServerGrid, getGridSize, getUnionBounds, renderGridToDataUrl } from "@/lib/coverage-composite"
+import { calculateLevelAreas } from "@/lib/coverage-stats"
+import { predictSiteCoverage } from "@/lib/coverage-prediction"
+import { formatTechnicalCsv } from "@/data/technical"
+
+export interface PlannedTransmitter {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  erpKw: number
+  heightAgl: number // m above ground
+  beamTilt: number // ° below the horizon
+  azimuth: number | null // main beam bearing (°), null = omnidirectional
+}
+
+export interface ScenarioSummary {
+  minLevel: number
+  beforeKm2: number // area at or above minLevel with the existing network
+  afterKm2: number // the same with the scenario applied
+  gainedKm2: number
+  lostKm2: number
+  computedAt: string
+}
+
+export interface PlanningScenario {
+  id: string
+  name: string
+  transmitters: PlannedTransmitter[]
+  removedStationIds: string[] // existing overlays switched off in this scenario
+  summary?: ScenarioSummary // last analysis, kept for comparing saved scenarios
+  updatedAt: string
+}
+
+export interface ScenarioAnalysis {
+  summary: ScenarioSummary
+  region: Bounds
+  overlayUrl: string // gained (green) and lost (red) pixels, georeferenced by region
+  plannedStations: Station[] // predicted coverage of each planned transmitter
+}
+
+const STORAGE_KEY = "sky-view-planning-scenarios"
+
+// Analysis grid resolution
+const MAX_ANALYSIS_DIMENSION = 1024
+
+const GAINED_COLOR: [number, number, number, number] = [22, 163, 74, 170]
+const LOST_COLOR: [number, number, number, number] = [220, 38, 38, 170]
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+/**
+ * Saved scenarios from localStorage; unreadable data yields an empty list
+ */
+export function loadScenarios(): PlanningScenario[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const scenarios = saved ? JSON.parse(saved) : []
+    return Array.isArray(scenarios) ? scenarios : []
+  } catch (error) {
+    console.warn("Failed to load planning scenarios:", error)
+    return []
+  }
+}
+
+export function saveScenarios(scenarios: PlanningScenario[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scenarios))
+  } catch (error) {
+    console.warn("Failed to save planning scenarios:", error)
+  }
+}
+
+export function createScenario(name: string): PlanningScenario {
+  return { id: createId("scenario"), name, transmitters: [], removedStationIds: [], updatedAt: new Date().toISOString() }
+}
+
+/**
+ * New omnidirectional transmitter with typical low-power gap-filler settings
+ */
+export function createTransmitter(latitude: number, longitude: number, index: number): PlannedTransmitter {
+  return {
+    id: createId("tx"),
+    name: `สถานีใหม่ ${index}`,
+    latitude,
+    longitude,
+    erpKw: 1,
+    heightAgl: 60,
+    beamTilt: 0,
+    azimuth: null,
+  }
+}
+
+/**
+ * Express a planned transmitter as a technical_data.csv row
+ */
+export function transmitterToTechnicalData(transmitter: PlannedTransmitter, id = transmitter.id): TechnicalData {
+  return {
+    id,
+    responsibleEntity: "",
+    stationNameEng: transmitter.name,
+    stationNameThai: transmitter.name,
+    address: "",
+    owner: "",
+    engineeringCenter: "",
+    stationType: "",
+    longitude: transmitter.longitude,
+    latitude: transmitter.latitude,
+    height: transmitter.heightAgl,
+    hrp: transmitter.azimuth === null ? "ND" : String(transmitter.azimuth),
+    location: "",
+    antType1: "",
+    antType2: "",
+    beamTilt: transmitter.beamTilt.toFixed(2),
+    feederLoss: 0,
+    antBrand: "",
+    maxERP: transmitter.erpKw,
+    channel: null,
+    frequencyMHz: null,
+    sfnGroup: "",
+  }
+}
+
+function boundsIntersect([[s1, w1], [n1, e1]]: Bounds, [[s2, w2], [n2, e2]]: Bounds): boolean {
+  return s1 < n2 && n1 > s2 && w1 < e2 && e1 > w2
+}
+
+/**
+ * Compare coverage at or above minLevel before and after applying a scenario to the existing network
+ * @param existingStations Stations that make up today's network (callers pass the visible subset)
+ */
+export async function analyzeScenario(
+  scenario: PlanningScenario,
+  existingStations: Station[],
+  minLevel: number
+): Promise<ScenarioAnalysis> {
+  const predictions = await Promise.all(
+    scenario.transmitters.map((transmitter) => predictSiteCoverage(transmitterToTechnicalData(transmitter)))
+  )
+  const plannedStations = predictions.map((prediction) => prediction.station)
+  const removed = existingStations.filter((station) => scenario.removedStationIds.includes(station.id))
+
+  const region = getUnionBounds([...plannedStations, ...removed])
+  if (!region) {
+    throw new Error("Scenario has no transmitters and removes no stations")
+  }
+
+  // Only stations overlapping the region can change the result
+  const existing = existingStations.filter((station) => boundsIntersect(station.bounds, region))
+  const kept = existing.filter((station) => !scenario.removedStationIds.includes(station.id))
+
+  const { width, height } = getGridSize(region, MAX_ANALYSIS_DIMENSION)
+  const before = await buildBestServerGrid(existing, region, width, height)
+  const after = await buildBestServerGrid([...kept, ...plannedStations], region, width, height)
+
+  // Masks use level value 1 so calculateLevelAreas can measure them
+  const masks = {
+    before: new Uint8Array(width * height),
+    after: new Uint8Array(width * height),
+    gained: new Uint8Array(width * height),
+    lost: new Uint8Array(width * height),
+  }
+  for (let i = 0; i < width * height; i++) {
+    const wasCovered = before.levels[i] >= minLevel
+    const isCovered = after.levels[i] >= minLevel
+    masks.before[i] = wasCovered ? 1 : 0
+    masks.after[i] = isCovered ? 1 : 0
+    masks.gained[i] = isCovered && !wasCovered ? 1 : 0
+    masks.lost[i] = wasCovered && !isCovered ? 1 : 0
+  }
+  const area = (levels: Uint8Array) => calculateLevelAreas({ width, height, levels }, region)[1]
+
+  const overlayUrl = renderGridToDataUrl(width, height, (offset) => {
+    if (masks.gained[offset]) return GAINED_COLOR
+    if (masks.lost[offset]) return LOST_COLOR
+    return null
+  })
+
+  return {
+    summary: {
+      minLevel,
+      beforeKm2: area(masks.before),
+      afterKm2: area(masks.after),
+      gainedKm2: area(masks.gained),
+      lostKm2: area(masks.lost),
+      computedAt: new Date().toISOString(),
+    },
+    region,
+    overlayUrl,
+    plannedStations,
+  }
+}
+
+/**
+ * Planned transmitters as technical_data.csv rows, numbered P1, P2, ...
+ */
+export function scenarioToCsv(scenario: PlanningScenario): string {
+  return formatTechnicalCsv(
+    scenario.transmitters.map((transmitter, index) => transmitterToTechnicalData(transmitter, `P${index + 1}`))
+  )
+}
+
+export function downloadScenarioCsv(scenario: PlanningScenario): void {
+  const blob = new Blob([scenarioToCsv(scenario)], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `${scenario.name.replace(/[\\/:*?"<>|]+/g, "_") || "scenario"}_technical_data.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
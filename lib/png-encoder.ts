@@ -0,0 +1,86 @@
+// Minimal indexed-colour (palette) PNG encoder for legend-coloured overlays
+
+export type PaletteColor = [number, number, number, number] // RGBA
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const COLOR_TYPE_INDEXED = 3
+
+let crcTable: Uint32Array | null = null
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length)
+  const view = new DataView(out.buffer)
+  view.setUint32(0, data.length)
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i)
+  out.set(data, 8)
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)))
+  return out
+}
+
+// PNG image data is a zlib stream, which is what CompressionStream calls "deflate"
+async function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("deflate"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Encode 8-bit palette indices as a PNG. Palette alpha goes into a tRNS chunk, so transparent
+ * entries survive; at most 256 colours.
+ */
+export async function encodeIndexedPng(
+  width: number,
+  height: number,
+  indices: Uint8Array,
+  palette: PaletteColor[]
+): Promise<Blob> {
+  if (palette.length === 0 || palette.length > 256) {
+    throw new Error(`An indexed PNG needs 1-256 palette colours, got ${palette.length}`)
+  }
+  if (indices.length !== width * height) {
+    throw new Error("Index buffer does not match the image size")
+  }
+
+  const header = new Uint8Array(13)
+  const headerView = new DataView(header.buffer)
+  headerView.setUint32(0, width)
+  headerView.setUint32(4, height)
+  header[8] = 8 // bit depth
+  header[9] = COLOR_TYPE_INDEXED
+
+  const rgb = new Uint8Array(palette.length * 3)
+  const alpha = new Uint8Array(palette.length)
+  palette.forEach(([r, g, b, a], index) => {
+    rgb.set([r, g, b], index * 3)
+    alpha[index] = a
+  })
+
+  // Each scanline starts with filter type 0 (none); runs of one index deflate well as they are
+  const scanlines = new Uint8Array(height * (width + 1))
+  for (let y = 0; y < height; y++) {
+    scanlines.set(indices.subarray(y * width, (y + 1) * width), y * (width + 1) + 1)
+  }
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("PLTE", rgb),
+    chunk("tRNS", alpha),
+    chunk("IDAT", await zlibCompress(scanlines)),
+    chunk("IEND", new Uint8Array(0)),
+  ]
+  return new Blob(parts, { type: "image/png" })
+}
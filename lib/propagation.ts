@@ -0,0 +1,344 @@
+// Coverage prediction: Okumura-Hata path loss with knife-edge terrain diffraction.
+// Pure functions only, so the same code runs in the prediction worker and on the main thread.
+
+import type { Bounds } from "@/lib/coverage-raster"
+import type { TechnicalData } from "@/types/map"
+import { parseHrp, sampleAttenuation, type AntennaPatternData } from "@/lib/antenna-patterns"
+import { DEFAULT_ANTENNA_PATTERN, PROPAGATION_MODEL } from "@/constants/propagation"
+import { LINE_OF_SIGHT } from "@/constants/terrain"
+
+export type PropagationEnvironment = "urban" | "suburban" | "open"
+
+export interface AntennaPattern {
+  azimuths: number[] // main beam bearings (°), empty = omnidirectional
+  horizontal: number[] | null // measured attenuation per degree off the main beam, null = parametric
+  vertical: number[] | null // measured attenuation per degree below the horizon, null = parametric
+  horizontalBeamwidth: number // °, -3 dB
+  frontToBack: number // dB
+  verticalBeamwidth: number // °, -3 dB
+  verticalSidelobe: number // dB
+  tilt: number // ° below the horizon the vertical pattern is steered by
+}
+
+export interface PropagationSite {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  heightAgl: number // antenna height above ground (m)
+  erpDbm: number // ERP leaving the antenna (dBm)
+  pattern: AntennaPattern
+}
+
+export interface LevelThreshold {
+  value: number
+  minDbm: number | null // null = open-ended band
+}
+
+export interface PredictionRequest {
+  site: PropagationSite
+  bounds: Bounds
+  width: number
+  height: number
+  terrain: Float32Array | null // ground elevation per output pixel (m), NaN where unknown
+  frequencyMHz: number
+  environment: PropagationEnvironment
+  receiverHeight: number
+  receiverGain: number
+  thresholds: LevelThreshold[]
+  floorDbm: number
+  radials: number
+}
+
+export interface PredictionGrid {
+  bounds: Bounds
+  width: number
+  height: number
+  power: Float32Array // received power (dBm), -Infinity outside the model range
+  levels: Uint8Array // coverage level value per pixel, 0 = below the floor
+}
+
+const KM_PER_DEGREE = 111.32
+const toRad = (deg: number) => (deg * Math.PI) / 180
+const toDeg = (rad: number) => (rad * 180) / Math.PI
+
+/**
+ * Convert an ERP in kW to dBm
+ */
+export function erpKwToDbm(kw: number): number {
+  return 10 * Math.log10(kw * 1e6)
+}
+
+/**
+ * Electrical beam tilt in degrees; blanks and dashes count as no tilt
+ */
+export function parseBeamTilt(beamTilt: string): number {
+  const tilt = Number.parseFloat(beamTilt)
+  return Number.isFinite(tilt) ? tilt : 0
+}
+
+/**
+ * Antenna pattern for a site: the linked catalogue pattern when there is one, otherwise a
+ * parametric shape around the HRP bearings. Multi-lobe HRPs ("10;190") get one beam per bearing.
+ */
+export function getAntennaPattern(data: TechnicalData, measured?: AntennaPatternData | null): AntennaPattern {
+  const siteTilt = Number.parseFloat(data.beamTilt)
+  return {
+    azimuths: parseHrp(data.hrp),
+    horizontal: measured?.horizontal ?? null,
+    vertical: measured?.vertical ?? null,
+    horizontalBeamwidth: DEFAULT_ANTENNA_PATTERN.HORIZONTAL_BEAMWIDTH_DEG,
+    frontToBack: DEFAULT_ANTENNA_PATTERN.FRONT_TO_BACK_DB,
+    verticalBeamwidth: DEFAULT_ANTENNA_PATTERN.VERTICAL_BEAMWIDTH_DEG,
+    verticalSidelobe: DEFAULT_ANTENNA_PATTERN.VERTICAL_SIDELOBE_DB,
+    // A measured pattern already carries its electrical tilt; only a site tilt beyond it steers the beam
+    tilt: measured
+      ? Number.isFinite(siteTilt) ? siteTilt - measured.electricalTilt : 0
+      : parseBeamTilt(data.beamTilt),
+  }
+}
+
+/**
+ * Prediction parameters for a transmitter site
+ */
+export function siteFromTechnicalData(data: TechnicalData, measured?: AntennaPatternData | null): PropagationSite {
+  // Max ERP in the register is rated before the main feeder, so its loss is taken off here
+  const feederLoss = Number.isFinite(data.feederLoss) ? Math.max(0, data.feederLoss) : 0
+  return {
+    id: data.id,
+    name: data.stationNameThai || data.stationNameEng,
+    latitude: data.latitude,
+    longitude: data.longitude,
+    heightAgl: data.height || 0,
+    erpDbm: erpKwToDbm(data.maxERP) - feederLoss,
+    pattern: getAntennaPattern(data, measured),
+  }
+}
+
+/**
+ * Okumura-Hata median path loss (dB) between isotropic antennas, with the ITU-R P.529 extension beyond 20 km
+ * @param distanceKm Path length, clamped to the model's lower limit
+ * @param txHeight Effective transmitter height (m)
+ * @param rxHeight Receiver height above ground (m)
+ */
+export function hataPathLoss(
+  distanceKm: number,
+  txHeight: number,
+  rxHeight: number,
+  frequencyMHz: number,
+  environment: PropagationEnvironment
+): number {
+  const d = Math.max(PROPAGATION_MODEL.MIN_DISTANCE_KM, distanceKm)
+  const hb = Math.max(PROPAGATION_MODEL.MIN_EFFECTIVE_HEIGHT_M, txHeight)
+  const logF = Math.log10(frequencyMHz)
+  const logHb = Math.log10(hb)
+
+  // Small/medium city mobile antenna correction
+  const mobileCorrection = (1.1 * logF - 0.7) * rxHeight - (1.56 * logF - 0.8)
+  const alpha = d > 20
+    ? 1 + (0.14 + 1.87e-4 * frequencyMHz + 1.07e-3 * hb) * Math.pow(Math.log10(d / 20), 0.8)
+    : 1
+
+  const urban = 69.55 + 26.16 * logF - 13.82 * logHb - mobileCorrection + (44.9 - 6.55 * logHb) * Math.pow(Math.log10(d), alpha)
+
+  if (environment === "suburban") return urban - 2 * Math.pow(Math.log10(frequencyMHz / 28), 2) - 5.4
+  if (environment === "open") return urban - 4.78 * logF * logF + 18.33 * logF - 40.94
+  return urban
+}
+
+/**
+ * Single knife-edge diffraction loss (dB) for the Fresnel-Kirchhoff parameter v (ITU-R P.526)
+ */
+export function knifeEdgeLoss(v: number): number {
+  if (v <= -0.78) return 0
+  return 6.9 + 20 * Math.log10(Math.sqrt((v - 0.1) * (v - 0.1) + 1) + v - 0.1)
+}
+
+/**
+ * Horizontal pattern attenuation (dB) towards a bearing, taking the strongest of the antenna's beams
+ */
+export function horizontalPatternLoss(pattern: AntennaPattern, bearing: number): number {
+  if (pattern.horizontal) {
+    // An omnidirectional site with a measured pattern is taken as facing north
+    if (pattern.azimuths.length === 0) return sampleAttenuation(pattern.horizontal, bearing)
+    let best = Number.POSITIVE_INFINITY
+    for (const azimuth of pattern.azimuths) {
+      best = Math.min(best, sampleAttenuation(pattern.horizontal, bearing - azimuth))
+    }
+    return best
+  }
+
+  let best = pattern.azimuths.length === 0 ? 0 : Number.POSITIVE_INFINITY
+  for (const azimuth of pattern.azimuths) {
+    const offset = Math.abs(((bearing - azimuth + 540) % 360) - 180)
+    best = Math.min(best, 12 * Math.pow(offset / pattern.horizontalBeamwidth, 2), pattern.frontToBack)
+  }
+  return best
+}
+
+/**
+ * Vertical pattern attenuation (dB) at a depression angle below the horizon
+ */
+export function verticalPatternLoss(pattern: AntennaPattern, depression: number): number {
+  if (pattern.vertical) return sampleAttenuation(pattern.vertical, depression - pattern.tilt)
+  return Math.min(12 * Math.pow((depression - pattern.tilt) / pattern.verticalBeamwidth, 2), pattern.verticalSidelobe)
+}
+
+/**
+ * Pattern attenuation (dB) towards a bearing and a depression angle below the horizon
+ */
+export function patternLoss(pattern: AntennaPattern, bearing: number, depression: number): number {
+  const loss = horizontalPatternLoss(pattern, bearing) + verticalPatternLoss(pattern, depression)
+  // Measured patterns carry their own back lobe; the parametric shape is floored at its front-to-back ratio
+  return pattern.horizontal ? loss : Math.min(loss, pattern.frontToBack)
+}
+
+/**
+ * Coverage level value for a received power, 0 below the floor
+ */
+export function levelForPower(dbm: number, thresholds: LevelThreshold[], floorDbm: number): number {
+  if (!(dbm >= floorDbm)) return 0
+  let best = 0
+  for (const threshold of thresholds) {
+    if ((threshold.minDbm === null || dbm >= threshold.minDbm) && threshold.value > best) {
+      best = threshold.value
+    }
+  }
+  return best
+}
+
+/**
+ * Distance (km) at which the flat-terrain main-beam prediction drops below the floor
+ */
+export function estimateCoverageRadiusKm(
+  site: PropagationSite,
+  frequencyMHz: number,
+  environment: PropagationEnvironment,
+  receiverHeight: number,
+  receiverGain: number,
+  floorDbm: number
+): number {
+  const eirp = site.erpDbm + 2.15
+  for (let d = PROPAGATION_MODEL.MIN_DISTANCE_KM; d < PROPAGATION_MODEL.MAX_DISTANCE_KM; d++) {
+    const power = eirp - hataPathLoss(d, site.heightAgl, receiverHeight, frequencyMHz, environment) + receiverGain
+    if (power < floorDbm) return d
+  }
+  return PROPAGATION_MODEL.MAX_DISTANCE_KM
+}
+
+/**
+ * Bounds of a square of the given half-width around a point
+ */
+export function getPredictionBounds(latitude: number, longitude: number, radiusKm: number): Bounds {
+  const latSpan = radiusKm / KM_PER_DEGREE
+  const lngSpan = radiusKm / (KM_PER_DEGREE * Math.cos(toRad(latitude)))
+  return [[latitude - latSpan, longitude - lngSpan], [latitude + latSpan, longitude + lngSpan]]
+}
+
+/**
+ * Predict received power and coverage level for every pixel of the request grid.
+ * Terrain is walked along radials from the site: each radial gives the transmitter height above
+ * average terrain (3–15 km, as in P.1546) and the worst knife edge towards every distance.
+ */
+export function predictCoverage(request: PredictionRequest): PredictionGrid {
+  const { site, bounds, width, height, terrain, frequencyMHz, environment, receiverHeight, receiverGain } = request
+  const [[south, west], [north, east]] = bounds
+  const pixelLat = (north - south) / height
+  const pixelLng = (east - west) / width
+  const kmPerLat = KM_PER_DEGREE
+  const kmPerLng = KM_PER_DEGREE * Math.cos(toRad(site.latitude))
+
+  // Nearest-pixel ground elevation, null outside the grid or where the DEM has no data
+  const elevationAt = (lat: number, lng: number): number | null => {
+    if (!terrain) return null
+    const x = Math.floor((lng - west) / pixelLng)
+    const y = Math.floor((north - lat) / pixelLat)
+    if (x < 0 || y < 0 || x >= width || y >= height) return null
+    const value = terrain[y * width + x]
+    return Number.isNaN(value) ? null : value
+  }
+
+  const siteGround = elevationAt(site.latitude, site.longitude) ?? 0
+  const txAsl = siteGround + site.heightAgl
+  const wavelength = 299.792458 / frequencyMHz
+  const kEarthRadius = LINE_OF_SIGHT.K_FACTOR * LINE_OF_SIGHT.EARTH_RADIUS_M
+
+  // One sample per output pixel along each radial
+  const stepKm = Math.min(pixelLat * kmPerLat, pixelLng * kmPerLng)
+  const corners = [[south, west], [south, east], [north, west], [north, east]]
+  const maxKm = Math.max(...corners.map(([lat, lng]) => Math.hypot((lat - site.latitude) * kmPerLat, (lng - site.longitude) * kmPerLng)))
+  const samples = Math.ceil(maxKm / stepKm) + 1
+  const radials = request.radials
+
+  const effectiveHeight = new Float32Array(radials).fill(site.heightAgl)
+  const diffraction = new Float32Array(terrain ? radials * samples : 0)
+  const profile = new Float32Array(samples)
+
+  if (terrain) {
+    for (let r = 0; r < radials; r++) {
+      const bearing = toRad((r * 360) / radials)
+      let sum = 0
+      let count = 0
+      for (let i = 0; i < samples; i++) {
+        const d = i * stepKm
+        const ground = elevationAt(site.latitude + (d * Math.cos(bearing)) / kmPerLat, site.longitude + (d * Math.sin(bearing)) / kmPerLng)
+        profile[i] = ground ?? Number.NaN
+        if (ground !== null && d >= 3 && d <= 15) {
+          sum += ground
+          count++
+        }
+      }
+      if (count > 0) effectiveHeight[r] = txAsl - sum / count
+
+      for (let i = 2; i < samples; i++) {
+        if (Number.isNaN(profile[i])) continue
+        const rxAsl = profile[i] + receiverHeight
+        const totalM = i * stepKm * 1000
+        let worst = Number.NEGATIVE_INFINITY
+        for (let j = 1; j < i; j++) {
+          if (Number.isNaN(profile[j])) continue
+          const d1 = j * stepKm * 1000
+          const d2 = totalM - d1
+          const ray = txAsl + (rxAsl - txAsl) * (j / i)
+          const obstacle = profile[j] + (d1 * d2) / (2 * kEarthRadius)
+          const v = (obstacle - ray) * Math.sqrt((2 * totalM) / (wavelength * d1 * d2))
+          if (v > worst) worst = v
+        }
+        diffraction[r * samples + i] = knifeEdgeLoss(worst)
+      }
+    }
+  }
+
+  const power = new Float32Array(width * height).fill(Number.NEGATIVE_INFINITY)
+  const levels = new Uint8Array(width * height)
+  const eirp = site.erpDbm + 2.15
+
+  for (let y = 0; y < height; y++) {
+    const lat = north - (y + 0.5) * pixelLat
+    const dy = (lat - site.latitude) * kmPerLat
+    for (let x = 0; x < width; x++) {
+      const lng = west + (x + 0.5) * pixelLng
+      const dx = (lng - site.longitude) * kmPerLng
+      const distanceKm = Math.hypot(dx, dy)
+      if (distanceKm > PROPAGATION_MODEL.MAX_DISTANCE_KM) continue
+
+      const bearing = (toDeg(Math.atan2(dx, dy)) + 360) % 360
+      const r = Math.round((bearing / 360) * radials) % radials
+      const i = Math.min(samples - 1, Math.round(distanceKm / stepKm))
+      const offset = y * width + x
+
+      const ground = terrain && !Number.isNaN(terrain[offset]) ? terrain[offset] : siteGround
+      const depression = toDeg(Math.atan2(txAsl - (ground + receiverHeight), Math.max(1, distanceKm * 1000)))
+
+      const loss =
+        hataPathLoss(distanceKm, effectiveHeight[r], receiverHeight, frequencyMHz, environment) +
+        (terrain ? diffraction[r * samples + i] : 0) +
+        patternLoss(site.pattern, bearing, depression)
+
+      power[offset] = eirp - loss + receiverGain
+      levels[offset] = levelForPower(power[offset], request.thresholds, request.floorDbm)
+    }
+  }
+
+  return { bounds, width, height, power, levels }
+}
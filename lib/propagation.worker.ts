@@ -0,0 +1,32 @@
+// Runs coverage predictions and SFN risk grids off the main thread
+
+import { predictCoverage, type PredictionGrid, type PredictionRequest } from "@/lib/propagation"
+import { computeSfnRiskGrid, type SfnRiskGrid, type SfnRiskRequest } from "@/lib/sfn"
+
+export type PredictionWorkerRequest =
+  | { id: number; request: PredictionRequest }
+  | { id: number; sfnRisk: SfnRiskRequest }
+
+export type PredictionWorkerResponse =
+  | { id: number; grid: PredictionGrid }
+  | { id: number; sfnGrid: SfnRiskGrid }
+  | { id: number; error: string }
+
+self.onmessage = (event: MessageEvent<PredictionWorkerRequest>) => {
+  const { id } = event.data
+  try {
+    if ("sfnRisk" in event.data) {
+      const sfnGrid = computeSfnRiskGrid(event.data.sfnRisk)
+      const response: PredictionWorkerResponse = { id, sfnGrid }
+      self.postMessage(response, { transfer: [sfnGrid.cells.buffer as ArrayBuffer] })
+      return
+    }
+
+    const grid = predictCoverage(event.data.request)
+    const response: PredictionWorkerResponse = { id, grid }
+    self.postMessage(response, { transfer: [grid.power.buffer as ArrayBuffer, grid.levels.buffer as ArrayBuffer] })
+  } catch (error) {
+    const response: PredictionWorkerResponse = { id, error: error instanceof Error ? error.message : String(error) }
+    self.postMessage(response)
+  }
+}
@@ -0,0 +1,164 @@
+// Convert binary raster masks into polygons along pixel edges
+
+import type { Bounds } from "@/lib/coverage-raster"
+
+export type PixelRing = [number, number][] // [x, y] pixel-corner coordinates, y down
+export type PixelPolygon = PixelRing[] // outer ring followed by holes
+export type LngLatRing = [number, number][] // [lng, lat], GeoJSON order
+export type LngLatPolygon = LngLatRing[]
+
+// Direction vectors: 0 = east, 1 = south, 2 = west, 3 = north (y down)
+const DX = [1, 0, -1, 0]
+const DY = [0, 1, 0, -1]
+
+interface Edge {
+  x: number
+  y: number
+  dir: number
+  used: boolean
+}
+
+/**
+ * Trace the boundary of every set region of a mask.
+ * Outer rings run clockwise on screen and holes anticlockwise, with the set
+ * pixels always on the right-hand side. Diagonal-only contact is treated as
+ * separate regions (4-connectivity).
+ * @param mask Non-zero values are inside
+ * @returns Polygons as an outer ring followed by its holes
+ */
+export function traceMaskPolygons(mask: Uint8Array, width: number, height: number): PixelPolygon[] {
+  const isSet = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] !== 0
+
+  // Collect directed boundary edges keyed by their start vertex
+  const edgesByStart = new Map<number, Edge[]>()
+  const vertexKey = (x: number, y: number) => y * (width + 1) + x
+  const addEdge = (x: number, y: number, dir: number) => {
+    const key = vertexKey(x, y)
+    const list = edgesByStart.get(key)
+    const edge = { x, y, dir, used: false }
+    if (list) list.push(edge)
+    else edgesByStart.set(key, [edge])
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isSet(x, y)) continue
+      if (!isSet(x, y - 1)) addEdge(x, y, 0)
+      if (!isSet(x + 1, y)) addEdge(x + 1, y, 1)
+      if (!isSet(x, y + 1)) addEdge(x + 1, y + 1, 2)
+      if (!isSet(x - 1, y)) addEdge(x, y + 1, 3)
+    }
+  }
+
+  // Link edges into closed rings
+  const rings: PixelRing[] = []
+  for (const list of edgesByStart.values()) {
+    for (const start of list) {
+      if (start.used) continue
+
+      const ring: PixelRing = []
+      let edge: Edge | undefined = start
+      while (edge && !edge.used) {
+        edge.used = true
+        ring.push([edge.x, edge.y])
+        const nx: number = edge.x + DX[edge.dir]
+        const ny: number = edge.y + DY[edge.dir]
+        const candidates: Edge[] = (edgesByStart.get(vertexKey(nx, ny)) || []).filter((e: Edge) => !e.used)
+        // At pinch points prefer turning right so diagonal neighbours stay separate
+        const preference: number[] = [(edge.dir + 1) % 4, edge.dir, (edge.dir + 3) % 4]
+        edge = preference.map((dir: number) => candidates.find((e) => e.dir === dir)).find(Boolean)
+      }
+
+      const simplified = removeCollinearPoints(ring)
+      if (simplified.length >= 4) rings.push(simplified)
+    }
+  }
+
+  return assignHoles(rings)
+}
+
+/**
+ * Signed area of a pixel ring; positive for outer rings, negative for holes
+ */
+export function ringArea(ring: PixelRing): number {
+  let sum = 0
+  for (let i = 0; i < ring.length; i++) {
+    const [x1, y1] = ring[i]
+    const [x2, y2] = ring[(i + 1) % ring.length]
+    sum += x1 * y2 - x2 * y1
+  }
+  return sum / 2
+}
+
+/**
+ * Convert pixel polygons to [lng, lat] rings for an image georeferenced by bounds.
+ * Rings are closed (first point repeated) as GeoJSON requires.
+ */
+export function pixelPolygonsToLngLat(
+  polygons: PixelPolygon[],
+  bounds: Bounds,
+  width: number,
+  height: number
+): LngLatPolygon[] {
+  const [[south, west], [north, east]] = bounds
+  const pixelLng = (east - west) / width
+  const pixelLat = (north - south) / height
+
+  return polygons.map((polygon) =>
+    polygon.map((ring) => {
+      const coords = ring.map(([x, y]) => [west + x * pixelLng, north - y * pixelLat] as [number, number])
+      coords.push(coords[0])
+      return coords
+    })
+  )
+}
+
+/**
+ * Drop vertices that lie on a straight run between their neighbours
+ */
+function removeCollinearPoints(ring: PixelRing): PixelRing {
+  return ring.filter((point, i) => {
+    const prev = ring[(i - 1 + ring.length) % ring.length]
+    const next = ring[(i + 1) % ring.length]
+    return (point[0] - prev[0]) * (next[1] - point[1]) !== (point[1] - prev[1]) * (next[0] - point[0])
+  })
+}
+
+/**
+ * Group hole rings under the smallest outer ring that contains them
+ */
+function assignHoles(rings: PixelRing[]): PixelPolygon[] {
+  const outers = rings.filter((ring) => ringArea(ring) > 0).map((ring) => ({ ring, area: ringArea(ring), holes: [] as PixelRing[] }))
+  const holes = rings.filter((ring) => ringArea(ring) < 0)
+
+  holes.forEach((hole) => {
+    // The pixel to the right of the first hole edge belongs to the enclosing region
+    const [x0, y0] = hole[0]
+    const [x1, y1] = hole[1]
+    const dx = Math.sign(x1 - x0)
+    const dy = Math.sign(y1 - y0)
+    const probe: [number, number] = [x0 + dx * 0.5 - dy * 0.5, y0 + dy * 0.5 + dx * 0.5]
+
+    const parent = outers
+      .filter((outer) => isPointInRing(probe, outer.ring))
+      .sort((a, b) => a.area - b.area)[0]
+    parent?.holes.push(hole)
+  })
+
+  return outers.map((outer) => [outer.ring, ...outer.holes])
+}
+
+/**
+ * Even-odd point-in-polygon test
+ */
+function isPointInRing([px, py]: [number, number], ring: PixelRing): boolean {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+    if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
@@ -0,0 +1,53 @@
+// In-memory fixed-window rate limiting for anonymous API endpoints (per server process)
+
+export interface RateLimiter {
+  /**
+   * Count a request for a key
+   * @returns 0 when allowed, otherwise milliseconds until the key may try again
+   */
+  take: (key: string) => number
+}
+
+interface Window {
+  start: number
+  count: number
+}
+
+/**
+ * Allow at most `limit` requests per key in each window of `windowMs`
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const windows = new Map<string, Window>()
+
+  return {
+    take(key) {
+      const now = Date.now()
+      let window = windows.get(key)
+      if (!window || now - window.start >= windowMs) {
+        // Forget finished windows so the map does not grow with every address ever seen
+        for (const [otherKey, other] of windows) {
+          if (now - other.start >= windowMs) windows.delete(otherKey)
+        }
+        window = { start: now, count: 0 }
+        windows.set(key, window)
+      }
+
+      if (window.count >= limit) return window.start + windowMs - now
+      window.count++
+      return 0
+    },
+  }
+}
+
+/**
+ * Client address of a request from X-Forwarded-For. Clients can send the header themselves, so only
+ * the entry appended by the outermost trusted proxy is used: the `trustedHops`-th from the end.
+ * Without a proxy the Next.js server fills the header from the socket address, but only when the
+ * request arrives without one.
+ * @returns null when the request has fewer entries than trusted hops, e.g. it bypassed the proxy
+ */
+export function getClientIp(headers: Headers, trustedHops: number): string | null {
+  const entries = (headers.get("x-forwarded-for") ?? "").split(",").map((entry) => entry.trim())
+  if (trustedHops < 1 || entries.length < trustedHops) return null
+  return entries[entries.length - trustedHops] || null
+}
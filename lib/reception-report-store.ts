@@ -0,0 +1,73 @@
+// Server-side file store for reception reports: JSON lines, one report appended per submission
+
+import { appendFile, mkdir, readFile } from "fs/promises"
+import { randomUUID } from "crypto"
+import path from "path"
+import type { ReceptionReport, ReceptionReportInput } from "@/lib/reception-reports"
+import { REPORT_STORE } from "@/constants/reports"
+
+const STORE_PATH = path.resolve(process.cwd(), process.env.REPORTS_STORE_PATH || REPORT_STORE.FILE)
+
+let reportsPromise: Promise<ReceptionReport[]> | null = null
+// Appends are chained so concurrent reports in this process never interleave
+let writeQueue: Promise<unknown> = Promise.resolve()
+// Set when the file ends mid-line, so the next report starts on a line of its own
+let endsMidLine = false
+
+async function loadReports(): Promise<ReceptionReport[]> {
+  let text: string
+  try {
+    text = await readFile(STORE_PATH, "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  endsMidLine = text.length > 0 && !text.endsWith("\n")
+  const reports: ReceptionReport[] = []
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      reports.push(JSON.parse(line))
+    } catch {
+      // A line cut short by a crash mid-append; the reports around it are intact
+      console.warn("Skipping unreadable line in the reception report store")
+    }
+  }
+  return reports
+}
+
+/**
+ * All stored reports, oldest first
+ */
+export function getReceptionReports(): Promise<ReceptionReport[]> {
+  if (!reportsPromise) {
+    reportsPromise = loadReports()
+    reportsPromise.catch(() => {
+      reportsPromise = null
+    })
+  }
+  return reportsPromise
+}
+
+/**
+ * Store a validated report and return it with its id and timestamp
+ * @returns null when the store already holds REPORT_STORE.MAX_REPORTS reports; existing
+ * reports are never dropped to make room
+ */
+export function addReceptionReport(input: ReceptionReportInput): Promise<ReceptionReport | null> {
+  const task = writeQueue.then(async () => {
+    const reports = await getReceptionReports()
+    if (reports.length >= REPORT_STORE.MAX_REPORTS) return null
+
+    const report: ReceptionReport = { ...input, id: randomUUID(), createdAt: new Date().toISOString() }
+    await mkdir(path.dirname(STORE_PATH), { recursive: true })
+    await appendFile(STORE_PATH, `${endsMidLine ? "\n" : ""}${JSON.stringify(report)}\n`, "utf8")
+    endsMidLine = false
+
+    reports.push(report)
+    return report
+  })
+  writeQueue = task.catch(() => undefined)
+  return task
+}
@@ -0,0 +1,205 @@
+// Reception reports from the public: shared types, validation, filters and the API client
+
+import { z } from "zod"
+import Papa from "papaparse"
+import type { BBox } from "@/lib/data-query"
+import { REPORT_STORE } from "@/constants/reports"
+
+export type ReceptionRating = "good" | "poor" | "none"
+export type AntennaType = "rooftop" | "indoor" | "set-top" | "other"
+
+export interface ReceptionReportInput {
+  latitude: number
+  longitude: number
+  rating: ReceptionRating
+  antennaType: AntennaType
+  channel: number | null
+  comment: string
+}
+
+export interface ReceptionReport extends ReceptionReportInput {
+  id: string
+  createdAt: string // ISO timestamp, set by the server
+}
+
+export interface ReportFilter {
+  ratings?: ReceptionRating[]
+  antennaTypes?: AntennaType[]
+  channel?: number
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+  bbox?: BBox
+}
+
+export const RECEPTION_RATINGS: ReceptionRating[] = ["good", "poor", "none"]
+export const ANTENNA_TYPES: AntennaType[] = ["rooftop", "indoor", "set-top", "other"]
+
+export const RATING_LABELS: Record<ReceptionRating, string> = {
+  good: "รับได้ดี",
+  poor: "รับได้ไม่ดี / ภาพกระตุก",
+  none: "รับไม่ได้",
+}
+
+export const RATING_COLORS: Record<ReceptionRating, string> = {
+  good: "#22c55e",
+  poor: "#f59e0b",
+  none: "#ef4444",
+}
+
+export const ANTENNA_LABELS: Record<AntennaType, string> = {
+  rooftop: "เสาอากาศบนหลังคา",
+  indoor: "เสาอากาศในบ้าน",
+  "set-top": "หนวดกุ้ง / ติดกล่อง",
+  other: "อื่น ๆ",
+}
+
+export const ADMIN_TOKEN_HEADER = "x-admin-token"
+
+export const receptionReportInputSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  rating: z.enum(["good", "poor", "none"]),
+  antennaType: z.enum(["rooftop", "indoor", "set-top", "other"]),
+  channel: z.number().int().min(1).max(69).nullable(),
+  comment: z.string().trim().max(REPORT_STORE.MAX_COMMENT_LENGTH),
+})
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Parse query parameters: rating=a,b  antenna=a,b  channel=  from=  to=  bbox=west,south,east,north
+ * @throws Error with a user-facing message when a parameter is malformed
+ */
+export function parseReportFilter(params: URLSearchParams): ReportFilter {
+  const filter: ReportFilter = {}
+
+  const list = <T extends string>(name: string, allowed: T[]) => {
+    const values = params.getAll(name).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean)
+    const unknown = values.find((value) => !allowed.includes(value as T))
+    if (unknown) throw new Error(`${name} must be one of ${allowed.join(", ")}`)
+    return values.length > 0 ? (values as T[]) : undefined
+  }
+  filter.ratings = list("rating", RECEPTION_RATINGS)
+  filter.antennaTypes = list("antenna", ANTENNA_TYPES)
+
+  const channel = params.get("channel")
+  if (channel) {
+    filter.channel = Number(channel)
+    if (!Number.isInteger(filter.channel)) throw new Error("channel must be a whole number")
+  }
+
+  for (const name of ["from", "to"] as const) {
+    const value = params.get(name)
+    if (!value) continue
+    if (!DATE_PATTERN.test(value)) throw new Error(`${name} must be YYYY-MM-DD`)
+    filter[name] = value
+  }
+
+  const bbox = params.get("bbox")
+  if (bbox) {
+    const values = bbox.split(",").map(Number)
+    if (values.length !== 4 || values.some((value) => !Number.isFinite(value))) {
+      throw new Error("bbox must be west,south,east,north")
+    }
+    filter.bbox = values as BBox
+  }
+
+  return filter
+}
+
+/**
+ * Serialise a filter back to a query string (without the leading "?")
+ */
+export function buildReportFilterString(filter: ReportFilter): string {
+  const params = new URLSearchParams()
+  if (filter.ratings?.length) params.set("rating", filter.ratings.join(","))
+  if (filter.antennaTypes?.length) params.set("antenna", filter.antennaTypes.join(","))
+  if (filter.channel !== undefined) params.set("channel", String(filter.channel))
+  if (filter.from) params.set("from", filter.from)
+  if (filter.to) params.set("to", filter.to)
+  if (filter.bbox) params.set("bbox", filter.bbox.map((value) => value.toFixed(5)).join(","))
+  return params.toString()
+}
+
+/**
+ * Reports matching every given filter. Dates compare against the UTC day the report was made.
+ */
+export function filterReports(reports: ReceptionReport[], filter: ReportFilter): ReceptionReport[] {
+  return reports.filter((report) => {
+    if (filter.ratings && !filter.ratings.includes(report.rating)) return false
+    if (filter.antennaTypes && !filter.antennaTypes.includes(report.antennaType)) return false
+    if (filter.channel !== undefined && report.channel !== filter.channel) return false
+    const day = report.createdAt.slice(0, 10)
+    if (filter.from && day < filter.from) return false
+    if (filter.to && day > filter.to) return false
+    if (filter.bbox) {
+      const [west, south, east, north] = filter.bbox
+      if (report.longitude < west || report.longitude > east || report.latitude < south || report.latitude > north) return false
+    }
+    return true
+  })
+}
+
+/**
+ * CSV with one row per report, newest first as given
+ */
+export function reportsToCsv(reports: ReceptionReport[]): string {
+  return Papa.unparse(reports.map((report) => ({
+    id: report.id,
+    createdAt: report.createdAt,
+    latitude: report.latitude,
+    longitude: report.longitude,
+    rating: report.rating,
+    antennaType: report.antennaType,
+    channel: report.channel ?? "",
+    comment: report.comment,
+  })), { escapeFormulae: true }) // comments are public input; keep spreadsheets from evaluating them
+}
+
+export function downloadReportsCsv(reports: ReceptionReport[]): void {
+  // Byte order mark so spreadsheet apps read the Thai comments as UTF-8
+  const blob = new Blob(["\uFEFF", reportsToCsv(reports)], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `reception_reports_${new Date().toISOString().slice(0, 10)}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json()
+    if (typeof body?.error === "string") return body.error
+  } catch {
+    // Not JSON; fall back to the status text
+  }
+  return `${response.status} ${response.statusText}`
+}
+
+/**
+ * Send a report to the app's store
+ */
+export async function submitReceptionReport(input: ReceptionReportInput): Promise<ReceptionReport> {
+  const response = await fetch("/api/reports", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  return response.json()
+}
+
+/**
+ * Reports matching a filter, newest first. Needs the admin token when the server sets one.
+ */
+export async function fetchReceptionReports(filter: ReportFilter, token: string): Promise<ReceptionReport[]> {
+  const response = await fetch(`/api/reports?${buildReportFilterString(filter)}`, {
+    headers: token ? { [ADMIN_TOKEN_HEADER]: token } : {},
+  })
+  if (!response.ok) throw new Error(await readError(response))
+  const body: { data: ReceptionReport[] } = await response.json()
+  return body.data
+}
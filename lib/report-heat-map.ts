@@ -0,0 +1,81 @@
+// Heat map of reception reports: Gaussian report density rendered as an image overlay
+
+import type { Bounds } from "@/lib/coverage-raster"
+import { getGridSize, renderGridToDataUrl } from "@/lib/coverage-composite"
+import type { ReceptionReport } from "@/lib/reception-reports"
+import { REPORT_HEAT_MAP } from "@/constants/reports"
+
+export interface ReportHeatLayer {
+  imageUrl: string
+  bounds: Bounds
+}
+
+const KM_PER_DEGREE = 111.32
+// Yellow through orange to red as density rises
+const HEAT_RAMP: [number, number, number][] = [
+  [253, 224, 71],
+  [249, 115, 22],
+  [220, 38, 38],
+]
+// Densities below this share of the peak are left transparent
+const MIN_DENSITY = 0.03
+
+function rampColor(t: number): [number, number, number] {
+  const position = Math.min(1, t) * (HEAT_RAMP.length - 1)
+  const index = Math.min(HEAT_RAMP.length - 2, Math.floor(position))
+  const fraction = position - index
+  const [from, to] = [HEAT_RAMP[index], HEAT_RAMP[index + 1]]
+  return [0, 1, 2].map((channel) => Math.round(from[channel] + (to[channel] - from[channel]) * fraction)) as [number, number, number]
+}
+
+/**
+ * Density of reports, each spread over a Gaussian of REPORT_HEAT_MAP.RADIUS_KM, scaled to the peak
+ */
+export function buildReportHeatLayer(reports: ReceptionReport[]): ReportHeatLayer | null {
+  if (reports.length === 0) return null
+
+  const latitudes = reports.map((report) => report.latitude)
+  const longitudes = reports.map((report) => report.longitude)
+  const centerLat = (Math.min(...latitudes) + Math.max(...latitudes)) / 2
+  const kmPerDegreeLng = KM_PER_DEGREE * Math.cos((centerLat * Math.PI) / 180)
+
+  // Pad by three sigma so no report's spread is cut off at the edge
+  const padKm = Math.max(3 * REPORT_HEAT_MAP.RADIUS_KM, REPORT_HEAT_MAP.MIN_SPAN_KM / 2)
+  const bounds: Bounds = [
+    [Math.min(...latitudes) - padKm / KM_PER_DEGREE, Math.min(...longitudes) - padKm / kmPerDegreeLng],
+    [Math.max(...latitudes) + padKm / KM_PER_DEGREE, Math.max(...longitudes) + padKm / kmPerDegreeLng],
+  ]
+
+  const [[south, west], [north, east]] = bounds
+  const { width, height } = getGridSize(bounds, REPORT_HEAT_MAP.MAX_DIMENSION)
+  const pixelKmX = ((east - west) / width) * kmPerDegreeLng
+  const pixelKmY = ((north - south) / height) * KM_PER_DEGREE
+  const sigma = REPORT_HEAT_MAP.RADIUS_KM
+  const reachX = Math.ceil((3 * sigma) / pixelKmX)
+  const reachY = Math.ceil((3 * sigma) / pixelKmY)
+
+  const density = new Float32Array(width * height)
+  reports.forEach((report) => {
+    const cx = ((report.longitude - west) / (east - west)) * width
+    const cy = ((north - report.latitude) / (north - south)) * height
+    for (let y = Math.max(0, Math.floor(cy) - reachY); y <= Math.min(height - 1, Math.floor(cy) + reachY); y++) {
+      const dy = (y + 0.5 - cy) * pixelKmY
+      for (let x = Math.max(0, Math.floor(cx) - reachX); x <= Math.min(width - 1, Math.floor(cx) + reachX); x++) {
+        const dx = (x + 0.5 - cx) * pixelKmX
+        density[y * width + x] += Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma))
+      }
+    }
+  })
+
+  let peak = 0
+  for (let offset = 0; offset < density.length; offset++) peak = Math.max(peak, density[offset])
+  if (peak === 0) return null
+
+  const imageUrl = renderGridToDataUrl(width, height, (offset) => {
+    const t = density[offset] / peak
+    if (t < MIN_DENSITY) return null
+    return [...rampColor(t), Math.round(REPORT_HEAT_MAP.MAX_ALPHA * Math.sqrt(t))]
+  })
+
+  return { imageUrl, bounds }
+}
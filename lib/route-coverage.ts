@@ -0,0 +1,190 @@
+// Coverage along a route: sample a GPX/KML track or a drawn line and decode the best level at each step
+
+import type { Station } from "@/types/map"
+import { sampleCoverageAt } from "@/lib/coverage-raster"
+import { importKmlFile, revokeImportedImages } from "@/lib/kml-import"
+import type { Coordinates } from "@/lib/geo-utils"
+import { ROUTE_PROFILE } from "@/constants/route"
+
+export interface RouteTrack {
+  name: string
+  path: Coordinates[]
+  lengthKm: number
+}
+
+export interface RouteSample extends Coordinates {
+  distanceKm: number // along the route from its start
+  level: number // best coverage level, 0 when no image covers the point
+  station: Station | null // station providing that level
+}
+
+export interface RouteGap {
+  startKm: number
+  endKm: number
+  path: Coordinates[] // the route between startKm and endKm, for drawing
+}
+
+export interface RouteProfile {
+  lengthKm: number
+  stepKm: number
+  minLevel: number
+  samples: RouteSample[]
+  gaps: RouteGap[]
+  gapKm: number
+}
+
+const EARTH_RADIUS_KM = 6371
+const toRad = Math.PI / 180
+
+/**
+ * Haversine distance without calculateDistance's rounding to 10 m, which would add up
+ * over the many short segments of a recorded track
+ */
+function segmentKm(from: Coordinates, to: Coordinates): number {
+  const dLat = (to.latitude - from.latitude) * toRad
+  const dLng = (to.longitude - from.longitude) * toRad
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(from.latitude * toRad) * Math.cos(to.latitude * toRad) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Length of a polyline in km
+ */
+export function getPathLengthKm(path: Coordinates[]): number {
+  let length = 0
+  for (let i = 1; i < path.length; i++) length += segmentKm(path[i - 1], path[i])
+  return length
+}
+
+export function createRouteTrack(name: string, path: Coordinates[]): RouteTrack {
+  return { name, path, lengthKm: getPathLengthKm(path) }
+}
+
+/**
+ * Points every stepKm along the path, always including both ends. Segments are short enough
+ * that interpolating linearly in lat/lng stays on the line.
+ */
+export function resamplePath(path: Coordinates[], stepKm: number): (Coordinates & { distanceKm: number })[] {
+  if (path.length === 0) return []
+  const points = [{ ...path[0], distanceKm: 0 }]
+  let travelled = 0
+  let nextKm = stepKm
+
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1]
+    const to = path[i]
+    const lengthKm = segmentKm(from, to)
+    while (lengthKm > 0 && nextKm <= travelled + lengthKm) {
+      const t = (nextKm - travelled) / lengthKm
+      points.push({
+        latitude: from.latitude + (to.latitude - from.latitude) * t,
+        longitude: from.longitude + (to.longitude - from.longitude) * t,
+        distanceKm: nextKm,
+      })
+      nextKm += stepKm
+    }
+    travelled += lengthKm
+  }
+
+  const last = path[path.length - 1]
+  if (travelled - points[points.length - 1].distanceKm > stepKm / 100) {
+    points.push({ ...last, distanceKm: travelled })
+  }
+  return points
+}
+
+/**
+ * Sample the route and find stretches below minLevel. The step is widened on long routes so
+ * no more than ROUTE_PROFILE.MAX_SAMPLES points are decoded.
+ */
+export async function analyzeRouteCoverage(
+  track: RouteTrack,
+  stations: Station[],
+  stepKm: number = ROUTE_PROFILE.STEP_KM,
+  minLevel: number = ROUTE_PROFILE.MIN_LEVEL
+): Promise<RouteProfile> {
+  const step = Math.max(stepKm, track.lengthKm / ROUTE_PROFILE.MAX_SAMPLES)
+  const points = resamplePath(track.path, step)
+  const candidates = stations.filter((station) => station.imageUrl)
+
+  const samples: RouteSample[] = []
+  for (const point of points) {
+    const [best] = await sampleCoverageAt(candidates, point)
+    samples.push({ ...point, level: best?.level.value ?? 0, station: best?.station ?? null })
+  }
+
+  // Each sample stands for half a step either side of it
+  const gaps: RouteGap[] = []
+  let current: RouteGap | null = null
+  samples.forEach((sample) => {
+    if (sample.level < minLevel) {
+      if (!current) {
+        current = { startKm: Math.max(0, sample.distanceKm - step / 2), endKm: sample.distanceKm, path: [] }
+        gaps.push(current)
+      }
+      current.endKm = Math.min(track.lengthKm, sample.distanceKm + step / 2)
+      current.path.push({ latitude: sample.latitude, longitude: sample.longitude })
+    } else {
+      current = null
+    }
+  })
+
+  return {
+    lengthKm: track.lengthKm,
+    stepKm: step,
+    minLevel,
+    samples,
+    gaps,
+    gapKm: gaps.reduce((sum, gap) => sum + (gap.endKm - gap.startKm), 0),
+  }
+}
+
+/**
+ * Track points of a GPX file: every <trkpt>, or the <rtept> of a planned route
+ */
+export function parseGpxRoute(text: string, fileName: string): RouteTrack {
+  const doc = new DOMParser().parseFromString(text, "application/xml")
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`${fileName}: the document is not well-formed XML`)
+  }
+
+  const trackPoints = Array.from(doc.getElementsByTagNameNS("*", "trkpt"))
+  const elements = trackPoints.length > 0 ? trackPoints : Array.from(doc.getElementsByTagNameNS("*", "rtept"))
+  const path = elements
+    .map((element) => ({
+      latitude: Number.parseFloat(element.getAttribute("lat") ?? ""),
+      longitude: Number.parseFloat(element.getAttribute("lon") ?? ""),
+    }))
+    .filter((point) => Number.isFinite(point.latitude) && Number.isFinite(point.longitude))
+
+  const name = doc.getElementsByTagNameNS("*", "name")[0]?.textContent?.trim()
+  return createRouteTrack(name || fileName.replace(/\.[^.]+$/, ""), path)
+}
+
+/**
+ * Import a route from .gpx, .kml or .kmz. KML documents use their longest LineString.
+ */
+export async function importRouteFile(file: File): Promise<RouteTrack> {
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  let track: RouteTrack
+
+  if (extension === "gpx") {
+    track = parseGpxRoute(await file.text(), file.name)
+  } else if (extension === "kml" || extension === "kmz") {
+    const result = await importKmlFile(file)
+    revokeImportedImages(result)
+    const lines = result.features
+      .filter((feature) => feature.type === "LineString")
+      .map((feature) => createRouteTrack(
+        feature.name || result.name,
+        (feature.coordinates as number[][]).map(([longitude, latitude]) => ({ latitude, longitude }))
+      ))
+    if (lines.length === 0) throw new Error(`${file.name}: no LineString found`)
+    track = lines.reduce((longest, line) => (line.lengthKm > longest.lengthKm ? line : longest))
+  } else {
+    throw new Error(`${file.name}: unsupported file type, expected .gpx, .kml or .kmz`)
+  }
+
+  if (track.path.length < 2) throw new Error(`${file.name}: the route needs at least two points`)
+  return track
+}
@@ -0,0 +1,42 @@
+// Server-side CSV data, parsed once per server process for the API routes
+
+import { readFile } from "fs/promises"
+import path from "path"
+import { parseStationCsv } from "@/data/stations"
+import { parseTechnicalCsv } from "@/data/technical"
+import type { Station, TechnicalData } from "@/types/map"
+
+const DATA_DIR = path.join(process.cwd(), "public", "data")
+
+let stationsPromise: Promise<Station[]> | null = null
+let technicalPromise: Promise<TechnicalData[]> | null = null
+
+async function readCsv(fileName: string): Promise<string> {
+  return readFile(path.join(DATA_DIR, fileName), "utf8")
+}
+
+/**
+ * Valid station rows from station_cord.csv
+ */
+export function getServerStations(): Promise<Station[]> {
+  if (!stationsPromise) {
+    stationsPromise = readCsv("station_cord.csv").then((text) => parseStationCsv(text).valid)
+    stationsPromise.catch(() => {
+      stationsPromise = null
+    })
+  }
+  return stationsPromise
+}
+
+/**
+ * Valid technical site rows from technical_data.csv
+ */
+export function getServerTechnicalData(): Promise<TechnicalData[]> {
+  if (!technicalPromise) {
+    technicalPromise = readCsv("technical_data.csv").then((text) => parseTechnicalCsv(text).valid)
+    technicalPromise.catch(() => {
+      technicalPromise = null
+    })
+  }
+  return technicalPromise
+}
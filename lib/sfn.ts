@@ -0,0 +1,281 @@
+// Single-frequency network timing: arrival delays of same-frequency sites against the DVB-T2 guard interval
+
+import type { TechnicalData } from "@/types/map"
+import { hexToRgb, type Bounds } from "@/lib/coverage-raster"
+import { getGridSize, renderGridToDataUrl } from "@/lib/coverage-composite"
+import { calculateDistance, type Coordinates } from "@/lib/geo-utils"
+import { calculateLinkBudget, DEFAULT_RECEIVER_SETTINGS } from "@/lib/link-budget"
+import { estimateCoverageRadiusKm, getAntennaPattern, getPredictionBounds, siteFromTechnicalData, type AntennaPattern, type PropagationEnvironment } from "@/lib/propagation"
+import { findSitePattern, type AntennaCatalogue } from "@/lib/antenna-catalogue"
+import { PREDICTION_RASTER, PROPAGATION_MODEL } from "@/constants/propagation"
+import { SFN_ANALYSIS, SFN_RASTER } from "@/constants/sfn"
+
+export type FftSize = "1K" | "2K" | "4K" | "8K" | "16K" | "32K"
+
+export interface GuardIntervalSettings {
+  fftSize: FftSize
+  fraction: string // "1/16", "19/256", ...
+}
+
+export interface SfnNetwork {
+  key: string
+  frequencyMHz: number
+  channel: number | null
+  groups: string[] // SFN group names on this frequency, "" for sites without one
+  sites: TechnicalData[]
+}
+
+export interface SfnSite {
+  data: TechnicalData
+  pattern: AntennaPattern
+}
+
+export type SfnStatus = "single" | "ok" | "risk"
+
+export interface SfnArrival {
+  site: TechnicalData
+  distanceKm: number
+  delayUs: number // propagation delay from the site
+  relativeDelayUs: number // after the first significant arrival of the wanted network
+  powerDbm: number
+  sameNetwork: boolean // same SFN group as the strongest signal
+  withinGuard: boolean // adds to the wanted signal rather than interfering
+}
+
+export interface SfnPointAnalysis {
+  frequencyMHz: number
+  guardIntervalUs: number
+  arrivals: SfnArrival[] // in order of arrival
+  wanted: SfnArrival
+  carrierToInterferenceDb: number | null // null when nothing interferes
+  status: SfnStatus
+}
+
+export interface SfnRiskRequest {
+  network: SfnNetwork
+  sites: SfnSite[]
+  guardIntervalUs: number
+}
+
+export interface SfnRiskGrid {
+  bounds: Bounds
+  width: number
+  height: number
+  cells: Uint8Array // SFN_RISK_CELL per pixel, row-major from the north-west corner
+  riskKm2: number
+  okKm2: number
+}
+
+export interface SfnRiskLayer {
+  imageUrl: string
+  bounds: Bounds
+  riskKm2: number
+  okKm2: number
+}
+
+export const SFN_STATUS_COLORS: Record<SfnStatus, string> = {
+  single: "#9ca3af",
+  ok: SFN_RASTER.OK_COLOR,
+  risk: SFN_RASTER.RISK_COLOR,
+}
+
+export const SFN_STATUS_LABELS: Record<SfnStatus, string> = {
+  single: "รับจากสถานีเดียว",
+  ok: "สัญญาณมาถึงภายในช่วงป้องกัน",
+  risk: "เสี่ยงรบกวนตัวเอง (เกินช่วงป้องกัน)",
+}
+
+// Useful symbol duration (µs) per FFT size in an 8 MHz channel
+export const FFT_SYMBOL_DURATION_US: Record<FftSize, number> = {
+  "1K": 112,
+  "2K": 224,
+  "4K": 448,
+  "8K": 896,
+  "16K": 1792,
+  "32K": 3584,
+}
+
+export const GUARD_INTERVAL_FRACTIONS = ["1/128", "1/32", "1/16", "19/256", "1/8", "19/128", "1/4"]
+
+// Radio waves cover 0.2998 km per microsecond
+// Values of SfnRiskGrid cells; pixels reached by one site or none are left empty
+const SFN_RISK_CELL = { EMPTY: 0, OK: 1, RISK: 2 }
+
+const KM_PER_MICROSECOND = 0.299792458
+const KM_PER_DEGREE = 111.32
+
+/**
+ * Centre frequency (MHz) of a VHF band III (7 MHz) or UHF (8 MHz) channel, null outside those bands
+ */
+export function channelToFrequencyMHz(channel: number): number | null {
+  if (!Number.isInteger(channel)) return null
+  if (channel >= 5 && channel <= 12) return 142.5 + 7 * channel
+  if (channel >= 21 && channel <= 69) return 306 + 8 * channel
+  return null
+}
+
+/**
+ * Guard interval length in microseconds
+ */
+export function getGuardIntervalUs(settings: GuardIntervalSettings): number {
+  const [numerator, denominator] = settings.fraction.split("/").map(Number)
+  return (FFT_SYMBOL_DURATION_US[settings.fftSize] * numerator) / denominator
+}
+
+/**
+ * Path length difference (km) a delay corresponds to
+ */
+export function delayToKm(delayUs: number): number {
+  return delayUs * KM_PER_MICROSECOND
+}
+
+/**
+ * Group sites by frequency. Networks with a single site cannot self-interfere but are kept
+ * so the readout still explains them.
+ */
+export function getSfnNetworks(sites: TechnicalData[]): SfnNetwork[] {
+  const networks = new Map<string, SfnNetwork>()
+  sites.forEach((site) => {
+    if (site.frequencyMHz === null) return
+    const key = site.frequencyMHz.toFixed(1)
+    const network = networks.get(key) ?? {
+      key,
+      frequencyMHz: site.frequencyMHz,
+      channel: site.channel,
+      groups: [],
+      sites: [],
+    }
+    network.sites.push(site)
+    if (!network.groups.includes(site.sfnGroup)) network.groups.push(site.sfnGroup)
+    networks.set(key, network)
+  })
+  return Array.from(networks.values()).sort((a, b) => a.frequencyMHz - b.frequencyMHz)
+}
+
+/**
+ * Attach each site's antenna pattern, from the catalogue when linked
+ */
+export function getSfnSites(sites: TechnicalData[], catalogue: AntennaCatalogue): SfnSite[] {
+  return sites.map((data) => ({ data, pattern: getAntennaPattern(data, findSitePattern(data, catalogue)) }))
+}
+
+/**
+ * Arrival times and powers of every same-frequency site at a point. The receiver's FFT window is
+ * taken to start at the first arrival from the strongest signal's SFN group that is within the
+ * protection ratio of it; echoes from that group inside the guard interval add to the wanted
+ * signal, everything else counts as interference. Sites without an SFN group are assumed to form
+ * one network together.
+ */
+export function analyzeSfnPoint(
+  point: Coordinates,
+  sites: SfnSite[],
+  frequencyMHz: number,
+  guardIntervalUs: number
+): SfnPointAnalysis | null {
+  const received: Omit<SfnArrival, "relativeDelayUs" | "sameNetwork" | "withinGuard">[] = []
+  for (const { data, pattern } of sites) {
+    const distanceKm = calculateDistance(data, point)
+    if (distanceKm > SFN_ANALYSIS.MAX_DISTANCE_KM) continue
+    const { receivedDbm } = calculateLinkBudget(data, pattern, point, DEFAULT_RECEIVER_SETTINGS, frequencyMHz)
+    if (receivedDbm < PREDICTION_RASTER.FLOOR_DBM) continue
+    received.push({ site: data, distanceKm, delayUs: distanceKm / KM_PER_MICROSECOND, powerDbm: receivedDbm })
+  }
+  if (received.length === 0) return null
+
+  const strongest = received.reduce((best, arrival) => (arrival.powerDbm > best.powerDbm ? arrival : best))
+  const group = strongest.site.sfnGroup
+  const referenceUs = Math.min(...received
+    .filter((arrival) => arrival.site.sfnGroup === group && arrival.powerDbm >= strongest.powerDbm - SFN_ANALYSIS.PROTECTION_RATIO_DB)
+    .map((arrival) => arrival.delayUs))
+
+  let carrierMw = 0
+  let interferenceMw = 0
+  const arrivals: SfnArrival[] = received
+    .map((arrival) => {
+      const relativeDelayUs = arrival.delayUs - referenceUs
+      const sameNetwork = arrival.site.sfnGroup === group
+      const withinGuard = sameNetwork && relativeDelayUs >= 0 && relativeDelayUs <= guardIntervalUs
+      const powerMw = Math.pow(10, arrival.powerDbm / 10)
+      if (withinGuard) carrierMw += powerMw
+      else interferenceMw += powerMw
+      return { ...arrival, relativeDelayUs, sameNetwork, withinGuard }
+    })
+    .sort((a, b) => a.delayUs - b.delayUs)
+
+  const carrierToInterferenceDb = interferenceMw > 0 ? 10 * Math.log10(carrierMw / interferenceMw) : null
+  let status: SfnStatus = arrivals.length === 1 ? "single" : "ok"
+  if (carrierToInterferenceDb !== null && carrierToInterferenceDb < SFN_ANALYSIS.PROTECTION_RATIO_DB) status = "risk"
+
+  return {
+    frequencyMHz,
+    guardIntervalUs,
+    arrivals,
+    wanted: arrivals.find((arrival) => arrival.site === strongest.site)!,
+    carrierToInterferenceDb,
+    status,
+  }
+}
+
+/**
+ * Grid of self-interference risk over a network's service area: risk where echoes beyond the
+ * guard interval break the protection ratio, ok where several sites add up inside it.
+ * Runs in the propagation worker, as every pixel is analysed against every site.
+ */
+export function computeSfnRiskGrid({ network, sites, guardIntervalUs }: SfnRiskRequest): SfnRiskGrid {
+  const environment = PROPAGATION_MODEL.ENVIRONMENT as PropagationEnvironment
+  const siteBounds = network.sites.map((data) => {
+    const radiusKm = estimateCoverageRadiusKm(
+      siteFromTechnicalData(data),
+      network.frequencyMHz,
+      environment,
+      DEFAULT_RECEIVER_SETTINGS.heightM,
+      DEFAULT_RECEIVER_SETTINGS.gainDbi,
+      PREDICTION_RASTER.FLOOR_DBM
+    )
+    return getPredictionBounds(data.latitude, data.longitude, radiusKm)
+  })
+  const bounds: Bounds = [
+    [Math.min(...siteBounds.map(([[south]]) => south)), Math.min(...siteBounds.map(([[, west]]) => west))],
+    [Math.max(...siteBounds.map(([, [north]]) => north)), Math.max(...siteBounds.map(([, [, east]]) => east))],
+  ]
+
+  const [[south, west], [north, east]] = bounds
+  const { width, height } = getGridSize(bounds, SFN_RASTER.MAX_DIMENSION)
+  const pixelLat = (north - south) / height
+  const pixelLng = (east - west) / width
+  const cells = new Uint8Array(width * height)
+
+  let riskKm2 = 0
+  let okKm2 = 0
+  for (let y = 0; y < height; y++) {
+    const latitude = north - (y + 0.5) * pixelLat
+    const pixelKm2 = pixelLat * KM_PER_DEGREE * pixelLng * KM_PER_DEGREE * Math.cos((latitude * Math.PI) / 180)
+    for (let x = 0; x < width; x++) {
+      const analysis = analyzeSfnPoint({ latitude, longitude: west + (x + 0.5) * pixelLng }, sites, network.frequencyMHz, guardIntervalUs)
+      if (analysis?.status === "risk") {
+        cells[y * width + x] = SFN_RISK_CELL.RISK
+        riskKm2 += pixelKm2
+      } else if (analysis?.status === "ok") {
+        cells[y * width + x] = SFN_RISK_CELL.OK
+        okKm2 += pixelKm2
+      }
+    }
+  }
+
+  return { bounds, width, height, cells, riskKm2, okKm2 }
+}
+
+/**
+ * Colour a risk grid as an overlay: red for risk, green where sites add up
+ */
+export function renderSfnRiskLayer({ bounds, width, height, cells, riskKm2, okKm2 }: SfnRiskGrid): SfnRiskLayer {
+  const riskColor: [number, number, number, number] = [...hexToRgb(SFN_RASTER.RISK_COLOR), SFN_RASTER.ALPHA]
+  const okColor: [number, number, number, number] = [...hexToRgb(SFN_RASTER.OK_COLOR), SFN_RASTER.ALPHA]
+  const imageUrl = renderGridToDataUrl(width, height, (offset) => {
+    if (cells[offset] === SFN_RISK_CELL.RISK) return riskColor
+    if (cells[offset] === SFN_RISK_CELL.OK) return okColor
+    return null
+  })
+
+  return { imageUrl, bounds, riskKm2, okKm2 }
+}
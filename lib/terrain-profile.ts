@@ -0,0 +1,177 @@
+// Terrain profile, line-of-sight and first Fresnel zone clearance between two antennas
+
+import { calculateBearing, calculateDistance, type Coordinates } from "@/lib/geo-utils"
+import { getElevations } from "@/lib/dem"
+import { patternLoss, type AntennaPattern } from "@/lib/propagation"
+import { LINE_OF_SIGHT } from "@/constants/terrain"
+
+export type LineOfSightStatus = "clear" | "fresnel" | "blocked" | "unknown"
+
+export interface AntennaEndpoint extends Coordinates {
+  heightAgl: number // antenna height above ground (m)
+  pattern?: AntennaPattern // transmitting antenna, for the attenuation towards the other end
+}
+
+export interface ProfilePoint {
+  distanceKm: number
+  latitude: number
+  longitude: number
+  terrain: number | null // ground elevation (m), null without DEM data
+  effectiveTerrain: number | null // terrain raised by earth curvature
+  lineOfSight: number // straight ray between the antennas (m)
+  fresnelRadius: number // first Fresnel zone radius (m)
+  clearance: number | null // ray height above effective terrain (m)
+}
+
+export interface LineOfSightResult {
+  status: LineOfSightStatus
+  distanceKm: number
+  profile: ProfilePoint[]
+  minClearance: number | null // m, negative when the ray is obstructed
+  minFresnelRatio: number | null // smallest clearance / first Fresnel radius
+  worstPoint: ProfilePoint | null
+  coverage: number // fraction of samples with DEM data
+  antennaLossDb: number | null // pattern attenuation of the far-end antenna towards the near end
+  frequencyMHz: number
+  kFactor: number
+}
+
+export interface LineOfSightOptions {
+  frequencyMHz?: number
+  kFactor?: number
+}
+
+// Line colour per result
+export const LINE_OF_SIGHT_COLORS: Record<LineOfSightStatus, string> = {
+  clear: "#22c55e",
+  fresnel: "#f59e0b",
+  blocked: "#ef4444",
+  unknown: "#9ca3af",
+}
+
+export const LINE_OF_SIGHT_LABELS: Record<LineOfSightStatus, string> = {
+  clear: "มองเห็นชัดเจน (Fresnel ผ่าน)",
+  fresnel: "มองเห็นได้ แต่ Fresnel zone ถูกบัง",
+  blocked: "ถูกภูมิประเทศบัง",
+  unknown: "ไม่มีข้อมูลความสูงภูมิประเทศ",
+}
+
+/**
+ * Evenly spaced points along the great circle between two coordinates
+ */
+export function samplePath(from: Coordinates, to: Coordinates, count: number): (Coordinates & { distanceKm: number })[] {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const toDeg = (rad: number) => (rad * 180) / Math.PI
+  const lat1 = toRad(from.latitude)
+  const lng1 = toRad(from.longitude)
+  const lat2 = toRad(to.latitude)
+  const lng2 = toRad(to.longitude)
+  const totalKm = calculateDistance(from, to)
+  const angle = totalKm / 6371
+
+  return Array.from({ length: count }, (_, i) => {
+    const fraction = count === 1 ? 0 : i / (count - 1)
+    if (angle === 0) return { ...from, distanceKm: 0 }
+
+    const a = Math.sin((1 - fraction) * angle) / Math.sin(angle)
+    const b = Math.sin(fraction * angle) / Math.sin(angle)
+    const x = a * Math.cos(lat1) * Math.cos(lng1) + b * Math.cos(lat2) * Math.cos(lng2)
+    const y = a * Math.cos(lat1) * Math.sin(lng1) + b * Math.cos(lat2) * Math.sin(lng2)
+    const z = a * Math.sin(lat1) + b * Math.sin(lat2)
+    return {
+      latitude: toDeg(Math.atan2(z, Math.sqrt(x * x + y * y))),
+      longitude: toDeg(Math.atan2(y, x)),
+      distanceKm: fraction * totalKm,
+    }
+  })
+}
+
+/**
+ * Earth bulge (m) at a point d1/d2 metres from each end for an effective radius k·R
+ */
+export function earthBulge(d1: number, d2: number, kFactor: number): number {
+  return (d1 * d2) / (2 * kFactor * LINE_OF_SIGHT.EARTH_RADIUS_M)
+}
+
+/**
+ * First Fresnel zone radius (m) at a point d1/d2 metres from each end
+ */
+export function fresnelRadius(d1: number, d2: number, frequencyMHz: number): number {
+  const total = d1 + d2
+  if (total === 0) return 0
+  const wavelength = 299.792458 / frequencyMHz // metres
+  return Math.sqrt((wavelength * d1 * d2) / total)
+}
+
+/**
+ * Build the terrain profile between two antennas and classify the path
+ */
+export async function analyzeLineOfSight(
+  from: AntennaEndpoint,
+  to: AntennaEndpoint,
+  options: LineOfSightOptions = {}
+): Promise<LineOfSightResult> {
+  const frequencyMHz = options.frequencyMHz ?? LINE_OF_SIGHT.FREQUENCY_MHZ
+  const kFactor = options.kFactor ?? LINE_OF_SIGHT.K_FACTOR
+
+  const distanceKm = calculateDistance(from, to)
+  const sampleCount = Math.max(2, Math.min(LINE_OF_SIGHT.MAX_SAMPLES, Math.ceil((distanceKm * 1000) / LINE_OF_SIGHT.SAMPLE_SPACING_M) + 1))
+  const path = samplePath(from, to, sampleCount)
+  const elevations = await getElevations(path)
+
+  const totalM = distanceKm * 1000
+  // Without a ground elevation at an end the antenna height, and so the whole ray, is unknown;
+  // sea level is used only to draw the profile, which is then left unclassified
+  const endpointsKnown = elevations[0] !== null && elevations[elevations.length - 1] !== null
+  const startHeight = (elevations[0] ?? 0) + from.heightAgl
+  const endHeight = (elevations[elevations.length - 1] ?? 0) + to.heightAgl
+
+  const profile: ProfilePoint[] = path.map((point, index) => {
+    const d1 = point.distanceKm * 1000
+    const d2 = Math.max(0, totalM - d1)
+    const terrain = elevations[index]
+    const effectiveTerrain = terrain === null ? null : terrain + earthBulge(d1, d2, kFactor)
+    const lineOfSight = totalM === 0 ? startHeight : startHeight + (endHeight - startHeight) * (d1 / totalM)
+    return {
+      distanceKm: point.distanceKm,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      terrain,
+      effectiveTerrain,
+      lineOfSight,
+      fresnelRadius: fresnelRadius(d1, d2, frequencyMHz),
+      clearance: effectiveTerrain === null || !endpointsKnown ? null : lineOfSight - effectiveTerrain,
+    }
+  })
+
+  // Endpoints sit on the antennas themselves and say nothing about obstruction
+  const interior = profile.slice(1, -1).filter((point) => point.clearance !== null)
+  const coverage = profile.length > 0 ? profile.filter((point) => point.terrain !== null).length / profile.length : 0
+
+  let worstPoint: ProfilePoint | null = null
+  let minFresnelRatio: number | null = null
+  for (const point of interior) {
+    const ratio = point.fresnelRadius > 0 ? point.clearance! / point.fresnelRadius : Infinity
+    if (minFresnelRatio === null || ratio < minFresnelRatio) {
+      minFresnelRatio = ratio
+      worstPoint = point
+    }
+  }
+  const minClearance = interior.length > 0 ? Math.min(...interior.map((point) => point.clearance!)) : null
+
+  let status: LineOfSightStatus = "unknown"
+  if (minClearance !== null && minFresnelRatio !== null) {
+    if (minClearance < 0) status = "blocked"
+    else if (minFresnelRatio < LINE_OF_SIGHT.FRESNEL_CLEARANCE_RATIO) status = "fresnel"
+    else status = "clear"
+  }
+
+  // The far end transmits: its bearing and depression angle towards the near end
+  let antennaLossDb: number | null = null
+  if (to.pattern) {
+    const depression = (Math.atan2(endHeight - startHeight, Math.max(1, totalM)) * 180) / Math.PI
+    antennaLossDb = patternLoss(to.pattern, calculateBearing(to, from), depression)
+  }
+
+  return { status, distanceKm, profile, minClearance, minFresnelRatio, worstPoint, coverage, antennaLossDb, frequencyMHz, kFactor }
+}
@@ -0,0 +1,118 @@
+/**
+ * Service worker for offline use at sites without mobile data: serves the app shell, station
+ * CSVs, saved coverage overlays and downloaded basemap tiles from Cache Storage.
+ * Cache names match OFFLINE_CACHES in constants/offline.js.
+ */
+
+const CACHES = {
+  SHELL: 'skyview-shell-v1',
+  DATA: 'skyview-data-v1',
+  OVERLAYS: 'skyview-overlays-v1',
+  BASEMAP: 'skyview-basemap-v1'
+};
+
+const OFFLINE_PAGE = '/offline.html';
+const SHELL_URLS = ['/', OFFLINE_PAGE, '/manifest.webmanifest', '/icons/icon.svg', '/icons/icon-192.png', '/icons/icon-512.png'];
+const DATA_URLS = ['/data/station_cord.csv', '/data/technical_data.csv'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(CACHES.SHELL).then((cache) => cache.addAll(SHELL_URLS)),
+      caches.open(CACHES.DATA).then((cache) => cache.addAll(DATA_URLS))
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop caches from earlier versions of this worker
+  const current = Object.values(CACHES);
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names.filter((name) => name.startsWith('skyview-') && !current.includes(name)).map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Pages send the bundles they loaded before this worker controlled them; station data is
+// refreshed at the same time so the copy taken offline is the latest one
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+
+  event.waitUntil(Promise.all([
+    caches.open(CACHES.SHELL).then((cache) => Promise.all(
+      event.data.urls.map((url) => cache.match(url).then((cached) => cached || cache.add(url)).catch(() => undefined))
+    )),
+    caches.open(CACHES.DATA).then((cache) => cache.addAll(DATA_URLS)).catch(() => undefined)
+  ]));
+});
+
+/**
+ * Tile servers spread requests over {s} subdomains; tiles are cached under the bare host
+ */
+function normalizeTileUrl(url) {
+  return url.href.replace(/^(https?:\/\/)[a-d]\./, '$1');
+}
+
+/**
+ * A coverage overlay or basemap tile the user saved
+ */
+async function matchSaved(url) {
+  const overlays = await caches.open(CACHES.OVERLAYS);
+  const basemap = await caches.open(CACHES.BASEMAP);
+  return (await overlays.match(url.href)) || (await basemap.match(url.href)) || basemap.match(normalizeTileUrl(url));
+}
+
+async function cacheFirst(cacheName, request, store) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (store && response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirst(cacheName, request, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    const fallback = fallbackUrl && await caches.match(fallbackUrl);
+    if (fallback) return fallback;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Coverage overlays and basemap tiles: only those the user saved are cached
+  if (url.origin !== self.location.origin) {
+    event.respondWith(matchSaved(url).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    // Build assets have hashed names and never change
+    event.respondWith(cacheFirst(CACHES.SHELL, request, true));
+  } else if (DATA_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(CACHES.DATA, request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(CACHES.SHELL, request, OFFLINE_PAGE));
+  } else if (!url.pathname.startsWith('/api/')) {
+    // Icons, the manifest and other public files precached with the shell
+    event.respondWith(
+      caches.match(request).then((cached) => cached || fetch(request))
+    );
+  }
+});
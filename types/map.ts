@@ -39,10 +39,16 @@ export interface TechnicalData {
   feederLoss: number
   antBrand: string
   maxERP: number
+  channel: number | null // RF channel number
+  frequencyMHz: number | null // centre frequency; derived from the channel when only that is given
+  sfnGroup: string // single-frequency network the site belongs to, "" when it is not in one
 }
 
 export interface CoverageLevel {
   level: string
+  value: number // 1 (weakest) - 5 (strongest)
   color: string
   description: string
+  minDbm: number | null // null = open-ended band
+  maxDbm: number | null
 }